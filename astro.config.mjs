@@ -15,6 +15,7 @@ import lighthouse from 'astro-lighthouse'
 
 import node from '@astrojs/node'
 import clerk from '@clerk/astro'
+import sentry from '@sentry/astro'
 
 // https://astro.build/config
 export default defineConfig({
@@ -57,6 +58,21 @@ export default defineConfig({
         ],
       },
     }),
+    // Server-side error reporting and tracing, initialized in sentry.server.config.ts. Source maps
+    // are uploaded when SENTRY_AUTH_TOKEN, SENTRY_ORG and SENTRY_PROJECT are set.
+    ...(process.env.SENTRY_DSN
+      ? [
+          sentry({
+            enabled: { client: false, server: true },
+            sourceMapsUploadOptions: {
+              enabled: Boolean(process.env.SENTRY_AUTH_TOKEN),
+              org: process.env.SENTRY_ORG,
+              project: process.env.SENTRY_PROJECT,
+              authToken: process.env.SENTRY_AUTH_TOKEN,
+            },
+          }),
+        ]
+      : []),
   ],
   output: 'server',
   // Choose adapter based on deployment target
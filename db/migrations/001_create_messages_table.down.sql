@@ -5,6 +5,7 @@
 DROP INDEX IF EXISTS idx_messages_created_at;
 DROP INDEX IF EXISTS idx_messages_is_read;
 DROP INDEX IF EXISTS idx_messages_email;
+DROP INDEX IF EXISTS idx_messages_is_archived;
 
 -- Drop table
 DROP TABLE IF EXISTS messages;
\ No newline at end of file
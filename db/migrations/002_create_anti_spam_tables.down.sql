@@ -0,0 +1,9 @@
+-- Rollback: Create anti-spam tables
+-- Created: 2025-08-20
+
+-- Drop indexes
+DROP INDEX IF EXISTS idx_spam_log_created_at;
+
+-- Drop tables
+DROP TABLE IF EXISTS spam_log;
+DROP TABLE IF EXISTS rate_limits;
\ No newline at end of file
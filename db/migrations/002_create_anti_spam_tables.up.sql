@@ -0,0 +1,21 @@
+-- Migration: Create anti-spam tables
+-- Created: 2025-08-20
+
+-- Fixed-window counters for per-IP rate limiting of form submissions
+CREATE TABLE IF NOT EXISTS rate_limits (
+  key TEXT PRIMARY KEY,
+  window_start INTEGER NOT NULL,
+  count INTEGER NOT NULL DEFAULT 0
+);
+
+-- Rejected form submissions, kept to tune spam thresholds
+CREATE TABLE IF NOT EXISTS spam_log (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  form_name TEXT NOT NULL,
+  reason TEXT NOT NULL,
+  ip_address TEXT CHECK(length(ip_address) <= 45),
+  user_agent TEXT CHECK(length(user_agent) <= 500),
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_spam_log_created_at ON spam_log(created_at DESC);
\ No newline at end of file
@@ -0,0 +1,9 @@
+-- Rollback: Create message notifications table
+-- Created: 2025-08-22
+
+-- Drop indexes
+DROP INDEX IF EXISTS idx_message_notifications_status;
+DROP INDEX IF EXISTS idx_message_notifications_message_id;
+
+-- Drop table
+DROP TABLE IF EXISTS message_notifications;
\ No newline at end of file
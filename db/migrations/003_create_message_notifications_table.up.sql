@@ -0,0 +1,16 @@
+-- Migration: Create message notifications table
+-- Created: 2025-08-22
+
+-- Outcome of every email sent about a message, so failed deliveries can be found and retried
+CREATE TABLE IF NOT EXISTS message_notifications (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  message_id INTEGER NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL,
+  recipients TEXT NOT NULL,
+  status TEXT NOT NULL CHECK(status IN ('sent', 'failed', 'skipped')),
+  error TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_notifications_message_id ON message_notifications(message_id);
+CREATE INDEX IF NOT EXISTS idx_message_notifications_status ON message_notifications(status);
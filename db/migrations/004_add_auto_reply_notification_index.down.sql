@@ -0,0 +1,4 @@
+-- Rollback: Add auto-reply notification index
+-- Created: 2025-08-23
+
+DROP INDEX IF EXISTS idx_message_notifications_auto_reply;
\ No newline at end of file
@@ -0,0 +1,6 @@
+-- Migration: Add auto-reply notification index
+-- Created: 2025-08-23
+
+-- At most one auto-reply row per message, retries update it instead of adding another
+CREATE UNIQUE INDEX IF NOT EXISTS idx_message_notifications_auto_reply
+  ON message_notifications(message_id) WHERE kind = 'auto_reply';
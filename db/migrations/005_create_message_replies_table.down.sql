@@ -0,0 +1,8 @@
+-- Rollback: Create message replies table
+-- Created: 2025-08-25
+
+-- Drop indexes
+DROP INDEX IF EXISTS idx_message_replies_message_id;
+
+-- Drop table
+DROP TABLE IF EXISTS message_replies;
\ No newline at end of file
@@ -0,0 +1,17 @@
+-- Migration: Create message replies table
+-- Created: 2025-08-25
+
+-- Staff replies emailed to the sender and internal notes, both attached to a message
+CREATE TABLE IF NOT EXISTS message_replies (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  message_id INTEGER NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK(kind IN ('reply', 'note')),
+  body TEXT NOT NULL CHECK(length(body) <= 10000),
+  author_id TEXT NOT NULL,
+  author_name TEXT,
+  delivery_status TEXT CHECK(delivery_status IN ('sent', 'failed')),
+  delivery_error TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_replies_message_id ON message_replies(message_id, created_at);
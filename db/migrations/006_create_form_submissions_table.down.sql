@@ -0,0 +1,8 @@
+-- Rollback: Create form submissions table
+-- Created: 2025-08-27
+
+-- Drop indexes
+DROP INDEX IF EXISTS idx_form_submissions_form_id;
+
+-- Drop table
+DROP TABLE IF EXISTS form_submissions;
\ No newline at end of file
@@ -0,0 +1,14 @@
+-- Migration: Create form submissions table
+-- Created: 2025-08-27
+
+-- Submissions for forms defined in src/data/forms.ts, field values stored as a JSON object
+CREATE TABLE IF NOT EXISTS form_submissions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  form_id TEXT NOT NULL,
+  data TEXT NOT NULL CHECK(json_valid(data)),
+  ip_address TEXT CHECK(length(ip_address) <= 45),
+  user_agent TEXT CHECK(length(user_agent) <= 500),
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_form_submissions_form_id ON form_submissions(form_id, created_at DESC);
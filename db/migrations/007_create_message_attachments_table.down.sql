@@ -0,0 +1,8 @@
+-- Rollback: Create message attachments table
+-- Created: 2025-08-29
+
+-- Drop indexes
+DROP INDEX IF EXISTS idx_message_attachments_message_id;
+
+-- Drop table
+DROP TABLE IF EXISTS message_attachments;
\ No newline at end of file
@@ -0,0 +1,15 @@
+-- Migration: Create message attachments table
+-- Created: 2025-08-29
+
+-- Files uploaded with a contact message, the bytes live in the storage adapter under storage_key
+CREATE TABLE IF NOT EXISTS message_attachments (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  message_id INTEGER NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  file_name TEXT NOT NULL CHECK(length(file_name) <= 255),
+  content_type TEXT NOT NULL,
+  size_bytes INTEGER NOT NULL CHECK(size_bytes >= 0),
+  storage_key TEXT NOT NULL UNIQUE,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_attachments_message_id ON message_attachments(message_id);
@@ -0,0 +1,10 @@
+-- Rollback: Create messages full-text search index
+-- Created: 2025-08-30
+
+-- Drop triggers
+DROP TRIGGER IF EXISTS messages_fts_update;
+DROP TRIGGER IF EXISTS messages_fts_delete;
+DROP TRIGGER IF EXISTS messages_fts_insert;
+
+-- Drop table
+DROP TABLE IF EXISTS messages_fts;
\ No newline at end of file
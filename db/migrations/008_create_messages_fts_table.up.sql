@@ -0,0 +1,43 @@
+-- Migration: Create messages full-text search index
+-- Created: 2025-08-30
+
+-- Full-text index over messages, stored as an external-content table so text is not duplicated
+CREATE VIRTUAL TABLE IF NOT EXISTS messages_fts USING fts5(
+  name,
+  email,
+  subject,
+  message,
+  content = 'messages',
+  content_rowid = 'id',
+  tokenize = 'unicode61 remove_diacritics 2'
+);
+
+-- Triggers keeping the index in sync with messages
+CREATE TRIGGER IF NOT EXISTS messages_fts_insert
+AFTER INSERT ON messages
+FOR EACH ROW
+BEGIN
+  INSERT INTO messages_fts (rowid, name, email, subject, message)
+  VALUES (NEW.id, NEW.name, NEW.email, NEW.subject, NEW.message);
+END;
+
+CREATE TRIGGER IF NOT EXISTS messages_fts_delete
+AFTER DELETE ON messages
+FOR EACH ROW
+BEGIN
+  INSERT INTO messages_fts (messages_fts, rowid, name, email, subject, message)
+  VALUES ('delete', OLD.id, OLD.name, OLD.email, OLD.subject, OLD.message);
+END;
+
+CREATE TRIGGER IF NOT EXISTS messages_fts_update
+AFTER UPDATE OF name, email, subject, message ON messages
+FOR EACH ROW
+BEGIN
+  INSERT INTO messages_fts (messages_fts, rowid, name, email, subject, message)
+  VALUES ('delete', OLD.id, OLD.name, OLD.email, OLD.subject, OLD.message);
+  INSERT INTO messages_fts (rowid, name, email, subject, message)
+  VALUES (NEW.id, NEW.name, NEW.email, NEW.subject, NEW.message);
+END;
+
+-- Index messages stored before this migration
+INSERT INTO messages_fts (messages_fts) VALUES ('rebuild');
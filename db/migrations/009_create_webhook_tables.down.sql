@@ -0,0 +1,10 @@
+-- Rollback: Create webhook subscription and delivery tables
+-- Created: 2025-08-31
+
+-- Drop indexes
+DROP INDEX IF EXISTS idx_webhook_deliveries_subscription_id;
+DROP INDEX IF EXISTS idx_webhook_deliveries_pending;
+
+-- Drop tables
+DROP TABLE IF EXISTS webhook_deliveries;
+DROP TABLE IF EXISTS webhook_subscriptions;
\ No newline at end of file
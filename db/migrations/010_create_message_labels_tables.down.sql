@@ -0,0 +1,11 @@
+-- Rollback: Create message label and assignment tables
+-- Created: 2025-09-01
+
+-- Drop indexes
+DROP INDEX IF EXISTS idx_message_assignments_assignee_id;
+DROP INDEX IF EXISTS idx_message_labels_label_id;
+
+-- Drop tables
+DROP TABLE IF EXISTS message_assignments;
+DROP TABLE IF EXISTS message_labels;
+DROP TABLE IF EXISTS labels;
\ No newline at end of file
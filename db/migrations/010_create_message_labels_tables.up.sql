@@ -0,0 +1,28 @@
+-- Migration: Create message label and assignment tables
+-- Created: 2025-09-01
+
+-- Labels staff attach to messages for triage, e.g. "billing" or "bug"
+CREATE TABLE IF NOT EXISTS labels (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  name TEXT NOT NULL UNIQUE COLLATE NOCASE CHECK(length(name) <= 50),
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS message_labels (
+  message_id INTEGER NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  label_id INTEGER NOT NULL REFERENCES labels(id) ON DELETE CASCADE,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (message_id, label_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_labels_label_id ON message_labels(label_id);
+
+-- The staff member responsible for a message, identified by Clerk user id
+CREATE TABLE IF NOT EXISTS message_assignments (
+  message_id INTEGER PRIMARY KEY REFERENCES messages(id) ON DELETE CASCADE,
+  assignee_id TEXT NOT NULL,
+  assigned_by TEXT,
+  assigned_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_assignments_assignee_id ON message_assignments(assignee_id);
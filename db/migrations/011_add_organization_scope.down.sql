@@ -0,0 +1,10 @@
+-- Rollback: Scope messages and form submissions to Clerk organizations
+-- Created: 2025-09-08
+
+-- Drop indexes
+DROP INDEX IF EXISTS idx_form_submissions_organization_id;
+DROP INDEX IF EXISTS idx_messages_organization_id;
+
+-- Drop columns
+ALTER TABLE form_submissions DROP COLUMN organization_id;
+ALTER TABLE messages DROP COLUMN organization_id;
\ No newline at end of file
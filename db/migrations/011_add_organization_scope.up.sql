@@ -0,0 +1,10 @@
+-- Migration: Scope messages and form submissions to Clerk organizations
+-- Created: 2025-09-08
+
+-- Null for records stored outside any organization, including every row from before this migration
+ALTER TABLE messages ADD COLUMN organization_id TEXT;
+ALTER TABLE form_submissions ADD COLUMN organization_id TEXT;
+
+-- Every inbox query filters by organization first
+CREATE INDEX IF NOT EXISTS idx_messages_organization_id ON messages(organization_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_form_submissions_organization_id ON form_submissions(organization_id, form_id, created_at DESC);
@@ -0,0 +1,5 @@
+-- Rollback: Store the phone number sent with contact messages
+-- Created: 2025-09-10
+
+-- Drop column
+ALTER TABLE messages DROP COLUMN phone;
\ No newline at end of file
@@ -0,0 +1,5 @@
+-- Migration: Store the phone number sent with contact messages
+-- Created: 2025-09-10
+
+-- Optional, as on the contact form; null for every message stored before this migration
+ALTER TABLE messages ADD COLUMN phone TEXT CHECK(length(phone) <= 50);
@@ -0,0 +1,10 @@
+-- Rollback: Scope webhook subscriptions and deliveries to Clerk organizations
+-- Created: 2025-09-12
+
+-- Drop indexes
+DROP INDEX IF EXISTS idx_webhook_deliveries_organization_id;
+DROP INDEX IF EXISTS idx_webhook_subscriptions_organization_id;
+
+-- Drop columns
+ALTER TABLE webhook_deliveries DROP COLUMN organization_id;
+ALTER TABLE webhook_subscriptions DROP COLUMN organization_id;
\ No newline at end of file
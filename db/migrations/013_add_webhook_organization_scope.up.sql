@@ -0,0 +1,10 @@
+-- Migration: Scope webhook subscriptions and deliveries to Clerk organizations
+-- Created: 2025-09-12
+
+-- Null for webhooks outside any organization, including every row from before this migration.
+-- A subscription only receives events about its own organization's records.
+ALTER TABLE webhook_subscriptions ADD COLUMN organization_id TEXT;
+ALTER TABLE webhook_deliveries ADD COLUMN organization_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_webhook_subscriptions_organization_id ON webhook_subscriptions(organization_id);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_organization_id ON webhook_deliveries(organization_id, id DESC);
@@ -0,0 +1,32 @@
+-- Rollback: Scope message labels to Clerk organizations
+-- Created: 2025-09-12
+
+-- Labels with the same name in several organizations are merged into one
+CREATE TABLE labels_global (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  name TEXT NOT NULL UNIQUE COLLATE NOCASE CHECK(length(name) <= 50),
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE message_labels_global (
+  message_id INTEGER NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  label_id INTEGER NOT NULL REFERENCES labels_global(id) ON DELETE CASCADE,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (message_id, label_id)
+);
+
+INSERT OR IGNORE INTO labels_global (name, created_at)
+SELECT name, created_at FROM labels ORDER BY id;
+
+INSERT OR IGNORE INTO message_labels_global (message_id, label_id, created_at)
+SELECT message_labels.message_id, labels_global.id, message_labels.created_at
+FROM message_labels
+JOIN labels ON labels.id = message_labels.label_id
+JOIN labels_global ON labels_global.name = labels.name;
+
+DROP TABLE message_labels;
+DROP TABLE labels;
+ALTER TABLE labels_global RENAME TO labels;
+ALTER TABLE message_labels_global RENAME TO message_labels;
+
+CREATE INDEX IF NOT EXISTS idx_message_labels_label_id ON message_labels(label_id);
\ No newline at end of file
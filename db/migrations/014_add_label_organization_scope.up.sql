@@ -0,0 +1,49 @@
+-- Migration: Scope message labels to Clerk organizations
+-- Created: 2025-09-12
+
+-- Label names only need to be unique within an organization, which the UNIQUE constraint on
+-- labels.name cannot express, so both label tables are rebuilt. Dropping labels while
+-- message_labels still refers to it would cascade, so message_labels is copied first.
+CREATE TABLE labels_scoped (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  name TEXT NOT NULL COLLATE NOCASE CHECK(length(name) <= 50),
+  organization_id TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE message_labels_scoped (
+  message_id INTEGER NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  label_id INTEGER NOT NULL REFERENCES labels_scoped(id) ON DELETE CASCADE,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (message_id, label_id)
+);
+
+-- A label in use becomes one label per organization of the messages carrying it
+INSERT INTO labels_scoped (name, organization_id, created_at)
+SELECT labels.name, messages.organization_id, labels.created_at
+FROM labels
+JOIN message_labels ON message_labels.label_id = labels.id
+JOIN messages ON messages.id = message_labels.message_id
+GROUP BY labels.id, messages.organization_id;
+
+-- Unused labels stay outside any organization
+INSERT INTO labels_scoped (name, created_at)
+SELECT name, created_at FROM labels
+WHERE NOT EXISTS (SELECT 1 FROM message_labels WHERE message_labels.label_id = labels.id);
+
+INSERT INTO message_labels_scoped (message_id, label_id, created_at)
+SELECT message_labels.message_id, labels_scoped.id, message_labels.created_at
+FROM message_labels
+JOIN labels ON labels.id = message_labels.label_id
+JOIN messages ON messages.id = message_labels.message_id
+JOIN labels_scoped ON labels_scoped.name = labels.name
+  AND labels_scoped.organization_id IS messages.organization_id;
+
+DROP TABLE message_labels;
+DROP TABLE labels;
+ALTER TABLE labels_scoped RENAME TO labels;
+ALTER TABLE message_labels_scoped RENAME TO message_labels;
+
+-- NULL organization ids would never conflict in a plain unique index
+CREATE UNIQUE INDEX IF NOT EXISTS idx_labels_organization_id_name ON labels(COALESCE(organization_id, ''), name);
+CREATE INDEX IF NOT EXISTS idx_message_labels_label_id ON message_labels(label_id);
@@ -0,0 +1,163 @@
+#!/usr/bin/env tsx
+
+import { mkdirSync, readFileSync, writeFileSync } from 'fs'
+import { dirname, extname, join } from 'path'
+import { parseArgs } from 'util'
+import { getDatabaseMode } from '../src/libs/turso.js'
+import { createDump, parseDump, restoreDump, serializeDump } from '../src/libs/backup.js'
+import type { DumpFormat } from '../src/libs/backup.js'
+
+// Color utilities for better terminal output
+const colors = {
+  reset: '\x1b[0m',
+  bright: '\x1b[1m',
+  red: '\x1b[31m',
+  green: '\x1b[32m',
+  yellow: '\x1b[33m',
+  blue: '\x1b[34m',
+  cyan: '\x1b[36m',
+}
+
+const log = {
+  info: (msg: string) => console.log(`${colors.blue}ℹ${colors.reset}  ${msg}`),
+  success: (msg: string) => console.log(`${colors.green}✓${colors.reset}  ${msg}`),
+  warning: (msg: string) => console.log(`${colors.yellow}⚠${colors.reset}  ${msg}`),
+  error: (msg: string) => console.error(`${colors.red}✗${colors.reset}  ${msg}`),
+}
+
+// Parse command line arguments
+const { values: args, positionals } = parseArgs({
+  options: {
+    output: { type: 'string', short: 'o' },
+    format: { type: 'string', short: 'f' },
+    verbose: { type: 'boolean', short: 'v', default: false },
+    help: { type: 'boolean', short: 'h', default: false },
+  },
+  strict: false,
+  allowPositionals: true,
+})
+
+const [command, fileArg] = positionals
+
+// Show help
+if (args.help || !command) {
+  console.log(`
+${colors.bright}Database Backup and Restore${colors.reset}
+
+${colors.cyan}Usage:${colors.reset} npx tsx scripts/backup-db.ts <command> [options]
+
+${colors.cyan}Commands:${colors.reset}
+  backup              Dump the schema and every row to a file
+  restore <file>      Load a dump into an empty database and verify it
+
+${colors.cyan}Options:${colors.reset}
+  -o, --output <file> Where to write the backup (default: backups/<timestamp>.<format>)
+  -f, --format <fmt>  sql or jsonl (default: from the output extension, else sql)
+  -v, --verbose       Show detailed output
+  -h, --help          Show this help message
+
+The database is the one TURSO_DATABASE_URL and DB_MODE point at, remote or a local file.
+
+${colors.cyan}Examples:${colors.reset}
+  npm run db:backup
+  npm run db:backup -- -o backups/before-migration.jsonl
+  TURSO_DATABASE_URL=file:.data/restored.db npm run db:restore -- backups/before-migration.sql
+`)
+  process.exit(command || args.help ? 0 : 1)
+}
+
+function resolveFormat(file?: string): DumpFormat {
+  const format = typeof args.format === 'string' ? args.format : undefined
+  if (format === 'sql' || format === 'jsonl') {
+    return format
+  }
+  if (format) {
+    throw new Error(`Unknown format: ${format}. Use sql or jsonl`)
+  }
+  return file && extname(file) === '.jsonl' ? 'jsonl' : 'sql'
+}
+
+async function runBackup(): Promise<void> {
+  const output = typeof args.output === 'string' ? args.output : undefined
+  const format = resolveFormat(output)
+  const file =
+    output ?? join('backups', `backup-${new Date().toISOString().replace(/[:.]/g, '-')}.${format}`)
+
+  log.info(`Backing up ${getDatabaseMode()} database...`)
+  const dump = await createDump()
+
+  mkdirSync(dirname(file), { recursive: true })
+  writeFileSync(file, serializeDump(dump, format))
+
+  if (args.verbose) {
+    for (const [table, rows] of Object.entries(dump.manifest.tables)) {
+      console.log(`  • ${table}: ${rows} rows`)
+    }
+  }
+  const rows = Object.values(dump.manifest.tables).reduce((total, count) => total + count, 0)
+  log.success(`Wrote ${dump.tables.length} tables and ${rows} rows to ${file}`)
+}
+
+async function runRestore(file: string): Promise<void> {
+  const plan = parseDump(readFileSync(file, 'utf8'))
+
+  log.info(
+    `Restoring ${file} (created ${plan.manifest.createdAt}) into ${getDatabaseMode()} database...`
+  )
+  const result = await restoreDump(plan)
+  log.success(`Executed ${result.statements} statements`)
+
+  const { verification } = result
+  verification.schema.missing.forEach(object => log.error(`Missing ${object.type} ${object.name}`))
+  verification.schema.unexpected.forEach(object =>
+    log.warning(`Unexpected ${object.type} ${object.name}`)
+  )
+  verification.schema.changed.forEach(({ expected }) =>
+    log.error(`Changed ${expected.type} ${expected.name}`)
+  )
+  verification.rowCounts.forEach(({ table, expected, actual }) =>
+    log.error(`${table}: expected ${expected} rows, found ${actual}`)
+  )
+
+  if (!verification.ok) {
+    log.error('Verification failed: the restored database does not match the dump')
+    process.exit(1)
+  }
+  log.success('Verified: schema and row counts match the dump')
+}
+
+// Main execution
+async function main(): Promise<void> {
+  try {
+    if (command === 'backup') {
+      await runBackup()
+      process.exit(0)
+    }
+
+    if (command !== 'restore') {
+      log.error(`Unknown command: ${command}`)
+      process.exit(1)
+    }
+
+    if (!fileArg) {
+      log.error('The restore command needs a dump file')
+      process.exit(1)
+    }
+
+    await runRestore(fileArg)
+    process.exit(0)
+  } catch (error) {
+    log.error(`Operation failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    if (args.verbose && error instanceof Error && error.stack) {
+      console.error(error.stack)
+    }
+    process.exit(1)
+  }
+}
+
+// Run if executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main()
+}
+
+export { main }
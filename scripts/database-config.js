@@ -0,0 +1,47 @@
+import { mkdirSync } from 'fs'
+import { dirname } from 'path'
+import { fileURLToPath } from 'url'
+
+/** Database used when DB_MODE=local is set without a local TURSO_DATABASE_URL */
+export const DEFAULT_LOCAL_DATABASE_URL = 'file:.data/local.db'
+
+const isLocalDatabaseUrl = url => url === ':memory:' || url.startsWith('file:')
+
+/**
+ * Resolves the libSQL connection the same way as src/libs/turso.ts: DB_MODE=local, or a `file:`
+ * or `:memory:` TURSO_DATABASE_URL, uses a local SQLite database that needs no auth token.
+ */
+export function resolveDatabaseConfig(env = process.env) {
+  const url = env.TURSO_DATABASE_URL || ''
+  const authToken = env.TURSO_AUTH_TOKEN || ''
+
+  if (env.DB_MODE === 'local' || isLocalDatabaseUrl(url)) {
+    const localUrl = isLocalDatabaseUrl(url) ? url : DEFAULT_LOCAL_DATABASE_URL
+    return { mode: 'local', url: localUrl, missing: [] }
+  }
+
+  const missing = []
+  if (!url) missing.push('TURSO_DATABASE_URL')
+  if (!authToken) missing.push('TURSO_AUTH_TOKEN')
+
+  return { mode: 'remote', url, authToken, missing }
+}
+
+/**
+ * Options for createClient(), creating the directory of a local database file first
+ */
+export function getClientOptions(config) {
+  if (config.mode === 'remote') {
+    return { url: config.url, authToken: config.authToken, intMode: 'number' }
+  }
+
+  if (!config.url.includes(':memory:')) {
+    const location = config.url.split('?')[0]
+    const path = location.startsWith('file://')
+      ? fileURLToPath(location)
+      : location.slice('file:'.length)
+    mkdirSync(dirname(path), { recursive: true })
+  }
+
+  return { url: config.url, intMode: 'number' }
+}
@@ -0,0 +1,188 @@
+#!/usr/bin/env tsx
+
+import { parseArgs } from 'util'
+import {
+  createMigrationFiles,
+  diffSchema,
+  getAppliedMigrations,
+  getMigrationStatus,
+  isSchemaDiffEmpty,
+  loadMigrations,
+  normalizeSchemaSql,
+  rollbackLastMigration,
+  runMigrations,
+} from '../src/libs/migrations.js'
+import type { MigrationState } from '../src/libs/migrations.js'
+
+// Color utilities for better terminal output
+const colors = {
+  reset: '\x1b[0m',
+  bright: '\x1b[1m',
+  red: '\x1b[31m',
+  green: '\x1b[32m',
+  yellow: '\x1b[33m',
+  blue: '\x1b[34m',
+  cyan: '\x1b[36m',
+}
+
+const log = {
+  info: (msg: string) => console.log(`${colors.blue}ℹ${colors.reset}  ${msg}`),
+  success: (msg: string) => console.log(`${colors.green}✓${colors.reset}  ${msg}`),
+  warning: (msg: string) => console.log(`${colors.yellow}⚠${colors.reset}  ${msg}`),
+  error: (msg: string) => console.error(`${colors.red}✗${colors.reset}  ${msg}`),
+}
+
+// Parse command line arguments
+const { values: args } = parseArgs({
+  options: {
+    up: { type: 'boolean', short: 'u', default: false },
+    down: { type: 'boolean', short: 'd', default: false },
+    status: { type: 'boolean', short: 's', default: false },
+    create: { type: 'string', short: 'c' },
+    diff: { type: 'boolean', default: false },
+    'dry-run': { type: 'boolean', default: false },
+    verbose: { type: 'boolean', short: 'v', default: false },
+    help: { type: 'boolean', short: 'h', default: false },
+  },
+  strict: false,
+  allowPositionals: true,
+})
+
+// Show help
+if (args.help) {
+  console.log(`
+${colors.bright}Database Migrations${colors.reset}
+
+${colors.cyan}Usage:${colors.reset} npx tsx scripts/migrate.ts [options]
+
+${colors.cyan}Options:${colors.reset}
+  -u, --up            Apply pending migrations (default)
+  -d, --down          Roll back the last applied migration
+  -s, --status        Show applied, pending, modified and missing migrations
+  -c, --create <name> Create numbered up and down migration files
+  --diff              Compare the live schema with the schema the migrations produce
+  --dry-run           Show what --up or --down would do without executing
+  -v, --verbose       Show the SQL of each migration
+  -h, --help          Show this help message
+
+${colors.cyan}NPM Scripts:${colors.reset}
+  npm run db:migrate                     Apply pending migrations
+  npm run db:migrate:status              Show migration status
+  npm run db:migrate:diff                Check the schema for drift
+  npm run db:migrate:create -- <name>    Create a new migration
+  npm run db:migrate:rollback            Roll back the last migration
+
+${colors.cyan}Examples:${colors.reset}
+  npx tsx scripts/migrate.ts --dry-run
+  npx tsx scripts/migrate.ts --down --dry-run
+`)
+  process.exit(0)
+}
+
+const dryRun = Boolean(args['dry-run'])
+
+const stateLabels: Record<MigrationState, string> = {
+  applied: `${colors.green}✓ Applied${colors.reset}`,
+  pending: `${colors.yellow}⏳ Pending${colors.reset}`,
+  modified: `${colors.red}✗ Modified after apply${colors.reset}`,
+  missing: `${colors.red}✗ File missing${colors.reset}`,
+}
+
+async function showStatus(): Promise<void> {
+  const statuses = getMigrationStatus(loadMigrations(), await getAppliedMigrations())
+
+  if (statuses.length === 0) {
+    log.info('No migration files found')
+    return
+  }
+
+  console.log('')
+  for (const status of statuses) {
+    console.log(`  ${stateLabels[status.state]}  ${status.name}`)
+  }
+
+  const count = (state: MigrationState) => statuses.filter(status => status.state === state).length
+  console.log(`
+  Applied: ${count('applied')}, pending: ${count('pending')}, modified: ${count('modified')}, missing: ${count('missing')}
+`)
+
+  if (count('modified') > 0 || count('missing') > 0) {
+    process.exitCode = 1
+  }
+}
+
+async function showDiff(): Promise<void> {
+  const diff = await diffSchema()
+
+  if (isSchemaDiffEmpty(diff)) {
+    log.success('Schema matches the migrations')
+    return
+  }
+
+  diff.missing.forEach(object => log.error(`Missing ${object.type} ${object.name}`))
+  diff.unexpected.forEach(object => log.warning(`Unexpected ${object.type} ${object.name}`))
+  diff.changed.forEach(({ expected, actual }) => {
+    log.error(`Changed ${expected.type} ${expected.name}`)
+    if (args.verbose) {
+      console.log(`    expected: ${normalizeSchemaSql(expected.sql)}`)
+      console.log(`    actual:   ${normalizeSchemaSql(actual.sql)}`)
+    }
+  })
+  process.exitCode = 1
+}
+
+async function migrateUp(): Promise<void> {
+  const result = await runMigrations({ dryRun })
+
+  if (result.applied.length === 0) {
+    log.success('All migrations are up to date')
+    return
+  }
+
+  const migrations = new Map(loadMigrations().map(migration => [migration.name, migration]))
+  for (const name of result.applied) {
+    if (args.verbose) {
+      console.log(migrations.get(name)?.up)
+    }
+    log.success(`${dryRun ? 'Would apply' : 'Applied'} migration: ${name}`)
+  }
+}
+
+async function migrateDown(): Promise<void> {
+  const name = await rollbackLastMigration({ dryRun })
+
+  if (!name) {
+    log.info('No migrations to roll back')
+    return
+  }
+
+  log.success(`${dryRun ? 'Would roll back' : 'Rolled back'} migration: ${name}`)
+}
+
+// Main execution
+async function main(): Promise<void> {
+  try {
+    if (typeof args.create === 'string') {
+      const paths = createMigrationFiles(args.create)
+      log.success('Created migration files:')
+      console.log(`    • ${paths.up}`)
+      console.log(`    • ${paths.down}`)
+    } else if (args.status) {
+      await showStatus()
+    } else if (args.diff) {
+      await showDiff()
+    } else if (args.down) {
+      await migrateDown()
+    } else {
+      await migrateUp()
+    }
+  } catch (error) {
+    log.error(`Migration failed: ${error instanceof Error ? error.message : String(error)}`)
+    if (args.verbose && error instanceof Error && error.stack) {
+      console.error(error.stack)
+    }
+    process.exit(1)
+  }
+}
+
+main()
@@ -0,0 +1,156 @@
+#!/usr/bin/env tsx
+
+import { writeFileSync } from 'fs'
+import { parseArgs } from 'util'
+import {
+  applyRetentionPolicy,
+  erasePersonalData,
+  exportPersonalData,
+  getRetentionPolicy,
+  normalizeEmail,
+} from '../src/libs/privacy.js'
+
+// Color utilities for better terminal output
+const colors = {
+  reset: '\x1b[0m',
+  bright: '\x1b[1m',
+  red: '\x1b[31m',
+  green: '\x1b[32m',
+  yellow: '\x1b[33m',
+  blue: '\x1b[34m',
+  cyan: '\x1b[36m',
+}
+
+const log = {
+  info: (msg: string) => console.log(`${colors.blue}ℹ${colors.reset}  ${msg}`),
+  success: (msg: string) => console.log(`${colors.green}✓${colors.reset}  ${msg}`),
+  warning: (msg: string) => console.log(`${colors.yellow}⚠${colors.reset}  ${msg}`),
+  error: (msg: string) => console.error(`${colors.red}✗${colors.reset}  ${msg}`),
+}
+
+// Parse command line arguments
+const { values: args, positionals } = parseArgs({
+  options: {
+    'dry-run': { type: 'boolean', default: false },
+    output: { type: 'string', short: 'o' },
+    yes: { type: 'boolean', short: 'y', default: false },
+    help: { type: 'boolean', short: 'h', default: false },
+  },
+  strict: false,
+  allowPositionals: true,
+})
+
+const [command, emailArg] = positionals
+
+// Show help
+if (args.help || !command) {
+  console.log(`
+${colors.bright}Privacy Tooling${colors.reset}
+
+${colors.cyan}Usage:${colors.reset} npx tsx scripts/privacy.ts <command> [options]
+
+${colors.cyan}Commands:${colors.reset}
+  retention           Apply the retention policy
+  export <email>      Print everything stored about an email address as JSON
+  erase <email>       Permanently delete everything stored about an email address
+
+${colors.cyan}Options:${colors.reset}
+  --dry-run           Count what the retention policy would change
+  -o, --output <file> Write the export to a file instead of stdout
+  -y, --yes           Confirm an erase
+  -h, --help          Show this help message
+
+${colors.cyan}Environment:${colors.reset}
+  RETENTION_ANONYMIZE_DAYS        Clear IP addresses and user agents after N days (default 90)
+  RETENTION_DELETE_ARCHIVED_DAYS  Delete archived messages after N days (default 365)
+  RETENTION_WEBHOOK_DELIVERY_DAYS Delete finished webhook deliveries after N days (default 30)
+
+${colors.cyan}Examples:${colors.reset}
+  npm run db:retention -- --dry-run
+  npm run db:privacy -- export someone@example.com -o someone.json
+  npm run db:privacy -- erase someone@example.com --yes
+`)
+  process.exit(command || args.help ? 0 : 1)
+}
+
+async function runRetention(): Promise<void> {
+  const policy = getRetentionPolicy()
+  const dryRun = Boolean(args['dry-run'])
+
+  log.info(
+    `Anonymize after: ${policy.anonymizeAfterDays ?? 'never'} days, delete archived after: ${policy.deleteArchivedAfterDays ?? 'never'} days, delete webhook deliveries after: ${policy.deleteWebhookDeliveriesAfterDays ?? 'never'} days`
+  )
+
+  const result = await applyRetentionPolicy(policy, { dryRun })
+  const verb = dryRun ? 'Would' : 'Did'
+
+  log.success(
+    `${verb} clear network details on ${result.anonymized.messages} messages, ${result.anonymized.formSubmissions} form submissions and ${result.anonymized.spamLog} spam log entries`
+  )
+  log.success(`${verb} remove ${result.expiredRateLimits} expired rate limit windows`)
+  log.success(
+    `${verb} delete ${result.deletedMessages} archived messages and ${result.deletedAttachments} attachments`
+  )
+  log.success(`${verb} delete ${result.deletedWebhookDeliveries} finished webhook deliveries`)
+
+  if (dryRun) {
+    console.log(`\n${colors.yellow}Dry run mode - no changes made${colors.reset}`)
+  }
+}
+
+async function runExport(email: string): Promise<void> {
+  const data = JSON.stringify(await exportPersonalData(email), null, 2)
+
+  if (typeof args.output === 'string') {
+    writeFileSync(args.output, `${data}\n`)
+    log.success(`Exported personal data for ${email} to ${args.output}`)
+  } else {
+    console.log(data)
+  }
+}
+
+async function runErase(email: string): Promise<void> {
+  if (!args.yes) {
+    log.warning(`This permanently deletes everything stored for ${email}. Re-run with --yes.`)
+    process.exit(1)
+  }
+
+  const result = await erasePersonalData(email)
+  log.success(
+    `Erased ${result.deletedMessages} messages, ${result.deletedAttachments} attachments, ${result.deletedFormSubmissions} form submissions and ${result.deletedWebhookDeliveries} webhook deliveries for ${email}`
+  )
+}
+
+// Main execution
+async function main(): Promise<void> {
+  try {
+    if (command === 'retention') {
+      await runRetention()
+      process.exit(0)
+    }
+
+    if (command !== 'export' && command !== 'erase') {
+      log.error(`Unknown command: ${command}`)
+      process.exit(1)
+    }
+
+    const email = normalizeEmail(emailArg)
+    if (!email) {
+      log.error(`The ${command} command needs a valid email address`)
+      process.exit(1)
+    }
+
+    await (command === 'export' ? runExport(email) : runErase(email))
+    process.exit(0)
+  } catch (error) {
+    log.error(`Operation failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    process.exit(1)
+  }
+}
+
+// Run if executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main()
+}
+
+export { main }
@@ -0,0 +1,153 @@
+#!/usr/bin/env tsx
+
+import { parseArgs } from 'util'
+import { getDatabaseMode } from '../src/libs/turso.js'
+import { checkSchemaExists } from '../src/libs/schema-setup.js'
+import {
+  DEFAULT_SEED,
+  DEFAULT_SEED_COUNTS,
+  SEED_TABLES,
+  resolveSeedTables,
+  seedDatabase,
+} from '../src/libs/seed.js'
+
+// Color utilities for better terminal output
+const colors = {
+  reset: '\x1b[0m',
+  bright: '\x1b[1m',
+  red: '\x1b[31m',
+  green: '\x1b[32m',
+  yellow: '\x1b[33m',
+  blue: '\x1b[34m',
+  cyan: '\x1b[36m',
+}
+
+const log = {
+  info: (msg: string) => console.log(`${colors.blue}ℹ${colors.reset}  ${msg}`),
+  success: (msg: string) => console.log(`${colors.green}✓${colors.reset}  ${msg}`),
+  warning: (msg: string) => console.log(`${colors.yellow}⚠${colors.reset}  ${msg}`),
+  error: (msg: string) => console.error(`${colors.red}✗${colors.reset}  ${msg}`),
+}
+
+// Parse command line arguments
+const { values: args } = parseArgs({
+  options: {
+    seed: { type: 'string', short: 's' },
+    tables: { type: 'string', short: 't' },
+    count: { type: 'string', short: 'n' },
+    now: { type: 'string' },
+    reset: { type: 'boolean', short: 'r', default: false },
+    force: { type: 'boolean', short: 'f', default: false },
+    verbose: { type: 'boolean', short: 'v', default: false },
+    help: { type: 'boolean', short: 'h', default: false },
+  },
+  strict: false,
+  allowPositionals: true,
+})
+
+// Show help
+if (args.help) {
+  console.log(`
+${colors.bright}Database Seed Script${colors.reset}
+
+${colors.cyan}Usage:${colors.reset} npx tsx scripts/seed-db.ts [options]
+
+${colors.cyan}Options:${colors.reset}
+  -s, --seed <value>     Seed for the generated data (default: ${DEFAULT_SEED})
+  -t, --tables <list>    Comma-separated tables to seed (default: all)
+                         Available: ${SEED_TABLES.join(', ')}
+  -n, --count <number>   Messages to create (default: ${DEFAULT_SEED_COUNTS.messages})
+      --now <date>       Spread dates over the 60 days before this instead of the current time
+  -r, --reset            Delete existing rows from the seeded tables first
+  -f, --force            Allow --reset on a remote database
+  -v, --verbose          Show detailed output
+  -h, --help             Show this help message
+
+${colors.cyan}NPM Scripts:${colors.reset}
+  npm run db:seed                        Seed every table
+  npm run db:seed -- --reset             Replace existing data with seed data
+
+${colors.cyan}Examples:${colors.reset}
+  npx tsx scripts/seed-db.ts --seed demo --reset
+  npx tsx scripts/seed-db.ts --seed demo --now 2025-06-01T00:00:00Z
+  npx tsx scripts/seed-db.ts --tables replies,labels
+`)
+  process.exit(0)
+}
+
+// Main execution
+async function main(): Promise<void> {
+  try {
+    const tables = resolveSeedTables(
+      typeof args.tables === 'string'
+        ? args.tables
+            .split(',')
+            .map(name => name.trim())
+            .filter(Boolean)
+        : SEED_TABLES
+    )
+    if (!tables.ok) {
+      log.error(tables.error.message)
+      process.exit(1)
+    }
+
+    const count = typeof args.count === 'string' ? Number(args.count) : undefined
+    if (count !== undefined && (!Number.isInteger(count) || count < 0)) {
+      log.error('--count must be a non-negative whole number')
+      process.exit(1)
+    }
+
+    const now = typeof args.now === 'string' ? new Date(args.now) : new Date()
+    if (Number.isNaN(now.getTime())) {
+      log.error('--now must be a date, such as 2025-06-01T00:00:00Z')
+      process.exit(1)
+    }
+
+    if (args.reset && getDatabaseMode() === 'remote' && !args.force) {
+      log.error('--reset deletes existing rows from a remote database, pass --force to continue')
+      process.exit(1)
+    }
+
+    if (!(await checkSchemaExists())) {
+      log.error('Schema is not up to date, run npm run db:setup before seeding')
+      process.exit(1)
+    }
+
+    const seed = typeof args.seed === 'string' ? args.seed : DEFAULT_SEED
+    if (args.verbose) {
+      log.info(`Mode: ${getDatabaseMode()}`)
+      log.info(`Tables: ${tables.value.join(', ')}`)
+    }
+    // The same seed and --now reproduce a run
+    log.info(
+      `${args.reset ? 'Resetting and seeding' : 'Seeding'} database with seed "${seed}" and --now ${now.toISOString()}...`
+    )
+
+    const result = await seedDatabase({
+      seed,
+      now,
+      tables: tables.value,
+      reset: Boolean(args.reset),
+      ...(count !== undefined ? { counts: { messages: count } } : {}),
+    })
+
+    for (const table of result.tables) {
+      log.success(`${table}: ${result.inserted[table]} rows`)
+    }
+
+    process.exit(0)
+  } catch (error) {
+    log.error(`Seeding failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    if (args.verbose && error instanceof Error && error.stack) {
+      console.error(error.stack)
+    }
+    process.exit(1)
+  }
+}
+
+// Run if executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main()
+}
+
+export { main }
@@ -1,10 +1,14 @@
 #!/usr/bin/env tsx
 
 import { parseArgs } from 'util'
-import { readFileSync, existsSync } from 'fs'
-import { join } from 'path'
-import getTursoClient from '../src/libs/turso.js'
-import { setupDatabaseSchema, checkSchemaExists, resetSchema } from '../src/libs/schema-setup.js'
+import getTursoClient, { getDatabaseMode } from '../src/libs/turso.js'
+import type { MigrationState, MigrationStatus } from '../src/libs/migrations.js'
+import {
+  setupDatabaseSchema,
+  checkSchemaExists,
+  getSchemaStatus,
+  resetSchema,
+} from '../src/libs/schema-setup.js'
 
 // Color utilities for better terminal output
 const colors = {
@@ -47,8 +51,8 @@ ${colors.bright}Database Setup Script${colors.reset}
 ${colors.cyan}Usage:${colors.reset} npx tsx scripts/setup-db.ts [options]
 
 ${colors.cyan}Options:${colors.reset}
-  -r, --reset         Drop and recreate the schema
-  -c, --check         Check if schema exists without modifying
+  -r, --reset         Run every down migration, then apply all migrations
+  -c, --check         Report applied, pending and missing migrations without modifying
   -v, --verbose       Show detailed output
   --show-config       Display current database configuration
   --dry-run           Show what would be done without executing
@@ -71,6 +75,7 @@ ${colors.cyan}Examples:${colors.reset}
 // Show configuration
 if (args['show-config']) {
   log.info('Database Configuration:')
+  console.log(`  Mode: ${getDatabaseMode()}`)
   console.log(`  URL: ${process.env.TURSO_DATABASE_URL ? '✓ Set' : '✗ Not set'}`)
   console.log(`  Auth Token: ${process.env.TURSO_AUTH_TOKEN ? '✓ Set' : '✗ Not set'}`)
 
@@ -85,6 +90,10 @@ if (args['show-config']) {
 
 // Validate environment
 function validateEnvironment(): void {
+  if (getDatabaseMode() === 'local') {
+    return
+  }
+
   const missing: string[] = []
 
   if (!process.env.TURSO_DATABASE_URL) missing.push('TURSO_DATABASE_URL')
@@ -100,29 +109,30 @@ function validateEnvironment(): void {
 TURSO_DATABASE_URL=libsql://your-database.turso.io
 TURSO_AUTH_TOKEN=your-auth-token
 `)
+    log.info('Or set DB_MODE=local to use a local SQLite database')
     process.exit(1)
   }
 }
 
-// Load schema from file (currently unused but kept for future use)
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-function loadSchemaFromFile(): string {
-  const schemaPath = join(process.cwd(), 'db', 'schema.sql')
-
-  if (!existsSync(schemaPath)) {
-    log.warning(`Schema file not found at: ${schemaPath}`)
-    log.info('Using embedded schema from schema-setup.ts')
-    return ''
-  }
+const stateLabels: Record<MigrationState, string> = {
+  applied: `${colors.green}✓ Applied${colors.reset}`,
+  pending: `${colors.yellow}⏳ Pending${colors.reset}`,
+  modified: `${colors.red}✗ Modified after apply${colors.reset}`,
+  missing: `${colors.red}✗ File missing${colors.reset}`,
+}
 
-  const schema = readFileSync(schemaPath, 'utf-8').trim()
+const countState = (statuses: MigrationStatus[], state: MigrationState) =>
+  statuses.filter(status => status.state === state).length
 
-  if (args.verbose) {
-    log.debug('Loaded schema from file:')
-    console.log(schema)
+// Show the state of every migration
+function showStatus(statuses: MigrationStatus[]): void {
+  console.log('')
+  for (const status of statuses) {
+    console.log(`  ${stateLabels[status.state]}  ${status.name}`)
   }
-
-  return schema
+  console.log(
+    `\n  Applied: ${countState(statuses, 'applied')}, pending: ${countState(statuses, 'pending')}, missing: ${countState(statuses, 'missing')}, modified: ${countState(statuses, 'modified')}\n`
+  )
 }
 
 // Show execution plan
@@ -131,31 +141,27 @@ async function showPlan(): Promise<void> {
 
   if (args.check) {
     console.log('  1. Connect to database')
-    console.log('  2. Check if messages table exists')
+    console.log('  2. Compare db/migrations with the _migrations table')
     console.log('  3. Report status')
     return
   }
 
-  const exists = await checkSchemaExists()
+  const statuses = await getSchemaStatus()
+  const toApply = args.reset
+    ? statuses.filter(status => status.state !== 'missing')
+    : statuses.filter(status => status.state === 'pending')
 
+  console.log('  1. Connect to database')
   if (args.reset) {
-    console.log('  1. Connect to database')
-    if (exists) {
-      console.log('  2. Drop existing messages table')
-      console.log('  3. Create new messages table')
-    } else {
-      console.log('  2. Create messages table (no existing table to drop)')
-    }
-    console.log('  4. Verify installation')
-  } else {
-    console.log('  1. Connect to database')
-    if (exists) {
-      console.log('  2. Skip creation (table already exists)')
-    } else {
-      console.log('  2. Create messages table')
-      console.log('  3. Verify installation')
-    }
+    console.log('  2. Run every down migration and clear the _migrations table')
+  }
+  if (toApply.length === 0) {
+    console.log(`  ${args.reset ? 3 : 2}. Skip migrations (schema is up to date)`)
+    return
   }
+  console.log(`  ${args.reset ? 3 : 2}. Apply ${toApply.length} migrations:`)
+  toApply.forEach(status => console.log(`       • ${status.name}`))
+  console.log(`  ${args.reset ? 4 : 3}. Verify installation`)
 }
 
 // Main execution
@@ -171,35 +177,36 @@ async function main(): Promise<void> {
     // Check mode
     if (args.check) {
       log.info('Checking database schema...')
-      const exists = await checkSchemaExists()
+      const statuses = await getSchemaStatus()
+      showStatus(statuses)
 
-      if (exists) {
-        log.success('Schema exists: messages table found')
-
-        if (args.verbose) {
-          const client = getTursoClient()
-          const pragma = await client.execute('PRAGMA table_info(messages)')
-          console.log('\nTable structure:')
-          pragma.rows.forEach((row: unknown) => {
-            const r = row as {
-              name: string
-              type: string
-              notnull: number
-              pk: number
-              dflt_value: string | null
-            }
-            const nullable = r.notnull ? 'NOT NULL' : 'NULL'
-            const pk = r.pk ? 'PRIMARY KEY' : ''
-            const defaultVal = r.dflt_value ? `DEFAULT ${r.dflt_value}` : ''
-            console.log(`  • ${r.name} ${r.type} ${nullable} ${pk} ${defaultVal}`.trim())
-          })
-        }
+      const upToDate = statuses.every(status => status.state === 'applied')
+      if (upToDate) {
+        log.success('Schema is up to date: all migrations applied')
       } else {
-        log.warning('Schema does not exist: messages table not found')
-        process.exit(1)
+        log.warning('Schema is not up to date, run npm run db:setup to apply pending migrations')
       }
 
-      process.exit(0)
+      if (upToDate && args.verbose) {
+        const client = getTursoClient()
+        const pragma = await client.execute('PRAGMA table_info(messages)')
+        console.log('\nTable structure:')
+        pragma.rows.forEach((row: unknown) => {
+          const r = row as {
+            name: string
+            type: string
+            notnull: number
+            pk: number
+            dflt_value: string | null
+          }
+          const nullable = r.notnull ? 'NOT NULL' : 'NULL'
+          const pk = r.pk ? 'PRIMARY KEY' : ''
+          const defaultVal = r.dflt_value ? `DEFAULT ${r.dflt_value}` : ''
+          console.log(`  • ${r.name} ${r.type} ${nullable} ${pk} ${defaultVal}`.trim())
+        })
+      }
+
+      process.exit(upToDate ? 0 : 1)
     }
 
     // Dry run mode
@@ -235,7 +242,7 @@ async function main(): Promise<void> {
       const exists = await checkSchemaExists()
 
       if (exists) {
-        log.info('Schema already exists. Use --reset to recreate it.')
+        log.info('Schema is up to date. Use --reset to recreate it.')
         process.exit(0)
       }
 
@@ -260,7 +267,7 @@ async function main(): Promise<void> {
     const verified = await checkSchemaExists()
 
     if (verified) {
-      log.success('Verified: messages table exists')
+      log.success('Verified: all migrations applied')
 
       if (args.verbose) {
         const client = getTursoClient()
@@ -296,7 +303,7 @@ async function main(): Promise<void> {
         }
       }
     } else {
-      log.error('Verification failed: messages table not found')
+      log.error('Verification failed: migrations are still pending')
       process.exit(1)
     }
 
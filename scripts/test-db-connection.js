@@ -1,23 +1,24 @@
 #!/usr/bin/env node --env-file=.env
 
 import { createClient } from '@libsql/client'
+import { getClientOptions, resolveDatabaseConfig } from './database-config.js'
 
-const TURSO_DATABASE_URL = process.env.TURSO_DATABASE_URL
-const TURSO_AUTH_TOKEN = process.env.TURSO_AUTH_TOKEN
+const databaseConfig = resolveDatabaseConfig()
 
 console.log('🔍 Testing Turso connection...')
-console.log('   Database URL:', TURSO_DATABASE_URL ? '✅ Set' : '❌ Not set')
-console.log('   Auth Token:', TURSO_AUTH_TOKEN ? '✅ Set' : '❌ Not set')
+if (databaseConfig.mode === 'local') {
+  console.log('   Local database:', databaseConfig.url)
+} else {
+  console.log('   Database URL:', process.env.TURSO_DATABASE_URL ? '✅ Set' : '❌ Not set')
+  console.log('   Auth Token:', process.env.TURSO_AUTH_TOKEN ? '✅ Set' : '❌ Not set')
+}
 
-if (!TURSO_DATABASE_URL || !TURSO_AUTH_TOKEN) {
+if (databaseConfig.missing.length > 0) {
   console.error('❌ Missing required environment variables')
   process.exit(1)
 }
 
-const client = createClient({
-  url: TURSO_DATABASE_URL,
-  authToken: TURSO_AUTH_TOKEN,
-})
+const client = createClient(getClientOptions(databaseConfig))
 
 async function testConnection() {
   try {
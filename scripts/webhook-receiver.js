@@ -0,0 +1,79 @@
+#!/usr/bin/env node
+
+import { createHmac, timingSafeEqual } from 'crypto'
+import { createServer } from 'http'
+import { parseArgs } from 'util'
+
+// Parse command line arguments
+const { values: args } = parseArgs({
+  options: {
+    port: { type: 'string', short: 'p', default: '4322' },
+    secret: { type: 'string', short: 's' },
+    fail: { type: 'boolean', default: false },
+    help: { type: 'boolean', short: 'h', default: false },
+  },
+  strict: false,
+})
+
+if (args.help) {
+  console.log(`
+🪝 Local Webhook Receiver
+
+Usage: node scripts/webhook-receiver.js [options]
+
+Prints every webhook it receives and checks the signature when a secret is given.
+Add http://localhost:<port>/ as a webhook in /admin/webhooks to try deliveries locally.
+
+Options:
+  -p, --port     Port to listen on (default 4322)
+  -s, --secret   Signing secret shown on the webhooks admin page
+  --fail         Answer 500 to every request, to watch retries
+  -h, --help     Show this help message
+
+Examples:
+  npm run webhooks:receive
+  npm run webhooks:receive -- --secret whsec_... --fail
+`)
+  process.exit(0)
+}
+
+// Same scheme as signWebhookPayload in src/libs/webhooks.ts
+function verifySignature(secret, timestamp, body, signature) {
+  const expected = Buffer.from(
+    `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`
+  )
+  const received = Buffer.from(signature ?? '')
+  return expected.length === received.length && timingSafeEqual(expected, received)
+}
+
+const server = createServer((request, response) => {
+  const chunks = []
+  request.on('data', chunk => chunks.push(chunk))
+  request.on('end', () => {
+    const body = Buffer.concat(chunks).toString('utf8')
+    const event = request.headers['x-webhook-event']
+    const timestamp = request.headers['x-webhook-timestamp']
+    const signature = request.headers['x-webhook-signature']
+
+    console.log(`\n📨 ${request.method} ${request.url} ${event ?? '(no event header)'}`)
+    console.log(`   Delivery: ${request.headers['x-webhook-id'] ?? '-'}`)
+
+    if (typeof args.secret === 'string') {
+      const valid = verifySignature(args.secret, timestamp, body, signature)
+      console.log(valid ? '   ✅ Signature valid' : '   ❌ Signature invalid')
+    }
+
+    try {
+      console.log(JSON.stringify(JSON.parse(body), null, 2))
+    } catch {
+      console.log(body)
+    }
+
+    response.writeHead(args.fail ? 500 : 204)
+    response.end()
+  })
+})
+
+server.listen(Number(args.port), () => {
+  console.log(`🪝 Listening for webhooks on http://localhost:${args.port}/`)
+})
@@ -0,0 +1,9 @@
+import * as Sentry from '@sentry/astro'
+
+import { readServerEnv } from './src/libs/env'
+
+// Loaded by the @sentry/astro integration, which astro.config.mjs only adds when SENTRY_DSN is set
+Sentry.init({
+  dsn: readServerEnv('SENTRY_DSN'),
+  tracesSampleRate: Number(readServerEnv('SENTRY_TRACES_SAMPLE_RATE') || 0.1),
+})
@@ -0,0 +1,5 @@
+// Admin components
+export { default as MessageFilters } from './MessageFilters.astro'
+export { default as MessageTable } from './MessageTable.astro'
+export { default as MessageSearchForm } from './MessageSearchForm.astro'
+export { default as MessageConversation } from './MessageConversation.astro'
@@ -8,6 +8,7 @@ export { default as Footer } from './astro/Footer.astro'
 export { default as PostsList } from './astro/PostsList.astro'
 export { default as CollectionList } from './astro/CollectionList.astro'
 export { default as ContactForm } from './astro/ContactForm.astro'
+export { default as FormBuilder } from './astro/FormBuilder.astro'
 export { default as Card } from './astro/Card.astro'
 export { default as FeatureCards } from './astro/FeatureCards.astro'
 export { default as Featured } from './astro/Featured.astro'
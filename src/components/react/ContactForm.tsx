@@ -1,6 +1,9 @@
-import React, { useState } from 'react'
+import React, { useEffect, useRef, useState } from 'react'
 
-import { FORM_ERROR_MESSAGES } from '#constants/formErrors'
+import { validateContactValues } from '#utils/contact'
+import type { ContactErrors } from '#utils/contact'
+import { attachFormToken } from '#utils/form-token'
+import { CONTACT_FORM_ACTION, CONTACT_INFO } from '#utils/site-config.js'
 
 import Alert from './Alert'
 
@@ -13,9 +16,15 @@ const ContactForm: React.FC = () => {
     message: '',
   })
 
-  const [errors, setErrors] = useState<Record<string, string>>({})
+  const [errors, setErrors] = useState<ContactErrors>({})
   const [isSubmitting, setIsSubmitting] = useState(false)
-  const [isSubmitted, setIsSubmitted] = useState(false)
+  const formRef = useRef<HTMLFormElement>(null)
+
+  useEffect(() => {
+    if (formRef.current && !CONTACT_INFO.isNetlify) {
+      attachFormToken(formRef.current)
+    }
+  }, [])
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target
@@ -28,42 +37,19 @@ const ContactForm: React.FC = () => {
     setIsSubmitting(true)
 
     if (validateForm()) {
-      // Allow the form to submit naturally
+      // Submit natively so Netlify Forms or /api/contact can redirect to the success page
       ;(e.target as HTMLFormElement).submit()
-      setIsSubmitted(true)
     } else {
       setIsSubmitting(false)
     }
   }
 
   const validateForm = () => {
-    const newErrors: Record<string, string> = {}
-
-    if (!formData.name.trim()) newErrors.name = FORM_ERROR_MESSAGES.name
-    if (!formData.email.trim()) newErrors.email = FORM_ERROR_MESSAGES.emailRequired
-    else if (!isValidEmail(formData.email)) newErrors.email = FORM_ERROR_MESSAGES.emailInvalid
-    if (formData.phone.trim() && !isValidPhone(formData.phone))
-      newErrors.phone = FORM_ERROR_MESSAGES.phoneInvalid
-    if (!formData.subject.trim()) newErrors.subject = FORM_ERROR_MESSAGES.subject
-    if (!formData.message.trim()) newErrors.message = FORM_ERROR_MESSAGES.message
-
+    const newErrors = validateContactValues(formData)
     setErrors(newErrors)
     return Object.keys(newErrors).length === 0
   }
 
-  const isValidEmail = (email: string) => {
-    return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)
-  }
-
-  const isValidPhone = (phone: string) => {
-    return /^[\d\s-()]{7,}$/.test(phone)
-  }
-
-  if (isSubmitted) {
-    window.location.href = '/success'
-    return null
-  }
-
   return (
     <section>
       {Object.keys(errors).length > 0 && (
@@ -80,9 +66,11 @@ const ContactForm: React.FC = () => {
       )}
 
       <form
+        ref={formRef}
         name="contact-us"
+        action={CONTACT_FORM_ACTION}
         method="POST"
-        data-netlify="true"
+        data-netlify={CONTACT_INFO.isNetlify}
         data-netlify-honeypot="bot-field"
         onSubmit={handleSubmit}
         noValidate
@@ -90,8 +78,9 @@ const ContactForm: React.FC = () => {
       >
         <input type="hidden" name="form-name" value="contact-us" />
         <div hidden className="hidden">
-          <input name="bot-field" />
+          <input name="bot-field" tabIndex={-1} autoComplete="off" />
         </div>
+        <input type="hidden" name="form_token" />
 
         <div>
           <label htmlFor="name">Your Full Name</label>
@@ -1,7 +1,10 @@
-import React, { useState, type ChangeEvent } from 'react'
+import React, { useEffect, useRef, useState, type ChangeEvent } from 'react'
 import type { FormEvent } from 'react'
 
-import { CONTACT_INFO } from '#utils/site-config.js'
+import { validateContactValues } from '#utils/contact'
+import type { ContactErrors } from '#utils/contact'
+import { attachFormToken } from '#utils/form-token'
+import { CONTACT_FORM_ACTION, CONTACT_INFO } from '#utils/site-config.js'
 
 import ContactFormView from './view/ContactFormView'
 
@@ -14,14 +17,6 @@ interface FormData {
   botField: string
 }
 
-interface Errors {
-  name?: string
-  email?: string
-  phone?: string
-  subject?: string
-  message?: string
-}
-
 const ContactForm: React.FC = () => {
   const [formData, setFormData] = useState<FormData>({
     name: '',
@@ -32,7 +27,14 @@ const ContactForm: React.FC = () => {
     botField: '',
   })
 
-  const [errors, setErrors] = useState<Errors>({})
+  const [errors, setErrors] = useState<ContactErrors>({})
+  const formRef = useRef<HTMLFormElement>(null)
+
+  useEffect(() => {
+    if (formRef.current && !CONTACT_INFO.isNetlify) {
+      attachFormToken(formRef.current)
+    }
+  }, [])
 
   const handleChange = (e: ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target
@@ -48,44 +50,19 @@ const ContactForm: React.FC = () => {
   }
 
   const validateForm = (): boolean => {
-    const newErrors: Errors = {}
-    let isValid = true
-
-    if (!formData.name.trim()) {
-      newErrors.name = 'Please enter your full name'
-      isValid = false
-    }
-    if (!formData.email.trim() || !isValidEmail(formData.email)) {
-      newErrors.email = 'We need your email to get back to you'
-      isValid = false
-    }
-    if (formData.phone && !isValidPhone(formData.phone)) {
-      newErrors.phone = 'Your phone number does not appear to be valid'
-      isValid = false
-    }
-    if (!formData.subject.trim()) {
-      newErrors.subject = 'We need a subject to help us respond'
-      isValid = false
-    }
-    if (!formData.message.trim()) {
-      newErrors.message = 'Please enter your message here'
-      isValid = false
-    }
-
+    const newErrors = validateContactValues(formData)
     setErrors(newErrors)
-    return isValid
+    return Object.keys(newErrors).length === 0
   }
 
-  const isValidEmail = (email: string): boolean => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)
-  const isValidPhone = (phone: string): boolean => /^[\d\s-()]{7,}$/.test(phone)
-
   return (
     <ContactFormView
       formData={formData}
       errors={errors}
       handleChange={handleChange}
       handleSubmit={handleSubmit}
-      CONTACT_INFO={CONTACT_INFO}
+      CONTACT_INFO={{ url: CONTACT_FORM_ACTION, isNetlify: CONTACT_INFO.isNetlify }}
+      formRef={formRef}
     />
   )
 }
@@ -0,0 +1,178 @@
+import React, { useEffect, useRef, useState } from 'react'
+
+import { attachFormToken } from '#utils/form-token'
+import { getFieldId, hasOptions, readFormElementValues, validateFormValues } from '#utils/forms'
+import type { FormDefinition, FormErrors, FormField } from '#utils/forms'
+import { CONTACT_INFO } from '#utils/site-config.js'
+
+import Alert from './Alert'
+
+interface FormBuilderProps {
+  form: FormDefinition
+  showTitle?: boolean
+}
+
+/**
+ * Renders a form from its definition with an error summary linking to each invalid field
+ */
+const FormBuilder: React.FC<FormBuilderProps> = ({ form, showTitle = true }) => {
+  const [errors, setErrors] = useState<FormErrors>({})
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const formRef = useRef<HTMLFormElement>(null)
+
+  const action = CONTACT_INFO.isNetlify
+    ? (form.successUrl ?? CONTACT_INFO.url)
+    : `/api/forms/${form.id}`
+
+  useEffect(() => {
+    if (formRef.current && !CONTACT_INFO.isNetlify) {
+      attachFormToken(formRef.current)
+    }
+  }, [])
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+
+    const target = e.currentTarget
+    const result = validateFormValues(form, readFormElementValues(target, form))
+    setErrors(result.errors)
+
+    if (Object.keys(result.errors).length === 0) {
+      // Submit natively so Netlify Forms or the API route can redirect to the success page
+      target.submit()
+    } else {
+      setIsSubmitting(false)
+    }
+  }
+
+  const renderField = (field: FormField) => {
+    const id = getFieldId(form, field)
+    const error = errors[field.name]
+    const describedBy =
+      [field.description && `${id}-description`, error && `${id}-error`]
+        .filter(Boolean)
+        .join(' ') || undefined
+    const label = (
+      <>
+        {field.label}
+        {field.required && <span aria-hidden="true"> *</span>}
+      </>
+    )
+    const description = field.description && <p id={`${id}-description`}>{field.description}</p>
+    const errorMessage = error && (
+      <p id={`${id}-error`} className="field-error">
+        {error}
+      </p>
+    )
+
+    if (hasOptions(field) && field.type !== 'select') {
+      return (
+        <fieldset key={field.name} aria-describedby={describedBy}>
+          <legend>{label}</legend>
+          {description}
+          {field.options.map((option, index) => (
+            <label key={option.value}>
+              <input
+                type={field.type}
+                id={index === 0 ? id : `${id}-${index}`}
+                name={field.name}
+                value={option.value}
+                aria-invalid={index === 0 ? !!error : undefined}
+              />
+              {option.label}
+            </label>
+          ))}
+          {errorMessage}
+        </fieldset>
+      )
+    }
+
+    const common = {
+      id,
+      name: field.name,
+      required: field.required,
+      'aria-invalid': !!error,
+      'aria-describedby': describedBy,
+    }
+
+    return (
+      <div key={field.name}>
+        <label htmlFor={id}>{label}</label>
+        {description}
+        {field.type === 'select' ? (
+          <select {...common} defaultValue="">
+            <option value="">{field.placeholder ?? 'Select an option'}</option>
+            {field.options.map(option => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        ) : field.type === 'textarea' ? (
+          <textarea
+            {...common}
+            rows={field.rows ?? 7}
+            maxLength={field.maxLength}
+            placeholder={field.placeholder}
+          ></textarea>
+        ) : (
+          <input
+            {...common}
+            type={field.type}
+            maxLength={field.maxLength}
+            placeholder={field.placeholder}
+            autoComplete={field.autocomplete}
+          />
+        )}
+        {errorMessage}
+      </div>
+    )
+  }
+
+  return (
+    <section className="form-builder">
+      {showTitle && <h3>{form.title}</h3>}
+      {form.description && <p>{form.description}</p>}
+
+      {Object.keys(errors).length > 0 && (
+        <Alert type="error">
+          <h6>Please correct the following errors</h6>
+          <ul data-list="unstyled">
+            {Object.entries(errors).map(([name, message]) => (
+              <li key={name}>
+                <a href={`#${getFieldId(form, { name })}`}>{message}</a>
+              </li>
+            ))}
+          </ul>
+        </Alert>
+      )}
+
+      <form
+        ref={formRef}
+        name={form.id}
+        action={action}
+        method="POST"
+        data-netlify={CONTACT_INFO.isNetlify}
+        data-netlify-honeypot="bot-field"
+        onSubmit={handleSubmit}
+        noValidate
+        aria-label={form.title}
+      >
+        <input type="hidden" name="form-name" value={form.id} />
+        <div hidden className="hidden">
+          <input name="bot-field" tabIndex={-1} autoComplete="off" />
+        </div>
+        <input type="hidden" name="form_token" />
+
+        {form.fields.map(renderField)}
+
+        <button type="submit" data-btn="pill" disabled={isSubmitting}>
+          <b>{isSubmitting ? 'Sending...' : form.submitLabel}</b>
+        </button>
+      </form>
+    </section>
+  )
+}
+
+export default FormBuilder
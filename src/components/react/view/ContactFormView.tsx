@@ -1,5 +1,7 @@
 import React from 'react'
-import type { ChangeEvent, FormEvent } from 'react'
+import type { ChangeEvent, FormEvent, Ref } from 'react'
+
+import type { ContactErrors } from '#utils/contact'
 
 interface FormData {
   name: string
@@ -10,20 +12,13 @@ interface FormData {
   botField: string
 }
 
-interface Errors {
-  name?: string
-  email?: string
-  phone?: string
-  subject?: string
-  message?: string
-}
-
 interface ContactFormViewProps {
   formData: FormData
-  errors: Errors
+  errors: ContactErrors
   handleChange: (e: ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => void
   handleSubmit: (e: FormEvent<HTMLFormElement>) => void
   CONTACT_INFO: { url: string; isNetlify: boolean }
+  formRef?: Ref<HTMLFormElement>
 }
 
 const ContactFormView: React.FC<ContactFormViewProps> = ({
@@ -32,9 +27,11 @@ const ContactFormView: React.FC<ContactFormViewProps> = ({
   handleChange,
   handleSubmit,
   CONTACT_INFO,
+  formRef,
 }) => {
   return (
     <form
+      ref={formRef}
       action={CONTACT_INFO.url}
       method="post"
       data-netlify={CONTACT_INFO.isNetlify}
@@ -43,13 +40,13 @@ const ContactFormView: React.FC<ContactFormViewProps> = ({
       data-netlify-honeypot="bot-field"
       onSubmit={handleSubmit}
     >
-      {CONTACT_INFO.isNetlify && (
-        <p className="hidden">
-          <label>
-            Don’t fill this out if you’re human: <input name="bot-field" onChange={handleChange} />
-          </label>
-        </p>
-      )}
+      <p className="hidden">
+        <label>
+          Don’t fill this out if you’re human:{' '}
+          <input name="bot-field" tabIndex={-1} autoComplete="off" onChange={handleChange} />
+        </label>
+      </p>
+      <input type="hidden" name="form_token" />
 
       <div>
         <label htmlFor="name">Name</label>
@@ -1,8 +1,12 @@
 export const FORM_ERROR_MESSAGES = {
   name: 'Please enter your full name',
+  nameTooLong: 'Your name must be 255 characters or fewer',
   emailRequired: 'We need your email to get back to you',
   emailInvalid: 'Please enter a valid email address',
   phoneInvalid: 'Your phone number does not appear to be valid',
+  phoneTooLong: 'Your phone number must be 50 characters or fewer',
   subject: 'We need a subject to help us respond',
+  subjectTooLong: 'The subject must be 500 characters or fewer',
   message: 'Please enter your message here',
+  messageTooLong: 'Your message must be 5000 characters or fewer',
 }
@@ -0,0 +1,127 @@
+/**
+ * Form definitions rendered by the FormBuilder components
+ * Add an entry here to publish a new form at /forms/[id], no markup or SQL required
+ */
+
+import type { FormDefinition } from '../utils/forms'
+
+export const FORM_DEFINITIONS = [
+  {
+    id: 'newsletter',
+    title: 'Subscribe to our newsletter',
+    description: 'A short monthly round-up of new posts and project updates.',
+    submitLabel: 'Subscribe',
+    fields: [
+      { type: 'text', name: 'name', label: 'Name', maxLength: 255, autocomplete: 'name' },
+      {
+        type: 'email',
+        name: 'email',
+        label: 'Email',
+        required: true,
+        autocomplete: 'email',
+        messages: { required: 'We need your email to send the newsletter' },
+      },
+      {
+        type: 'checkbox',
+        name: 'topics',
+        label: 'Topics',
+        options: [
+          { value: 'releases', label: 'Releases' },
+          { value: 'tutorials', label: 'Tutorials' },
+          { value: 'events', label: 'Events' },
+        ],
+      },
+      {
+        type: 'checkbox',
+        name: 'consent',
+        label: 'Consent',
+        required: true,
+        options: [{ value: 'yes', label: 'I agree to receive emails and can unsubscribe anytime' }],
+        messages: { required: 'Please confirm you want to receive emails' },
+      },
+    ],
+  },
+  {
+    id: 'feedback',
+    title: 'Send us feedback',
+    submitLabel: 'Send Feedback',
+    fields: [
+      {
+        type: 'radio',
+        name: 'rating',
+        label: 'How would you rate the site?',
+        required: true,
+        options: [
+          { value: '1', label: 'Poor' },
+          { value: '2', label: 'Fair' },
+          { value: '3', label: 'Good' },
+          { value: '4', label: 'Great' },
+        ],
+      },
+      {
+        type: 'textarea',
+        name: 'comments',
+        label: 'What could we improve?',
+        required: true,
+        maxLength: 2000,
+        rows: 5,
+      },
+      {
+        type: 'email',
+        name: 'email',
+        label: 'Email',
+        description: 'Optional, only if you would like a reply.',
+      },
+    ],
+  },
+  {
+    id: 'survey',
+    title: 'Developer survey',
+    description: 'Help us decide what to build next. It takes about a minute.',
+    submitLabel: 'Submit Answers',
+    fields: [
+      {
+        type: 'select',
+        name: 'role',
+        label: 'Which best describes you?',
+        required: true,
+        placeholder: 'Choose one',
+        options: [
+          { value: 'frontend', label: 'Frontend developer' },
+          { value: 'fullstack', label: 'Full-stack developer' },
+          { value: 'designer', label: 'Designer' },
+          { value: 'other', label: 'Something else' },
+        ],
+      },
+      {
+        type: 'checkbox',
+        name: 'frameworks',
+        label: 'Which frameworks do you use with Astro?',
+        options: [
+          { value: 'react', label: 'React' },
+          { value: 'vue', label: 'Vue' },
+          { value: 'svelte', label: 'Svelte' },
+          { value: 'none', label: 'None' },
+        ],
+      },
+      {
+        type: 'url',
+        name: 'website',
+        label: 'Your website',
+        placeholder: 'https://',
+      },
+      {
+        type: 'textarea',
+        name: 'wishlist',
+        label: 'What should we build next?',
+        maxLength: 2000,
+      },
+    ],
+  },
+] as const satisfies readonly FormDefinition[]
+
+export type FormId = (typeof FORM_DEFINITIONS)[number]['id']
+
+export function getFormDefinition(id: string | undefined): FormDefinition | null {
+  return FORM_DEFINITIONS.find(definition => definition.id === id) ?? null
+}
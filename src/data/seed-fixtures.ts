@@ -0,0 +1,138 @@
+/**
+ * Text the seed command combines into contact messages, staff replies and form submissions
+ * Addresses use reserved example domains and IPs come from documentation ranges, so seeded data
+ * never points at real people
+ */
+
+export const SEED_FIRST_NAMES = [
+  'Ada',
+  'Amara',
+  'Ben',
+  'Chen',
+  'Diego',
+  'Elena',
+  'Farah',
+  'Grace',
+  'Hiro',
+  'Ines',
+  'Jonas',
+  'Kwame',
+  'Lena',
+  'Mateo',
+  'Nadia',
+  'Oliver',
+  'Priya',
+  'Quinn',
+  'Rosa',
+  'Sam',
+  'Tariq',
+  'Uma',
+  'Viktor',
+  'Yara',
+] as const
+
+export const SEED_LAST_NAMES = [
+  'Okafor',
+  'Lindqvist',
+  'Moreau',
+  'Nakamura',
+  'Patel',
+  'Rossi',
+  'Schmidt',
+  'Silva',
+  'Tanaka',
+  'Walsh',
+  'Kowalski',
+  'Haddad',
+  'Fischer',
+  'Garcia',
+] as const
+
+export const SEED_EMAIL_DOMAINS = ['example.com', 'example.org', 'example.net'] as const
+
+export const SEED_IP_PREFIXES = ['192.0.2', '198.51.100', '203.0.113'] as const
+
+export const SEED_USER_AGENTS = [
+  'Mozilla/5.0 (Macintosh; Intel Mac OS X 14_5) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Safari/605.1.15',
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36',
+  'Mozilla/5.0 (X11; Linux x86_64; rv:127.0) Gecko/20100101 Firefox/127.0',
+  'Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1',
+] as const
+
+/** A message topic: the subject line and bodies a sender might write about it */
+export interface SeedMessageTopic {
+  subject: string
+  bodies: readonly string[]
+}
+
+export const SEED_MESSAGE_TOPICS: readonly SeedMessageTopic[] = [
+  {
+    subject: 'Question about pricing',
+    bodies: [
+      'Hi there, we are a team of six and wondering whether you offer a discount for small agencies. Could you share the current pricing tiers?',
+      'Hello, is the annual plan billed up front or monthly? We would like to budget for next quarter.',
+    ],
+  },
+  {
+    subject: 'Bug report: contact form',
+    bodies: [
+      'The contact form shows a spinner forever on Safari when I attach a PDF. It works fine in Chrome.',
+      'After submitting the form I was redirected to a blank page, although the message seems to have arrived.',
+    ],
+  },
+  {
+    subject: 'Partnership opportunity',
+    bodies: [
+      'We run a developer newsletter with 20k subscribers and would love to feature your component library. Are you open to a collaboration?',
+      'Our agency builds Astro sites for clients and we would like to discuss a reseller partnership.',
+    ],
+  },
+  {
+    subject: 'Feature request',
+    bodies: [
+      'It would be great if the blog supported series, so related posts link to each other automatically.',
+      'Could you add a dark mode toggle to the documentation? Reading at night is a bit harsh on the eyes.',
+    ],
+  },
+  {
+    subject: 'Thank you!',
+    bodies: [
+      'Just wanted to say thanks for the starter kit. It saved me days of setup on my portfolio.',
+      'Your tutorial on content collections finally made it click for me. Keep up the great work!',
+    ],
+  },
+  {
+    subject: 'Speaking invitation',
+    bodies: [
+      'We are organising a frontend meetup next month and would love for someone from your team to give a short talk.',
+    ],
+  },
+]
+
+export const SEED_REPLIES = [
+  'Thanks for getting in touch! I have passed this on to the team and will follow up by the end of the week.',
+  'Thanks for the report, we have reproduced the issue and a fix is on its way in the next release.',
+  'Great question. I have attached our current pricing sheet, let me know if anything is unclear.',
+  'Thank you for the kind words, it really made our day!',
+] as const
+
+export const SEED_NOTES = [
+  'Looks like a duplicate of an earlier request, linking both.',
+  'Asked engineering to confirm before we reply.',
+  'Potential lead, flagging for the sales sync.',
+  'Customer is on the legacy plan.',
+] as const
+
+export const SEED_LABEL_NAMES = ['Sales', 'Support', 'Bug', 'Feedback', 'Partnership'] as const
+
+export const SEED_STAFF = [
+  { id: 'user_seed_support', name: 'Support Team' },
+  { id: 'user_seed_owner', name: 'Site Owner' },
+] as const
+
+export const SEED_COMMENTS = [
+  'Navigation on mobile is a little cramped.',
+  'Love the new blog layout, much easier to read.',
+  'Search results could show a snippet of each post.',
+  'Pages load quickly, nice job.',
+] as const
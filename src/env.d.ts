@@ -1,6 +1,7 @@
 // Astro types are automatically included through astro/client
 /// <reference types="astro/client" />
 /// <reference types="@clerk/astro/client" />
+/// <reference types="@clerk/astro/env" />
 
 import type { UserResource } from '@clerk/types'
 
@@ -17,4 +18,14 @@ declare namespace App {
 
 interface ImportMetaEnv {
   readonly PWA_ENABLED: string
+  readonly PUBLIC_CONTACT_NETLIFY?: string
+}
+
+declare global {
+  namespace App {
+    interface Locals {
+      /** Active Clerk organization set by the middleware, records are scoped to it */
+      organizationId: string | null
+    }
+  }
 }
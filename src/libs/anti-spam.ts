@@ -0,0 +1,233 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto'
+
+import { FORM_TOKEN_FIELD, HONEYPOT_FIELD } from '../utils/form-token'
+
+import type { ContactRequestMeta } from './contact'
+import { executeQuery, isTursoConfigured } from './turso'
+
+export { FORM_TOKEN_FIELD, HONEYPOT_FIELD }
+
+export type SpamRejectionReason =
+  | 'honeypot'
+  | 'missing-token'
+  | 'invalid-token'
+  | 'expired-token'
+  | 'too-fast'
+  | 'rate-limited'
+
+export type SpamCheckResult = { ok: true } | { ok: false; reason: SpamRejectionReason }
+
+export interface SpamProtectionConfig {
+  /** Submissions posted sooner than this after the token was issued are rejected */
+  minFillMs: number
+  /** Tokens older than this are rejected so they cannot be harvested and replayed */
+  tokenMaxAgeMs: number
+  /** Maximum submissions per IP address inside one window */
+  rateLimitMax: number
+  rateLimitWindowMs: number
+}
+
+const readNumber = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value)
+  return value && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback
+}
+
+/**
+ * Thresholds with optional overrides from the environment
+ */
+export function getSpamProtectionConfig(): SpamProtectionConfig {
+  return {
+    minFillMs: readNumber(import.meta.env.SPAM_MIN_FILL_SECONDS, 3) * 1000,
+    tokenMaxAgeMs: readNumber(import.meta.env.SPAM_TOKEN_MAX_AGE_MINUTES, 120) * 60_000,
+    rateLimitMax: readNumber(import.meta.env.SPAM_RATE_LIMIT_MAX, 5),
+    rateLimitWindowMs: readNumber(import.meta.env.SPAM_RATE_LIMIT_WINDOW_MINUTES, 10) * 60_000,
+  }
+}
+
+let fallbackSecret: string | null = null
+
+const getTokenSecret = () => {
+  const secret = import.meta.env.FORM_TOKEN_SECRET
+  if (secret) {
+    return secret
+  }
+
+  // A per-process secret only works while a single server instance issues and checks tokens
+  if (!fallbackSecret) {
+    console.warn('FORM_TOKEN_SECRET is not set, using a random secret for this process')
+    fallbackSecret = randomBytes(32).toString('hex')
+  }
+  return fallbackSecret
+}
+
+const signTimestamp = (issuedAt: number) =>
+  createHmac('sha256', getTokenSecret()).update(String(issuedAt)).digest('base64url')
+
+/**
+ * Creates a `timestamp.signature` token recording when the form was rendered
+ */
+export function createFormToken(issuedAt: number = Date.now()): string {
+  return `${issuedAt}.${signTimestamp(issuedAt)}`
+}
+
+/**
+ * Verifies a form token's signature and that the form was neither filled too fast nor too stale
+ */
+export function verifyFormToken(
+  token: unknown,
+  now: number = Date.now(),
+  config: Pick<SpamProtectionConfig, 'minFillMs' | 'tokenMaxAgeMs'> = getSpamProtectionConfig()
+): SpamCheckResult {
+  if (typeof token !== 'string' || !token) {
+    return { ok: false, reason: 'missing-token' }
+  }
+
+  const [timestamp, signature] = token.split('.')
+  const issuedAt = Number(timestamp)
+  if (!timestamp || !signature || !Number.isInteger(issuedAt)) {
+    return { ok: false, reason: 'invalid-token' }
+  }
+
+  const expected = Buffer.from(signTimestamp(issuedAt))
+  const received = Buffer.from(signature)
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    return { ok: false, reason: 'invalid-token' }
+  }
+
+  const elapsed = now - issuedAt
+  if (elapsed < config.minFillMs) {
+    return { ok: false, reason: 'too-fast' }
+  }
+  if (elapsed > config.tokenMaxAgeMs) {
+    return { ok: false, reason: 'expired-token' }
+  }
+
+  return { ok: true }
+}
+
+export function isHoneypotFilled(payload: Record<string, unknown>): boolean {
+  const value = payload[HONEYPOT_FIELD]
+  return typeof value === 'string' && value.trim() !== ''
+}
+
+/**
+ * Counts hits per key inside a fixed window
+ */
+export interface RateLimitStore {
+  /**
+   * Records a hit and returns how many hits the key has in the current window
+   */
+  hit(key: string, windowMs: number, now?: number): Promise<number>
+}
+
+/**
+ * Process-local store for development and tests
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly windows = new Map<string, { start: number; count: number }>()
+
+  async hit(key: string, windowMs: number, now: number = Date.now()): Promise<number> {
+    const current = this.windows.get(key)
+
+    if (!current || current.start <= now - windowMs) {
+      this.windows.set(key, { start: now, count: 1 })
+      return 1
+    }
+
+    current.count += 1
+    return current.count
+  }
+}
+
+/**
+ * Store backed by the `rate_limits` table so limits hold across serverless instances
+ */
+export class TursoRateLimitStore implements RateLimitStore {
+  async hit(key: string, windowMs: number, now: number = Date.now()): Promise<number> {
+    const windowExpiredBefore = now - windowMs
+    const result = await executeQuery(
+      `INSERT INTO rate_limits (key, window_start, count) VALUES (?, ?, 1)
+       ON CONFLICT(key) DO UPDATE SET
+         count = CASE WHEN rate_limits.window_start <= ? THEN 1 ELSE rate_limits.count + 1 END,
+         window_start = CASE WHEN rate_limits.window_start <= ? THEN excluded.window_start
+                             ELSE rate_limits.window_start END
+       RETURNING count`,
+      [key, now, windowExpiredBefore, windowExpiredBefore]
+    )
+
+    return Number(result.rows[0]?.count ?? 1)
+  }
+}
+
+let rateLimitStore: RateLimitStore | null = null
+
+export function getRateLimitStore(): RateLimitStore {
+  if (!rateLimitStore) {
+    rateLimitStore = isTursoConfigured() ? new TursoRateLimitStore() : new MemoryRateLimitStore()
+  }
+  return rateLimitStore
+}
+
+/**
+ * Records a rejected submission so thresholds can be tuned. Never throws.
+ */
+export async function logRejectedSubmission(
+  reason: SpamRejectionReason,
+  meta: ContactRequestMeta,
+  formName: string
+): Promise<void> {
+  if (!isTursoConfigured()) {
+    console.warn(`Rejected ${formName} submission (${reason}) from ${meta.ipAddress ?? 'unknown'}`)
+    return
+  }
+
+  try {
+    await executeQuery(
+      'INSERT INTO spam_log (form_name, reason, ip_address, user_agent) VALUES (?, ?, ?, ?)',
+      [formName, reason, meta.ipAddress, meta.userAgent]
+    )
+  } catch (error) {
+    console.error('Failed to log rejected submission:', error)
+  }
+}
+
+export interface SpamCheckOptions {
+  payload: Record<string, unknown>
+  meta: ContactRequestMeta
+  formName: string
+  now?: number
+  config?: SpamProtectionConfig
+  store?: RateLimitStore
+}
+
+/**
+ * Runs the honeypot, time-trap and rate-limit checks in order, logging the first failure
+ */
+export async function checkSubmission(options: SpamCheckOptions): Promise<SpamCheckResult> {
+  const { payload, meta, formName } = options
+  const now = options.now ?? Date.now()
+  const config = options.config ?? getSpamProtectionConfig()
+  const store = options.store ?? getRateLimitStore()
+
+  let result: SpamCheckResult = isHoneypotFilled(payload)
+    ? { ok: false, reason: 'honeypot' }
+    : verifyFormToken(payload[FORM_TOKEN_FIELD], now, config)
+
+  if (result.ok && meta.ipAddress && config.rateLimitMax > 0) {
+    try {
+      const key = `${formName}:${meta.ipAddress}`
+      if ((await store.hit(key, config.rateLimitWindowMs, now)) > config.rateLimitMax) {
+        result = { ok: false, reason: 'rate-limited' }
+      }
+    } catch (error) {
+      // Fail open: an unavailable counter should not block legitimate messages
+      console.error('Rate limit check failed:', error)
+    }
+  }
+
+  if (!result.ok) {
+    await logRejectedSubmission(result.reason, meta, formName)
+  }
+
+  return result
+}
@@ -0,0 +1,193 @@
+import { randomUUID } from 'node:crypto'
+
+import type { Row } from '@libsql/client'
+
+import {
+  ATTACHMENT_FIELD,
+  isAllowedAttachmentType,
+  validateAttachmentList,
+} from '../utils/attachments'
+import type { AttachmentContentType } from '../utils/attachments'
+
+import { assertMessageRecordsSupported } from './message-repository'
+import { getStorageAdapter } from './storage'
+import type { StorageAdapter } from './storage'
+import { executeQuery } from './turso'
+
+export { ATTACHMENT_FIELD, ATTACHMENT_LIMITS } from '../utils/attachments'
+
+export interface MessageAttachment {
+  id: number
+  message_id: number
+  file_name: string
+  content_type: AttachmentContentType
+  size_bytes: number
+  storage_key: string
+  created_at: string
+}
+
+export interface AttachmentUpload {
+  fileName: string
+  contentType: AttachmentContentType
+  body: Uint8Array
+}
+
+export type AttachmentValidationResult =
+  | { ok: true; value: AttachmentUpload[] }
+  | { ok: false; error: string }
+
+const startsWith = (body: Uint8Array, signature: readonly number[], offset = 0) =>
+  signature.every((byte, index) => body[offset + index] === byte)
+
+/**
+ * Checks the file content matches its declared type, so a renamed executable cannot pass as an image
+ */
+export function matchesContentType(body: Uint8Array, type: AttachmentContentType): boolean {
+  switch (type) {
+    case 'image/png':
+      return startsWith(body, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+    case 'image/jpeg':
+      return startsWith(body, [0xff, 0xd8, 0xff])
+    case 'image/gif':
+      return startsWith(body, [0x47, 0x49, 0x46, 0x38])
+    case 'image/webp':
+      return (
+        startsWith(body, [0x52, 0x49, 0x46, 0x46]) && startsWith(body, [0x57, 0x45, 0x42, 0x50], 8)
+      )
+    case 'application/pdf':
+      return startsWith(body, [0x25, 0x50, 0x44, 0x46, 0x2d])
+    case 'text/plain':
+      return !body.includes(0)
+  }
+}
+
+/**
+ * Strips directories and control characters from a client-supplied file name
+ */
+export function sanitizeFileName(name: string): string {
+  const base = name.split(/[\\/]/).pop() ?? ''
+  const cleaned = Array.from(base)
+    .filter(char => char !== '"' && char.charCodeAt(0) > 0x1f && char.charCodeAt(0) !== 0x7f)
+    .join('')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(-255)
+  return cleaned || 'attachment'
+}
+
+/**
+ * Non-empty files posted in the attachment field
+ */
+export function getAttachmentFiles(payload: Record<string, unknown>): File[] {
+  const value = payload[ATTACHMENT_FIELD]
+  const entries = Array.isArray(value) ? value : [value]
+  return entries.filter(
+    (entry): entry is File => entry instanceof globalThis.File && entry.size > 0
+  )
+}
+
+/**
+ * Applies the count, size and type allowlists and reads each file into memory
+ */
+export async function validateAttachments(files: File[]): Promise<AttachmentValidationResult> {
+  const listError = validateAttachmentList(files)
+  if (listError) {
+    return { ok: false, error: listError }
+  }
+
+  const uploads: AttachmentUpload[] = []
+  for (const file of files) {
+    const contentType = file.type
+    const body = new Uint8Array(await file.arrayBuffer())
+    if (!isAllowedAttachmentType(contentType) || !matchesContentType(body, contentType)) {
+      return { ok: false, error: `${file.name} does not match its file type` }
+    }
+    uploads.push({ fileName: sanitizeFileName(file.name), contentType, body })
+  }
+
+  return { ok: true, value: uploads }
+}
+
+export function mapAttachmentRow(row: Row): MessageAttachment {
+  const contentType = String(row.content_type)
+
+  return {
+    id: Number(row.id),
+    message_id: Number(row.message_id),
+    file_name: String(row.file_name),
+    // Rows are only written for allowlisted types, anything else is served as a plain download
+    content_type: isAllowedAttachmentType(contentType) ? contentType : 'text/plain',
+    size_bytes: Number(row.size_bytes),
+    storage_key: String(row.storage_key),
+    created_at: String(row.created_at),
+  }
+}
+
+/**
+ * Stores each upload and records it against the message. Files already written are removed
+ * again if a later one fails, so no row points at a missing object.
+ */
+export async function saveMessageAttachments(
+  messageId: number,
+  uploads: AttachmentUpload[],
+  storage: StorageAdapter = getStorageAdapter()
+): Promise<MessageAttachment[]> {
+  assertMessageRecordsSupported('Attachments')
+  const saved: MessageAttachment[] = []
+  const writtenKeys: string[] = []
+
+  try {
+    for (const upload of uploads) {
+      const key = `messages/${messageId}/${randomUUID()}`
+      await storage.put(key, upload.body, upload.contentType)
+      writtenKeys.push(key)
+
+      const result = await executeQuery(
+        `INSERT INTO message_attachments
+           (message_id, file_name, content_type, size_bytes, storage_key)
+         VALUES (?, ?, ?, ?, ?)
+         RETURNING *`,
+        [messageId, upload.fileName, upload.contentType, upload.body.byteLength, key]
+      )
+      const row = result.rows[0]
+      if (row) saved.push(mapAttachmentRow(row))
+    }
+  } catch (error) {
+    await Promise.allSettled(writtenKeys.map(key => storage.delete(key)))
+    if (saved.length > 0) {
+      await executeQuery(
+        `DELETE FROM message_attachments WHERE id IN (${saved.map(() => '?').join(', ')})`,
+        saved.map(attachment => attachment.id)
+      )
+    }
+    throw error
+  }
+
+  return saved
+}
+
+export async function listMessageAttachments(messageId: number): Promise<MessageAttachment[]> {
+  const result = await executeQuery(
+    'SELECT * FROM message_attachments WHERE message_id = ? ORDER BY id ASC',
+    [messageId]
+  )
+  return result.rows.map(mapAttachmentRow)
+}
+
+export async function getMessageAttachment(
+  messageId: number,
+  attachmentId: number
+): Promise<MessageAttachment | null> {
+  const result = await executeQuery(
+    'SELECT * FROM message_attachments WHERE id = ? AND message_id = ?',
+    [attachmentId, messageId]
+  )
+  const row = result.rows[0]
+  return row ? mapAttachmentRow(row) : null
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
@@ -0,0 +1,388 @@
+import type { Client, InStatement, InValue } from '@libsql/client'
+
+import { diffSchemaObjects, isSchemaDiffEmpty, splitSqlStatements } from './migrations'
+import type { SchemaDiff, SchemaObject } from './migrations'
+import { getTursoClient } from './turso'
+
+export type DumpFormat = 'sql' | 'jsonl'
+
+export const DUMP_VERSION = 1
+
+/** A column value as stored by SQLite */
+export type DumpValue = null | number | bigint | string | ArrayBuffer
+
+export interface DumpTable {
+  name: string
+  columns: string[]
+  rows: DumpValue[][]
+}
+
+/** Written at the top of every dump and used to verify a restore */
+export interface DumpManifest {
+  version: number
+  createdAt: string
+  /** Row count of every table in the dump */
+  tables: Record<string, number>
+}
+
+export interface DatabaseDump {
+  manifest: DumpManifest
+  /** Schema objects in creation order: tables, then indexes, views and triggers */
+  schema: SchemaObject[]
+  tables: DumpTable[]
+  /** AUTOINCREMENT counters from `sqlite_sequence` */
+  sequences: Record<string, number>
+}
+
+export interface RowCountMismatch {
+  table: string
+  expected: number
+  actual: number
+}
+
+export interface RestoreVerification {
+  ok: boolean
+  schema: SchemaDiff
+  rowCounts: RowCountMismatch[]
+}
+
+export interface RestoreResult {
+  manifest: DumpManifest
+  statements: number
+  verification: RestoreVerification
+}
+
+const MANIFEST_PREFIX = '-- manifest: '
+
+const SCHEMA_ORDER: Record<string, number> = { table: 0, index: 1, view: 2, trigger: 3 }
+
+const quoteIdentifier = (name: string) => `"${name.replace(/"/g, '""')}"`
+
+const isVirtualTable = (object: SchemaObject) =>
+  object.type === 'table' && /^CREATE\s+VIRTUAL\s+TABLE/i.test(object.sql)
+
+/**
+ * Tables, indexes, views and triggers to recreate, including the migrations table. Shadow tables
+ * that SQLite creates for virtual tables such as FTS5 are left out.
+ */
+export async function readDumpSchema(client: Client = getTursoClient()): Promise<SchemaObject[]> {
+  const result = await client.execute(
+    `SELECT type, name, sql FROM sqlite_master
+     WHERE sql IS NOT NULL AND name NOT LIKE 'sqlite_%'`
+  )
+  const objects = result.rows.map(row => ({
+    type: String(row.type),
+    name: String(row.name),
+    sql: String(row.sql),
+  }))
+  const virtualTables = objects.filter(isVirtualTable).map(object => `${object.name}_`)
+
+  return objects
+    .filter(
+      object =>
+        object.type !== 'table' || !virtualTables.some(prefix => object.name.startsWith(prefix))
+    )
+    .sort(
+      (a, b) =>
+        (SCHEMA_ORDER[a.type] ?? 4) - (SCHEMA_ORDER[b.type] ?? 4) || a.name.localeCompare(b.name)
+    )
+}
+
+/**
+ * Reads the schema and every row of a database. Virtual tables hold no rows of their own: FTS
+ * indexes are rebuilt from their content tables on restore.
+ */
+export async function createDump(client: Client = getTursoClient()): Promise<DatabaseDump> {
+  const schema = await readDumpSchema(client)
+  const tables: DumpTable[] = []
+
+  for (const object of schema) {
+    if (object.type !== 'table' || isVirtualTable(object)) {
+      continue
+    }
+    const result = await client.execute(`SELECT * FROM ${quoteIdentifier(object.name)}`)
+    tables.push({
+      name: object.name,
+      columns: result.columns,
+      rows: result.rows.map(row => result.columns.map((_column, index) => row[index] as DumpValue)),
+    })
+  }
+
+  const sequences: Record<string, number> = {}
+  const hasSequences = await client.execute(
+    "SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'sqlite_sequence'"
+  )
+  if (hasSequences.rows.length > 0) {
+    const result = await client.execute('SELECT name, seq FROM sqlite_sequence ORDER BY name')
+    result.rows.forEach(row => {
+      sequences[String(row.name)] = Number(row.seq)
+    })
+  }
+
+  return {
+    manifest: {
+      version: DUMP_VERSION,
+      createdAt: new Date().toISOString(),
+      tables: Object.fromEntries(tables.map(table => [table.name, table.rows.length])),
+    },
+    schema,
+    tables,
+    sequences,
+  }
+}
+
+const toHex = (buffer: ArrayBuffer) => Buffer.from(buffer).toString('hex')
+
+/** A value as an SQL literal */
+export function toSqlLiteral(value: DumpValue): string {
+  if (value === null) {
+    return 'NULL'
+  }
+  if (typeof value === 'number' || typeof value === 'bigint') {
+    return String(value)
+  }
+  if (typeof value === 'string') {
+    return `'${value.replace(/'/g, "''")}'`
+  }
+  return `X'${toHex(value)}'`
+}
+
+const toInValue = (value: DumpValue): InValue =>
+  value instanceof ArrayBuffer ? new Uint8Array(value) : value
+
+const insertSql = (table: string, columns: string[]) =>
+  `INSERT INTO ${quoteIdentifier(table)} (${columns.map(quoteIdentifier).join(', ')})`
+
+/** An INSERT with its values inlined as literals or bound as arguments */
+const insertStatement = (
+  table: string,
+  columns: string[],
+  values: DumpValue[],
+  inline: boolean
+): InStatement =>
+  inline
+    ? `${insertSql(table, columns)} VALUES (${values.map(toSqlLiteral).join(', ')})`
+    : {
+        sql: `${insertSql(table, columns)} VALUES (${values.map(() => '?').join(', ')})`,
+        args: values.map(toInValue),
+      }
+
+/**
+ * Statements recreating a dump in an empty database: tables and rows first, then AUTOINCREMENT
+ * counters, indexes, views and triggers, and finally FTS rebuilds
+ */
+function buildRestoreStatements(dump: DatabaseDump, inline: boolean): InStatement[] {
+  const statements: InStatement[] = ['PRAGMA defer_foreign_keys = ON']
+  const tables = dump.schema.filter(object => object.type === 'table')
+
+  statements.push(...tables.map(object => object.sql))
+  for (const table of dump.tables) {
+    statements.push(
+      ...table.rows.map(row => insertStatement(table.name, table.columns, row, inline))
+    )
+  }
+
+  const sequences = Object.entries(dump.sequences)
+  if (sequences.length > 0) {
+    statements.push('DELETE FROM sqlite_sequence')
+    statements.push(
+      ...sequences.map(([name, seq]) =>
+        insertStatement('sqlite_sequence', ['name', 'seq'], [name, seq], inline)
+      )
+    )
+  }
+
+  statements.push(...dump.schema.filter(object => object.type !== 'table').map(({ sql }) => sql))
+  statements.push(
+    ...tables
+      .filter(object => isVirtualTable(object) && /USING\s+fts5/i.test(object.sql))
+      .map(
+        ({ name }) =>
+          `INSERT INTO ${quoteIdentifier(name)} (${quoteIdentifier(name)}) VALUES ('rebuild')`
+      )
+  )
+
+  return statements
+}
+
+const encodeJsonValue = (value: DumpValue) => {
+  if (value instanceof ArrayBuffer) {
+    return { $blob: Buffer.from(value).toString('base64') }
+  }
+  return typeof value === 'bigint' ? { $bigint: String(value) } : value
+}
+
+const decodeJsonValue = (value: unknown): DumpValue => {
+  if (value && typeof value === 'object') {
+    if ('$blob' in value) {
+      const bytes = Buffer.from(String(value.$blob), 'base64')
+      return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength)
+    }
+    if ('$bigint' in value) {
+      return BigInt(String(value.$bigint))
+    }
+  }
+  return value as DumpValue
+}
+
+/**
+ * Renders a dump as a plain SQL script or as JSON lines: a manifest line, one line per schema
+ * object and one line per row
+ */
+export function serializeDump(dump: DatabaseDump, format: DumpFormat = 'sql'): string {
+  if (format === 'jsonl') {
+    const lines = [
+      { type: 'manifest', ...dump.manifest },
+      ...dump.schema.map(object => ({ type: 'schema', object })),
+      ...dump.tables.flatMap(table =>
+        table.rows.map(row => ({
+          type: 'row',
+          table: table.name,
+          values: Object.fromEntries(
+            table.columns.map((column, index) => [column, encodeJsonValue(row[index] ?? null)])
+          ),
+        }))
+      ),
+      ...Object.entries(dump.sequences).map(([name, seq]) => ({ type: 'sequence', name, seq })),
+    ]
+    return `${lines.map(line => JSON.stringify(line)).join('\n')}\n`
+  }
+
+  const statements = buildRestoreStatements(dump, true) as string[]
+
+  return [
+    `-- Database dump created ${dump.manifest.createdAt}`,
+    `${MANIFEST_PREFIX}${JSON.stringify(dump.manifest)}`,
+    '',
+    ...statements.map(sql => `${sql};`),
+    '',
+  ].join('\n')
+}
+
+/** A dump read back from a file, ready to restore */
+export interface RestorePlan {
+  manifest: DumpManifest
+  schema: SchemaObject[]
+  statements: InStatement[]
+}
+
+const CREATE_PATTERN =
+  /^CREATE\s+(?:UNIQUE\s+|VIRTUAL\s+|TEMP\s+|TEMPORARY\s+)?(TABLE|INDEX|VIEW|TRIGGER)\s+(?:IF\s+NOT\s+EXISTS\s+)?("(?:[^"]|"")+"|[^\s(]+)/i
+
+const parseManifest = (value: unknown): DumpManifest => {
+  const manifest = value as Partial<DumpManifest> | null
+  if (!manifest || typeof manifest.tables !== 'object' || manifest.tables === null) {
+    throw new Error('Dump has no manifest')
+  }
+  if (manifest.version !== DUMP_VERSION) {
+    throw new Error(`Unsupported dump version: ${String(manifest.version)}`)
+  }
+  return {
+    version: manifest.version,
+    createdAt: String(manifest.createdAt),
+    tables: manifest.tables,
+  }
+}
+
+/**
+ * Parses a dump written by `serializeDump`, detecting the format from its first line
+ */
+export function parseDump(text: string): RestorePlan {
+  const firstLine = text.trimStart().split('\n', 1)[0] ?? ''
+
+  if (firstLine.startsWith('{')) {
+    const lines = text
+      .split('\n')
+      .filter(line => line.trim() !== '')
+      .map(line => JSON.parse(line) as Record<string, unknown>)
+    const manifest = parseManifest(lines.find(line => line.type === 'manifest'))
+    const schema = lines
+      .filter(line => line.type === 'schema')
+      .map(line => line.object as SchemaObject)
+    const tables = new Map<string, DumpTable>()
+    const sequences: Record<string, number> = {}
+
+    for (const line of lines) {
+      if (line.type === 'sequence') {
+        sequences[String(line.name)] = Number(line.seq)
+      }
+      if (line.type !== 'row') {
+        continue
+      }
+      const values = line.values as Record<string, unknown>
+      const name = String(line.table)
+      const table = tables.get(name) ?? { name, columns: Object.keys(values), rows: [] }
+      table.rows.push(table.columns.map(column => decodeJsonValue(values[column] ?? null)))
+      tables.set(name, table)
+    }
+
+    const dump: DatabaseDump = { manifest, schema, tables: [...tables.values()], sequences }
+    return {
+      manifest,
+      schema,
+      statements: buildRestoreStatements(dump, false),
+    }
+  }
+
+  const manifestLine = text.split('\n').find(line => line.startsWith(MANIFEST_PREFIX))
+  if (!manifestLine) {
+    throw new Error('Dump has no manifest')
+  }
+  const manifest = parseManifest(JSON.parse(manifestLine.slice(MANIFEST_PREFIX.length)))
+  const statements = splitSqlStatements(text)
+  const schema = statements.flatMap(sql => {
+    const match = sql.match(CREATE_PATTERN)
+    if (!match) {
+      return []
+    }
+    const name = match[2]!.startsWith('"') ? match[2]!.slice(1, -1).replace(/""/g, '"') : match[2]!
+    return [{ type: match[1]!.toLowerCase(), name, sql }]
+  })
+
+  return { manifest, schema, statements }
+}
+
+/**
+ * Compares a restored database with the schema and row counts recorded in its dump
+ */
+export async function verifyRestore(
+  plan: Pick<RestorePlan, 'manifest' | 'schema'>,
+  client: Client = getTursoClient()
+): Promise<RestoreVerification> {
+  const schema = diffSchemaObjects(plan.schema, await readDumpSchema(client))
+  const rowCounts: RowCountMismatch[] = []
+
+  for (const [table, expected] of Object.entries(plan.manifest.tables)) {
+    const result = await client.execute(`SELECT COUNT(*) AS count FROM ${quoteIdentifier(table)}`)
+    const actual = Number(result.rows[0]?.count ?? 0)
+    if (actual !== expected) {
+      rowCounts.push({ table, expected, actual })
+    }
+  }
+
+  return { ok: isSchemaDiffEmpty(schema) && rowCounts.length === 0, schema, rowCounts }
+}
+
+/**
+ * Restores a dump into an empty database in one write batch, then verifies the schema and row
+ * counts. Refuses to touch a database that already has tables.
+ */
+export async function restoreDump(
+  plan: RestorePlan,
+  client: Client = getTursoClient()
+): Promise<RestoreResult> {
+  const existing = await readDumpSchema(client)
+  if (existing.length > 0) {
+    throw new Error(
+      `Target database is not empty (${existing.length} schema objects). Restore into a new database`
+    )
+  }
+
+  await client.batch(plan.statements, 'write')
+
+  return {
+    manifest: plan.manifest,
+    statements: plan.statements.length,
+    verification: await verifyRestore(plan, client),
+  }
+}
@@ -0,0 +1,161 @@
+import type { APIContext } from 'astro'
+
+import { CONTACT_FORM_SCHEMA, validateContactValues } from '../utils/contact'
+import type { ContactErrors } from '../utils/contact'
+
+import { getMessageRepository } from './message-repository'
+import { getDefaultOrganizationId } from './organizations'
+
+export type { ContactErrors, ContactField } from '../utils/contact'
+
+/**
+ * Column limits mirrored from the CHECK constraints on the `messages` table
+ */
+export const CONTACT_LIMITS = {
+  name: CONTACT_FORM_SCHEMA.name.maxLength,
+  phone: CONTACT_FORM_SCHEMA.phone.maxLength,
+  subject: CONTACT_FORM_SCHEMA.subject.maxLength,
+  message: CONTACT_FORM_SCHEMA.message.maxLength,
+  ipAddress: 45,
+  userAgent: 500,
+} as const
+
+export interface ContactSubmission {
+  name: string
+  email: string
+  phone: string | null
+  subject: string | null
+  message: string
+}
+
+export interface ContactRequestMeta {
+  ipAddress: string | null
+  userAgent: string | null
+}
+
+export type ContactValidationResult =
+  | { ok: true; value: ContactSubmission }
+  | { ok: false; errors: ContactErrors }
+
+/**
+ * JSON body returned by `POST /api/contact`
+ */
+export type ContactSubmitResult =
+  | { success: true; id: number }
+  | { success: false; message: string; errors?: ContactErrors }
+
+const readField = (input: Record<string, unknown>, field: string): string => {
+  const value = input[field]
+  return typeof value === 'string' ? value.trim() : ''
+}
+
+/**
+ * Validates an untrusted contact payload against the shared contact form schema
+ */
+export function validateContactSubmission(input: Record<string, unknown>): ContactValidationResult {
+  const errors = validateContactValues(input)
+
+  if (Object.keys(errors).length > 0) {
+    return { ok: false, errors }
+  }
+
+  const phone = readField(input, 'phone')
+  const subject = readField(input, 'subject')
+
+  return {
+    ok: true,
+    value: {
+      name: readField(input, 'name'),
+      email: readField(input, 'email'),
+      phone: phone || null,
+      subject: subject || null,
+      message: readField(input, 'message'),
+    },
+  }
+}
+
+/**
+ * Reads a contact payload from a JSON, form-encoded or multipart request body
+ */
+export async function readContactPayload(
+  request: Request
+): Promise<{ ok: true; value: Record<string, unknown> } | { ok: false; error: Error }> {
+  const contentType = request.headers.get('content-type') ?? ''
+
+  try {
+    if (contentType.includes('application/json')) {
+      const body: unknown = await request.json()
+      if (!body || typeof body !== 'object' || Array.isArray(body)) {
+        return { ok: false, error: new Error('Expected a JSON object') }
+      }
+      return { ok: true, value: body as Record<string, unknown> }
+    }
+
+    const formData = await request.formData()
+    const value: Record<string, unknown> = {}
+    for (const [key, entry] of formData.entries()) {
+      if (typeof entry !== 'string') {
+        // Multipart uploads keep every file posted under the same name
+        const files = Array.isArray(value[key]) ? (value[key] as unknown[]) : []
+        value[key] = [...files, entry]
+      } else if (!Array.isArray(value[key])) {
+        // An empty file input arrives as an empty string and must not replace earlier files
+        value[key] = entry
+      }
+    }
+    return { ok: true, value }
+  } catch (error) {
+    return { ok: false, error: error instanceof Error ? error : new Error('Invalid request body') }
+  }
+}
+
+/**
+ * Collects the client IP and user agent, truncated to fit the `messages` columns.
+ * `clientAddress` throws on adapters that do not expose it, so proxy headers are the fallback.
+ */
+export function getRequestMeta(
+  context: Pick<APIContext, 'request' | 'clientAddress'>
+): ContactRequestMeta {
+  const { headers } = context.request
+  let ipAddress: string | null = null
+
+  try {
+    ipAddress = context.clientAddress || null
+  } catch {
+    ipAddress = null
+  }
+
+  if (!ipAddress) {
+    const forwarded = headers.get('x-forwarded-for')?.split(',')[0]?.trim()
+    ipAddress = forwarded || headers.get('x-real-ip') || null
+  }
+
+  const userAgent = headers.get('user-agent')
+
+  return {
+    ipAddress: ipAddress ? ipAddress.slice(0, CONTACT_LIMITS.ipAddress) : null,
+    userAgent: userAgent ? userAgent.slice(0, CONTACT_LIMITS.userAgent) : null,
+  }
+}
+
+/**
+ * Persists a validated submission to the `messages` table
+ * @returns The id of the new row
+ */
+export async function createContactMessage(
+  submission: ContactSubmission,
+  meta: ContactRequestMeta
+): Promise<number> {
+  const message = await getMessageRepository().create({
+    name: submission.name,
+    email: submission.email,
+    phone: submission.phone,
+    subject: submission.subject,
+    message: submission.message,
+    ip_address: meta.ipAddress,
+    user_agent: meta.userAgent,
+    organization_id: getDefaultOrganizationId(),
+  })
+
+  return message.id
+}
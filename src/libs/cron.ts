@@ -0,0 +1,21 @@
+import { createHash, timingSafeEqual } from 'node:crypto'
+
+export type CronAuthorization = 'authorized' | 'unauthorized' | 'unconfigured'
+
+/**
+ * Checks a scheduled request carries `Authorization: Bearer <CRON_SECRET>`, which is what
+ * Vercel Cron sends. Digests are compared so the check takes the same time for any header length.
+ */
+export function authorizeCronRequest(
+  request: Request,
+  secret: string | undefined = import.meta.env.CRON_SECRET
+): CronAuthorization {
+  if (!secret) {
+    return 'unconfigured'
+  }
+
+  const digest = (value: string) => createHash('sha256').update(value).digest()
+  const header = request.headers.get('authorization') ?? ''
+
+  return timingSafeEqual(digest(header), digest(`Bearer ${secret}`)) ? 'authorized' : 'unauthorized'
+}
@@ -0,0 +1,85 @@
+// Types for the Supabase schema in supabase/migrations, in the shape `supabase gen types
+// typescript` produces. Regenerate after changing the schema and keep the helpers at the end.
+
+export type Json = string | number | boolean | null | { [key: string]: Json | undefined } | Json[]
+
+export type Database = {
+  public: {
+    Tables: {
+      messages: {
+        Row: {
+          created_at: string
+          email: string
+          fts: unknown
+          id: number
+          ip_address: string | null
+          is_archived: boolean
+          is_read: boolean
+          message: string
+          name: string
+          organization_id: string | null
+          phone: string | null
+          subject: string | null
+          updated_at: string
+          user_agent: string | null
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          fts?: unknown
+          id?: never
+          ip_address?: string | null
+          is_archived?: boolean
+          is_read?: boolean
+          message: string
+          name: string
+          organization_id?: string | null
+          phone?: string | null
+          subject?: string | null
+          updated_at?: string
+          user_agent?: string | null
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          fts?: unknown
+          id?: never
+          ip_address?: string | null
+          is_archived?: boolean
+          is_read?: boolean
+          message?: string
+          name?: string
+          organization_id?: string | null
+          phone?: string | null
+          subject?: string | null
+          updated_at?: string
+          user_agent?: string | null
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      [_ in never]: never
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type PublicSchema = Database['public']
+
+export type Tables<TableName extends keyof PublicSchema['Tables']> =
+  PublicSchema['Tables'][TableName]['Row']
+
+export type TablesInsert<TableName extends keyof PublicSchema['Tables']> =
+  PublicSchema['Tables'][TableName]['Insert']
+
+export type TablesUpdate<TableName extends keyof PublicSchema['Tables']> =
+  PublicSchema['Tables'][TableName]['Update']
@@ -0,0 +1,8 @@
+/**
+ * Reads a server environment variable. Astro and Vitest expose variables on `import.meta.env`,
+ * scripts run with tsx only have `process.env`.
+ */
+export function readServerEnv(name: string): string {
+  const metaEnv = import.meta.env as Record<string, string | undefined> | undefined
+  return metaEnv?.[name] || globalThis.process?.env[name] || ''
+}
@@ -0,0 +1,52 @@
+import type { FormValues } from '../utils/forms'
+
+import type { ContactRequestMeta } from './contact'
+import { getDefaultOrganizationId } from './organizations'
+import { executeQuery } from './turso'
+
+/**
+ * Reads a JSON or form-encoded body, keeping repeated keys (checkbox groups) as lists
+ */
+export async function readFormPayload(
+  request: Request
+): Promise<{ ok: true; value: Record<string, unknown> } | { ok: false; error: Error }> {
+  const contentType = request.headers.get('content-type') ?? ''
+
+  try {
+    if (contentType.includes('application/json')) {
+      const body: unknown = await request.json()
+      if (!body || typeof body !== 'object' || Array.isArray(body)) {
+        return { ok: false, error: new Error('Expected a JSON object') }
+      }
+      return { ok: true, value: body as Record<string, unknown> }
+    }
+
+    const formData = await request.formData()
+    const value: Record<string, unknown> = {}
+    for (const key of new Set(formData.keys())) {
+      const entries = formData.getAll(key).filter(entry => typeof entry === 'string')
+      value[key] = entries.length === 1 ? entries[0] : entries
+    }
+    return { ok: true, value }
+  } catch (error) {
+    return { ok: false, error: error instanceof Error ? error : new Error('Invalid request body') }
+  }
+}
+
+/**
+ * Persists validated values for a form to `form_submissions`, owned by the default organization
+ * @returns The id of the new row
+ */
+export async function createFormSubmission(
+  formId: string,
+  values: FormValues,
+  meta: ContactRequestMeta
+): Promise<number> {
+  const result = await executeQuery(
+    `INSERT INTO form_submissions (form_id, data, ip_address, user_agent, organization_id)
+     VALUES (?, ?, ?, ?, ?)`,
+    [formId, JSON.stringify(values), meta.ipAddress, meta.userAgent, getDefaultOrganizationId()]
+  )
+
+  return Number(result.lastInsertRowid)
+}
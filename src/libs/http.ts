@@ -0,0 +1,81 @@
+/**
+ * JSON response with the given status, for API routes
+ */
+export function jsonResponse(body: Record<string, unknown>, status: number): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+  })
+}
+
+/**
+ * Whether a submission came from script, which expects JSON back, rather than a plain form post
+ */
+export function wantsJson(request: Request): boolean {
+  return (
+    (request.headers.get('accept') ?? '').includes('application/json') ||
+    (request.headers.get('content-type') ?? '').includes('application/json')
+  )
+}
+
+/**
+ * Sends plain form posts back to the page they came from, flagged with an error code. A missing,
+ * malformed or cross-origin Referer header falls back to `fallback`.
+ */
+export function getReturnPath(request: Request, fallback: string, error: string): string {
+  const referer = request.headers.get('referer')
+  let path = fallback
+
+  if (referer) {
+    try {
+      const refererUrl = new URL(referer)
+      if (refererUrl.origin === new URL(request.url).origin) {
+        path = refererUrl.pathname
+      }
+    } catch {
+      // Keep the fallback
+    }
+  }
+
+  return `${path}?error=${error}`
+}
+
+/**
+ * Reads the request body, giving up as soon as it passes `maxBytes`, so a chunked upload without
+ * a Content-Length header cannot be buffered past the limit either
+ * @returns A copy of the request holding the body that was read, or null when it is too large
+ */
+export async function readBodyWithin(request: Request, maxBytes: number): Promise<Request | null> {
+  if (Number(request.headers.get('content-length') ?? 0) > maxBytes) {
+    return null
+  }
+
+  const reader = request.body?.getReader()
+  if (!reader) {
+    return request
+  }
+
+  const chunks: Uint8Array[] = []
+  let size = 0
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    size += value.byteLength
+    if (size > maxBytes) {
+      await reader.cancel()
+      return null
+    }
+    chunks.push(value)
+  }
+
+  const body = new Uint8Array(size)
+  let offset = 0
+  for (const chunk of chunks) {
+    body.set(chunk, offset)
+    offset += chunk.byteLength
+  }
+  return new Request(request.url, { method: request.method, headers: request.headers, body })
+}
@@ -0,0 +1,167 @@
+import { randomBytes } from 'node:crypto'
+import { mkdir, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+
+import { createTransport } from 'nodemailer'
+
+export type MailTransportName = 'smtp' | 'mailbox' | 'none'
+
+export interface MailMessage {
+  from: string
+  to: string[]
+  replyTo?: string | undefined
+  subject: string
+  text: string
+  html: string
+}
+
+/**
+ * Sends a single message, throwing when delivery fails
+ */
+export interface MailTransport {
+  readonly name: MailTransportName
+  send(message: MailMessage): Promise<void>
+}
+
+export interface MailConfig {
+  transport: MailTransportName
+  from: string
+  /** Recipients of new message notifications */
+  notifyTo: string[]
+  mailboxDir: string
+  smtp: {
+    host: string
+    port: number
+    secure: boolean
+    user: string | null
+    pass: string | null
+  }
+}
+
+const readList = (value: string | undefined) =>
+  (value ?? '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+
+const readTransportName = (value: string | undefined, hasSmtpHost: boolean): MailTransportName => {
+  if (value === 'smtp' || value === 'mailbox' || value === 'none') {
+    return value
+  }
+  if (hasSmtpHost) {
+    return 'smtp'
+  }
+  return import.meta.env.DEV ? 'mailbox' : 'none'
+}
+
+/**
+ * Mail settings from the environment. Without MAIL_TRANSPORT, SMTP is used when SMTP_HOST is set,
+ * development writes to the mailbox directory and production sends nothing.
+ */
+export function getMailConfig(): MailConfig {
+  const env = import.meta.env
+  const port = Number(env.SMTP_PORT)
+
+  return {
+    transport: readTransportName(env.MAIL_TRANSPORT, Boolean(env.SMTP_HOST)),
+    from: env.MAIL_FROM || 'Astro Kit <no-reply@localhost>',
+    notifyTo: readList(env.CONTACT_NOTIFY_TO),
+    mailboxDir: env.MAIL_MAILBOX_DIR || '.mailbox',
+    smtp: {
+      host: env.SMTP_HOST ?? '',
+      port: Number.isInteger(port) && port > 0 ? port : 587,
+      secure: env.SMTP_SECURE === 'true',
+      user: env.SMTP_USER || null,
+      pass: env.SMTP_PASS || null,
+    },
+  }
+}
+
+const toMailOptions = (message: MailMessage) => ({
+  from: message.from,
+  to: message.to,
+  replyTo: message.replyTo,
+  subject: message.subject,
+  text: message.text,
+  html: message.html,
+})
+
+/**
+ * Delivers through an SMTP relay
+ */
+export class SmtpMailTransport implements MailTransport {
+  readonly name = 'smtp'
+  private readonly transporter: ReturnType<typeof createTransport>
+
+  constructor(config: MailConfig['smtp']) {
+    if (!config.host) {
+      throw new Error('SMTP_HOST environment variable is required for the smtp mail transport.')
+    }
+
+    this.transporter = createTransport({
+      host: config.host,
+      port: config.port,
+      secure: config.secure,
+      auth: config.user && config.pass ? { user: config.user, pass: config.pass } : undefined,
+      // Keep a slow relay from holding up the contact form response
+      connectionTimeout: 10_000,
+      greetingTimeout: 10_000,
+      socketTimeout: 15_000,
+    })
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail(toMailOptions(message))
+  }
+}
+
+/**
+ * Writes each message to a directory as an `.eml` file, for development and tests
+ */
+export class MailboxDirectoryTransport implements MailTransport {
+  readonly name = 'mailbox'
+  private readonly composer = createTransport({ streamTransport: true, buffer: true })
+
+  constructor(readonly directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const info = await this.composer.sendMail(toMailOptions(message))
+    const fileName = `${Date.now()}-${randomBytes(4).toString('hex')}.eml`
+
+    await mkdir(this.directory, { recursive: true })
+    await writeFile(join(this.directory, fileName), info.message as Buffer)
+  }
+}
+
+/**
+ * Drops every message, used when no transport is configured
+ */
+export class NullMailTransport implements MailTransport {
+  readonly name = 'none'
+
+  async send(): Promise<void> {}
+}
+
+export function createMailTransport(config: MailConfig = getMailConfig()): MailTransport {
+  switch (config.transport) {
+    case 'smtp':
+      return new SmtpMailTransport(config.smtp)
+    case 'mailbox':
+      return new MailboxDirectoryTransport(config.mailboxDir)
+    default:
+      return new NullMailTransport()
+  }
+}
+
+let mailTransport: MailTransport | null = null
+
+export function getMailTransport(): MailTransport {
+  if (!mailTransport) {
+    mailTransport = createMailTransport()
+  }
+  return mailTransport
+}
+
+export function resetMailTransport(): void {
+  mailTransport = null
+}
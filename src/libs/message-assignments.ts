@@ -0,0 +1,161 @@
+import type { Row } from '@libsql/client'
+
+import { getReplyAuthor } from './message-replies'
+import type { ReplyAuthor, ReplyAuthorProfile } from './message-replies'
+import { assertMessageRecordsSupported } from './message-repository'
+import { buildOrganizationWhere } from './organizations'
+import type { OrganizationScope } from './organizations'
+import { executeQuery } from './turso'
+
+export interface MessageAssignment {
+  message_id: number
+  /** Clerk user id of the staff member responsible for the message */
+  assignee_id: string
+  assigned_by: string | null
+  assigned_at: string
+}
+
+/** A staff member messages can be assigned to */
+export type Assignee = ReplyAuthor
+
+export interface AssignedCounts {
+  /** Assigned messages still in the inbox */
+  open: number
+  /** Assigned messages in the inbox that have not been read yet */
+  unread: number
+}
+
+/**
+ * Profile of an organization member from the public user data of a Clerk membership, whose
+ * identifier is usually the email address. Null when Clerk left the user data out.
+ */
+export function toMemberProfile(membership: {
+  publicUserData?:
+    | {
+        userId: string
+        identifier: string
+        firstName: string | null
+        lastName: string | null
+      }
+    | null
+    | undefined
+}): (ReplyAuthorProfile & { id: string }) | null {
+  const user = membership.publicUserData
+  if (!user) return null
+  return {
+    id: user.userId,
+    firstName: user.firstName,
+    lastName: user.lastName,
+    primaryEmailAddress: user.identifier.includes('@') ? { emailAddress: user.identifier } : null,
+  }
+}
+
+/**
+ * Builds the assignee picker from Clerk users, sorted by name, keeping the signed-in user first
+ */
+export function toAssignees(
+  users: readonly (ReplyAuthorProfile & { id: string })[],
+  currentUserId?: string | null
+): Assignee[] {
+  const sortKey = (assignee: Assignee) =>
+    `${assignee.id === currentUserId ? 0 : 1}${(assignee.name ?? assignee.id).toLowerCase()}`
+
+  return users
+    .map(user => getReplyAuthor(user.id, user))
+    .sort((a, b) => sortKey(a).localeCompare(sortKey(b)))
+}
+
+const toNullableString = (value: unknown): string | null =>
+  value === null || value === undefined ? null : String(value)
+
+export function mapMessageAssignmentRow(row: Row): MessageAssignment {
+  return {
+    message_id: Number(row.message_id),
+    assignee_id: String(row.assignee_id),
+    assigned_by: toNullableString(row.assigned_by),
+    assigned_at: String(row.assigned_at),
+  }
+}
+
+export async function getMessageAssignment(messageId: number): Promise<MessageAssignment | null> {
+  const result = await executeQuery('SELECT * FROM message_assignments WHERE message_id = ?', [
+    messageId,
+  ])
+  const row = result.rows[0]
+  return row ? mapMessageAssignmentRow(row) : null
+}
+
+/**
+ * Assignments for each of the given messages, keyed by message id. Unassigned messages are absent.
+ */
+export async function listMessageAssignments(
+  messageIds: number[]
+): Promise<Record<number, MessageAssignment>> {
+  const assignments: Record<number, MessageAssignment> = {}
+  if (messageIds.length === 0) {
+    return assignments
+  }
+
+  const result = await executeQuery(
+    `SELECT * FROM message_assignments
+     WHERE message_id IN (${messageIds.map(() => '?').join(', ')})`,
+    messageIds
+  )
+  for (const row of result.rows) {
+    const assignment = mapMessageAssignmentRow(row)
+    assignments[assignment.message_id] = assignment
+  }
+
+  return assignments
+}
+
+/**
+ * Assigns a message to a staff member, replacing any previous assignee, or unassigns it with null
+ */
+export async function assignMessage(
+  messageId: number,
+  assigneeId: string | null,
+  assignedBy: string
+): Promise<void> {
+  assertMessageRecordsSupported('Assignments')
+  if (assigneeId === null) {
+    await executeQuery('DELETE FROM message_assignments WHERE message_id = ?', [messageId])
+    return
+  }
+
+  await executeQuery(
+    `INSERT INTO message_assignments (message_id, assignee_id, assigned_by)
+     VALUES (?, ?, ?)
+     ON CONFLICT(message_id) DO UPDATE SET
+       assignee_id = excluded.assignee_id,
+       assigned_by = excluded.assigned_by,
+       assigned_at = CURRENT_TIMESTAMP`,
+    [messageId, assigneeId, assignedBy]
+  )
+}
+
+/**
+ * Open and unread counts of the organization's inbox messages assigned to one staff member, for
+ * the dashboard
+ */
+export async function getAssignedCounts(
+  assigneeId: string,
+  organizationId: OrganizationScope
+): Promise<AssignedCounts> {
+  const scope = buildOrganizationWhere(organizationId, 'messages.organization_id')
+  const result = await executeQuery(
+    `SELECT
+       COUNT(*) AS open,
+       COALESCE(SUM(CASE WHEN messages.is_read = 0 THEN 1 ELSE 0 END), 0) AS unread
+     FROM message_assignments
+     JOIN messages ON messages.id = message_assignments.message_id
+     WHERE message_assignments.assignee_id = ? AND messages.is_archived = 0 AND ${scope.where}`,
+    [assigneeId, ...scope.params]
+  )
+  const row = result.rows[0]
+
+  return {
+    open: Number(row?.open ?? 0),
+    unread: Number(row?.unread ?? 0),
+  }
+}
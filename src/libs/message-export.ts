@@ -0,0 +1,119 @@
+import { iterateMessages } from './message-repository'
+import type { MessageRepository } from './message-repository'
+import type { MessageSearch } from './messages'
+import type { Message } from './schema-setup'
+
+export const EXPORT_FORMATS = ['csv', 'json'] as const
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number]
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+}
+
+const EXPORT_COLUMNS = [
+  'id',
+  'name',
+  'email',
+  'phone',
+  'subject',
+  'message',
+  'is_read',
+  'is_archived',
+  'created_at',
+  'updated_at',
+] as const satisfies readonly (keyof Message)[]
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === 'string' && (EXPORT_FORMATS as readonly string[]).includes(value)
+}
+
+/**
+ * Quotes a value for CSV (RFC 4180). Text starting with a formula character is prefixed with a
+ * quote so spreadsheets do not evaluate submitted content.
+ */
+export function escapeCsvValue(value: string | number | boolean | null): string {
+  if (value === null) return ''
+
+  let text = String(value)
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`
+  }
+
+  return /[",\r\n]/.test(text) || text !== text.trim() ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function toCsvRow(values: readonly (string | number | boolean | null)[]): string {
+  return `${values.map(escapeCsvValue).join(',')}\r\n`
+}
+
+const pickColumns = (message: Message) =>
+  Object.fromEntries(EXPORT_COLUMNS.map(column => [column, message[column]]))
+
+/**
+ * Download name such as `messages_2025-01-01_to_2025-01-31.csv`, open ends read `all` and today
+ */
+export function getExportFilename(
+  search: MessageSearch,
+  format: ExportFormat,
+  now: Date = new Date()
+): string {
+  const from = search.from ?? 'all'
+  const to = search.to ?? now.toISOString().slice(0, 10)
+  return `messages_${from}_to_${to}.${format}`
+}
+
+/**
+ * Streams matching messages as CSV or a JSON array without holding the whole table in memory
+ */
+export function createMessageExportStream(
+  search: MessageSearch,
+  format: ExportFormat,
+  repository: MessageRepository,
+  chunkSize?: number
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  const chunks = iterateMessages(search, repository, chunkSize)
+  let started = false
+  let first = true
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        if (!started) {
+          started = true
+          // Byte order mark so spreadsheet apps detect UTF-8
+          controller.enqueue(
+            encoder.encode(format === 'csv' ? `\uFEFF${toCsvRow(EXPORT_COLUMNS)}` : '[')
+          )
+          return
+        }
+
+        const next = await chunks.next()
+        if (next.done) {
+          if (format === 'json') controller.enqueue(encoder.encode(first ? ']\n' : '\n]\n'))
+          controller.close()
+          return
+        }
+
+        const body = next.value
+          .map(message => {
+            if (format === 'csv') {
+              return toCsvRow(EXPORT_COLUMNS.map(column => message[column]))
+            }
+            const prefix = first ? '\n' : ',\n'
+            first = false
+            return `${prefix}${JSON.stringify(pickColumns(message))}`
+          })
+          .join('')
+        controller.enqueue(encoder.encode(body))
+      } catch (error) {
+        controller.error(error)
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined)
+    },
+  })
+}
@@ -0,0 +1,154 @@
+import type { InArgs, Row } from '@libsql/client'
+
+import { assertMessageRecordsSupported } from './message-repository'
+import { buildOrganizationWhere } from './organizations'
+import type { OrganizationId } from './organizations'
+import { executeQuery, executeTransaction } from './turso'
+
+/** Mirrors the CHECK constraint on `labels.name` */
+export const MAX_LABEL_NAME_LENGTH = 50
+
+export interface MessageLabel {
+  id: number
+  name: string
+  /** Labels are only offered on, and attached to, their organization's messages */
+  organization_id: OrganizationId
+  created_at: string
+}
+
+export interface MessageLabelSummary extends MessageLabel {
+  /** Number of messages carrying the label */
+  message_count: number
+}
+
+export type LabelNameResult = { ok: true; value: string } | { ok: false; error: string }
+
+/**
+ * Trims a label name and collapses inner whitespace. Names are unique within an organization,
+ * ignoring case.
+ */
+export function validateLabelName(value: unknown): LabelNameResult {
+  const name = typeof value === 'string' ? value.trim().replace(/\s+/g, ' ') : ''
+  if (!name) {
+    return { ok: false, error: 'Enter a label name' }
+  }
+  if (name.length > MAX_LABEL_NAME_LENGTH) {
+    return { ok: false, error: `Labels are limited to ${MAX_LABEL_NAME_LENGTH} characters` }
+  }
+
+  return { ok: true, value: name }
+}
+
+export function mapLabelRow(row: Row): MessageLabel {
+  return {
+    id: Number(row.id),
+    name: String(row.name),
+    organization_id: row.organization_id === null ? null : String(row.organization_id),
+    created_at: String(row.created_at),
+  }
+}
+
+/**
+ * The organization's labels with the number of messages carrying each, alphabetically
+ */
+export async function listLabels(organizationId: OrganizationId): Promise<MessageLabelSummary[]> {
+  const scope = buildOrganizationWhere(organizationId, 'labels.organization_id')
+  const result = await executeQuery(
+    `SELECT labels.*, COUNT(message_labels.message_id) AS message_count
+     FROM labels
+     LEFT JOIN message_labels ON message_labels.label_id = labels.id
+     WHERE ${scope.where}
+     GROUP BY labels.id
+     ORDER BY labels.name`,
+    scope.params
+  )
+  return result.rows.map(row => ({
+    ...mapLabelRow(row),
+    message_count: Number(row.message_count ?? 0),
+  }))
+}
+
+/**
+ * Creates a label in an organization, or returns the existing one when the organization already
+ * has the name in any case
+ */
+export async function createLabel(
+  name: string,
+  organizationId: OrganizationId
+): Promise<MessageLabel> {
+  // The unique index is on an expression, which an ON CONFLICT target cannot name
+  const result = await executeQuery(
+    `INSERT INTO labels (name, organization_id) VALUES (?, ?)
+     ON CONFLICT DO UPDATE SET name = labels.name
+     RETURNING *`,
+    [name, organizationId]
+  )
+  const row = result.rows[0]
+  if (!row) {
+    throw new Error('Label was not saved')
+  }
+  return mapLabelRow(row)
+}
+
+/**
+ * Deletes one of the organization's labels and removes it from every message
+ * @returns False when the organization has no label with the id
+ */
+export async function deleteLabel(id: number, organizationId: OrganizationId): Promise<boolean> {
+  const result = await executeQuery('DELETE FROM labels WHERE id = ? AND organization_id IS ?', [
+    id,
+    organizationId,
+  ])
+  return result.rowsAffected > 0
+}
+
+/**
+ * Labels for each of the given messages, keyed by message id. Messages without labels are absent.
+ */
+export async function listLabelsForMessages(
+  messageIds: number[]
+): Promise<Record<number, MessageLabel[]>> {
+  const labels: Record<number, MessageLabel[]> = {}
+  if (messageIds.length === 0) {
+    return labels
+  }
+
+  const result = await executeQuery(
+    `SELECT message_labels.message_id, labels.*
+     FROM message_labels
+     JOIN labels ON labels.id = message_labels.label_id
+     WHERE message_labels.message_id IN (${messageIds.map(() => '?').join(', ')})
+     ORDER BY labels.name`,
+    messageIds
+  )
+  for (const row of result.rows) {
+    const messageId = Number(row.message_id)
+    ;(labels[messageId] ??= []).push(mapLabelRow(row))
+  }
+
+  return labels
+}
+
+/**
+ * Replaces the labels on a message. Ids of labels that no longer exist or belong to another
+ * organization than the message are ignored.
+ */
+export async function setMessageLabels(messageId: number, labelIds: number[]): Promise<void> {
+  assertMessageRecordsSupported('Labels')
+  const uniqueIds = [...new Set(labelIds.filter(id => Number.isInteger(id) && id > 0))]
+  const statements: { query: string; params: InArgs }[] = [
+    { query: 'DELETE FROM message_labels WHERE message_id = ?', params: [messageId] },
+  ]
+
+  if (uniqueIds.length > 0) {
+    statements.push({
+      query: `INSERT INTO message_labels (message_id, label_id)
+              SELECT messages.id, labels.id FROM messages
+              JOIN labels ON labels.organization_id IS messages.organization_id
+              WHERE messages.id = ? AND labels.id IN (${uniqueIds.map(() => '?').join(', ')})`,
+      params: [messageId, ...uniqueIds],
+    })
+  }
+
+  await executeTransaction(statements)
+}
@@ -0,0 +1,202 @@
+import type { Row } from '@libsql/client'
+
+import { getDisplayName } from '../utils/user'
+
+import { getMailConfig, getMailTransport } from './mail'
+import type { MailTransport } from './mail'
+import { assertMessageRecordsSupported } from './message-repository'
+import { renderStaffReply } from './notifications'
+import type { Message } from './schema-setup'
+import { executeQuery } from './turso'
+
+export const MESSAGE_REPLY_KINDS = ['reply', 'note'] as const
+
+export type MessageReplyKind = (typeof MESSAGE_REPLY_KINDS)[number]
+
+/** Mirrors the CHECK constraint on `message_replies.body` */
+export const MAX_REPLY_LENGTH = 10000
+
+export interface MessageReply {
+  id: number
+  message_id: number
+  kind: MessageReplyKind
+  body: string
+  author_id: string
+  author_name: string | null
+  /** Null for internal notes, which are never emailed */
+  delivery_status: 'sent' | 'failed' | null
+  delivery_error: string | null
+  created_at: string
+}
+
+export interface ReplyAuthor {
+  id: string
+  name: string | null
+}
+
+/**
+ * The subset of a Clerk user used for attribution
+ */
+export interface ReplyAuthorProfile {
+  firstName?: string | null
+  lastName?: string | null
+  fullName?: string | null
+  username?: string | null
+  primaryEmailAddress?: { emailAddress: string } | null
+}
+
+export type ReplyInputResult =
+  | { ok: true; value: { kind: MessageReplyKind; body: string } }
+  | { ok: false; error: string }
+
+export function isMessageReplyKind(value: unknown): value is MessageReplyKind {
+  return typeof value === 'string' && (MESSAGE_REPLY_KINDS as readonly string[]).includes(value)
+}
+
+export function validateReplyInput(input: { kind?: unknown; body?: unknown }): ReplyInputResult {
+  if (!isMessageReplyKind(input.kind)) {
+    return { ok: false, error: 'Choose whether to send a reply or add a note' }
+  }
+
+  const body = typeof input.body === 'string' ? input.body.trim() : ''
+  if (!body) {
+    return { ok: false, error: 'Please write something first' }
+  }
+  if (body.length > MAX_REPLY_LENGTH) {
+    return { ok: false, error: `Replies are limited to ${MAX_REPLY_LENGTH} characters` }
+  }
+
+  return { ok: true, value: { kind: input.kind, body } }
+}
+
+/**
+ * Builds the author attribution stored with a reply from the signed-in Clerk user
+ */
+export function getReplyAuthor(userId: string, profile: ReplyAuthorProfile | null): ReplyAuthor {
+  if (!profile) {
+    return { id: userId, name: null }
+  }
+
+  const email = profile.primaryEmailAddress?.emailAddress
+  return {
+    id: userId,
+    name: getDisplayName({
+      ...(profile.firstName ? { firstName: profile.firstName } : {}),
+      ...(profile.lastName ? { lastName: profile.lastName } : {}),
+      ...(profile.fullName ? { fullName: profile.fullName } : {}),
+      ...(profile.username ? { username: profile.username } : {}),
+      ...(email ? { email } : {}),
+    }),
+  }
+}
+
+const toNullableString = (value: unknown): string | null =>
+  value === null || value === undefined ? null : String(value)
+
+export function mapMessageReplyRow(row: Row): MessageReply {
+  const status = toNullableString(row.delivery_status)
+
+  return {
+    id: Number(row.id),
+    message_id: Number(row.message_id),
+    kind: row.kind === 'reply' ? 'reply' : 'note',
+    body: String(row.body),
+    author_id: String(row.author_id),
+    author_name: toNullableString(row.author_name),
+    delivery_status: status === 'sent' || status === 'failed' ? status : null,
+    delivery_error: toNullableString(row.delivery_error),
+    created_at: String(row.created_at),
+  }
+}
+
+/**
+ * Replies and notes for a message, oldest first
+ */
+export async function listMessageReplies(messageId: number): Promise<MessageReply[]> {
+  const result = await executeQuery(
+    'SELECT * FROM message_replies WHERE message_id = ? ORDER BY created_at ASC, id ASC',
+    [messageId]
+  )
+  return result.rows.map(mapMessageReplyRow)
+}
+
+export interface AddReplyOptions {
+  transport?: MailTransport
+}
+
+// Stored until the email has gone out, so a reply whose delivery never finished is not shown as sent
+const UNSENT_REPLY_ERROR = 'Delivery did not complete'
+
+/**
+ * Stores a note, or stores a reply and then emails it to the sender. The reply is saved as failed
+ * before sending and updated afterwards, so a reply is never emailed without being stored, and an
+ * interrupted delivery is not reported as sent.
+ */
+export async function addMessageReply(
+  message: Message,
+  input: { kind: MessageReplyKind; body: string },
+  author: ReplyAuthor,
+  options: AddReplyOptions = {}
+): Promise<MessageReply> {
+  assertMessageRecordsSupported('Replies and notes')
+  const isReply = input.kind === 'reply'
+  const result = await executeQuery(
+    `INSERT INTO message_replies
+       (message_id, kind, body, author_id, author_name, delivery_status, delivery_error)
+     VALUES (?, ?, ?, ?, ?, ?, ?)
+     RETURNING *`,
+    [
+      message.id,
+      input.kind,
+      input.body,
+      author.id,
+      author.name,
+      isReply ? 'failed' : null,
+      isReply ? UNSENT_REPLY_ERROR : null,
+    ]
+  )
+
+  const row = result.rows[0]
+  if (!row) {
+    throw new Error('Reply was not saved')
+  }
+  const reply = mapMessageReplyRow(row)
+  if (!isReply) {
+    return reply
+  }
+
+  let delivery: Pick<MessageReply, 'delivery_status' | 'delivery_error'>
+  try {
+    const config = getMailConfig()
+    const transport = options.transport ?? getMailTransport()
+    if (transport.name === 'none') {
+      throw new Error('No mail transport is configured')
+    }
+
+    await transport.send({
+      from: config.from,
+      to: [message.email],
+      replyTo: config.notifyTo[0],
+      ...renderStaffReply(message, input.body),
+    })
+    delivery = { delivery_status: 'sent', delivery_error: null }
+  } catch (error) {
+    delivery = {
+      delivery_status: 'failed',
+      delivery_error: error instanceof Error ? error.message : 'Unknown mail error',
+    }
+  }
+
+  // The email is already out, so a failed status update is logged rather than failing the request
+  // and inviting a second send
+  try {
+    await executeQuery(
+      'UPDATE message_replies SET delivery_status = ?, delivery_error = ? WHERE id = ?',
+      [delivery.delivery_status, delivery.delivery_error, reply.id]
+    )
+  } catch (error) {
+    console.error(`Failed to record delivery of reply ${reply.id}:`, error)
+  }
+
+  return { ...reply, ...delivery }
+}
@@ -0,0 +1,503 @@
+import type { InArgs, InValue, Row } from '@libsql/client'
+
+import { readServerEnv } from './env'
+import {
+  DEFAULT_PAGE_SIZE,
+  MESSAGE_FILTER_CONDITIONS,
+  SNIPPET_CLOSE,
+  SNIPPET_OPEN,
+  buildMessageWhere,
+  parseSnippet,
+  toFtsQuery,
+} from './messages'
+import type {
+  MessageBulkAction,
+  MessageCounts,
+  MessageListOptions,
+  MessageListResult,
+  MessageSearch,
+  MessageSearchResult,
+  SnippetPart,
+} from './messages'
+import { buildOrganizationWhere } from './organizations'
+import type { OrganizationScope } from './organizations'
+import type { Message } from './schema-setup'
+import { SupabaseMessageRepository } from './supabase-message-repository'
+import { executeQuery } from './turso'
+
+/**
+ * Columns supplied when storing a message; flags and timestamps take their defaults. A scoped
+ * repository stores its own organization and ignores `organization_id`.
+ */
+export type NewMessage = Pick<
+  Message,
+  'name' | 'email' | 'subject' | 'message' | 'ip_address' | 'user_agent'
+> &
+  Partial<Pick<Message, 'phone' | 'organization_id'>>
+
+export type MessageFlags = Partial<Pick<Message, 'is_read' | 'is_archived'>>
+
+export interface MessageCursorOptions {
+  search?: MessageSearch
+  limit?: number
+  /** `nextCursor` from the previous page; omit for the newest messages */
+  cursor?: string | null
+}
+
+/** Conditions for {@link MessageRepository.findIds}; every given condition must hold */
+export interface MessageIdCriteria {
+  /** Sender address, matched ignoring case */
+  email?: string
+  archived?: boolean
+  /** `YYYY-MM-DD HH:MM:SS` in UTC, the format of `created_at` */
+  createdBefore?: string
+  /** At most this many ids */
+  limit?: number
+}
+
+export interface MessageCursorPage {
+  messages: Message[]
+  /** Continues after the last message, null when there are no more */
+  nextCursor: string | null
+}
+
+/**
+ * Data access for the `messages` table. Rows are always returned as {@link Message}, with
+ * booleans for the 0/1 flag columns, so callers never handle raw result sets.
+ *
+ * A repository scoped to an organization only reads, updates and deletes that organization's
+ * messages, see {@link getMessageRepository}.
+ */
+export interface MessageRepository {
+  readonly name: string
+  /** Undefined when the repository sees every organization */
+  readonly organizationId: OrganizationScope
+  /** The same repository restricted to one organization, or null for messages outside any */
+  forOrganization(organizationId: OrganizationScope): MessageRepository
+  create(input: NewMessage): Promise<Message>
+  findById(id: number): Promise<Message | null>
+  /** Messages sent from an address, matched ignoring case, oldest first */
+  findByEmail(email: string): Promise<Message[]>
+  /** Ids of matching messages, lowest first, for deleting in chunks */
+  findIds(criteria: MessageIdCriteria): Promise<number[]>
+  /** Newest first with keyset pagination, so deep pages stay cheap and stable under inserts */
+  list(options?: MessageCursorOptions): Promise<MessageCursorPage>
+  /** Newest first by page number, for the numbered inbox */
+  listPage(options?: MessageListOptions): Promise<MessageListResult>
+  /** Ranked full-text search with highlighted snippets, see {@link toFtsQuery} */
+  search(options: MessageListOptions): Promise<MessageSearchResult>
+  countByFilter(): Promise<MessageCounts>
+  /** @returns The number of messages updated */
+  updateFlags(ids: number[], flags: MessageFlags): Promise<number>
+  /** @returns The number of messages deleted */
+  delete(ids: number[]): Promise<number>
+}
+
+const toNullableString = (value: unknown): string | null =>
+  value === null || value === undefined ? null : String(value)
+
+/**
+ * Maps a raw `messages` row to {@link Message}, converting SQLite 0/1 flags to booleans
+ */
+export function mapMessageRow(row: Row): Message {
+  return {
+    id: Number(row.id),
+    name: String(row.name),
+    email: String(row.email),
+    phone: toNullableString(row.phone),
+    subject: toNullableString(row.subject),
+    message: String(row.message),
+    is_read: Boolean(row.is_read),
+    is_archived: Boolean(row.is_archived),
+    ip_address: toNullableString(row.ip_address),
+    user_agent: toNullableString(row.user_agent),
+    organization_id: toNullableString(row.organization_id),
+    created_at: String(row.created_at),
+    updated_at: String(row.updated_at),
+  }
+}
+
+interface MessageCursor {
+  createdAt: string
+  id: number
+}
+
+const CURSOR_DATE_PATTERN = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/
+
+/**
+ * Opaque cursor pointing just after a message in newest-first order
+ */
+export function encodeMessageCursor(message: Pick<Message, 'id' | 'created_at'>): string {
+  return Buffer.from(`${message.created_at}|${message.id}`).toString('base64url')
+}
+
+/**
+ * @returns The position, or null when the cursor is malformed
+ */
+export function decodeMessageCursor(cursor: string): MessageCursor | null {
+  const [createdAt = '', rawId = ''] = Buffer.from(cursor, 'base64url').toString('utf8').split('|')
+  const id = Number(rawId)
+  return CURSOR_DATE_PATTERN.test(createdAt) && Number.isInteger(id) && id > 0
+    ? { createdAt, id }
+    : null
+}
+
+const toIdList = (ids: number[]) => [...new Set(ids.filter(id => Number.isInteger(id) && id > 0))]
+
+const placeholdersFor = (values: readonly unknown[]) => values.map(() => '?').join(', ')
+
+/**
+ * {@link MessageRepository} over the Turso/libSQL client from `./turso`
+ */
+export class TursoMessageRepository implements MessageRepository {
+  readonly name = 'turso'
+  readonly organizationId: OrganizationScope
+
+  constructor(organizationId?: OrganizationScope) {
+    this.organizationId = organizationId
+  }
+
+  forOrganization(organizationId: OrganizationScope): MessageRepository {
+    return new TursoMessageRepository(organizationId)
+  }
+
+  /** Condition and parameters every query adds to stay inside the organization */
+  private get scope() {
+    return buildOrganizationWhere(this.organizationId)
+  }
+
+  async create(input: NewMessage): Promise<Message> {
+    const organizationId =
+      this.organizationId === undefined ? (input.organization_id ?? null) : this.organizationId
+    const result = await executeQuery(
+      `INSERT INTO messages (name, email, phone, subject, message, ip_address, user_agent, organization_id)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+       RETURNING *`,
+      [
+        input.name,
+        input.email,
+        input.phone ?? null,
+        input.subject,
+        input.message,
+        input.ip_address,
+        input.user_agent,
+        organizationId,
+      ]
+    )
+    const row = result.rows[0]
+    if (!row) {
+      throw new Error('Message was not saved')
+    }
+    return mapMessageRow(row)
+  }
+
+  async findById(id: number): Promise<Message | null> {
+    const scope = this.scope
+    const result = await executeQuery(`SELECT * FROM messages WHERE id = ? AND ${scope.where}`, [
+      id,
+      ...scope.params,
+    ])
+    const row = result.rows[0]
+    return row ? mapMessageRow(row) : null
+  }
+
+  async findByEmail(email: string): Promise<Message[]> {
+    const scope = this.scope
+    const result = await executeQuery(
+      `SELECT * FROM messages WHERE lower(email) = ? AND ${scope.where} ORDER BY id ASC`,
+      [email.toLowerCase(), ...scope.params]
+    )
+    return result.rows.map(mapMessageRow)
+  }
+
+  async findIds(criteria: MessageIdCriteria): Promise<number[]> {
+    const scope = this.scope
+    const conditions = [scope.where]
+    const params: InValue[] = [...scope.params]
+    if (criteria.email !== undefined) {
+      conditions.push('lower(email) = ?')
+      params.push(criteria.email.toLowerCase())
+    }
+    if (criteria.archived !== undefined) {
+      conditions.push('is_archived = ?')
+      params.push(criteria.archived ? 1 : 0)
+    }
+    if (criteria.createdBefore !== undefined) {
+      conditions.push('created_at < ?')
+      params.push(criteria.createdBefore)
+    }
+
+    // A negative LIMIT means no limit in SQLite
+    const result = await executeQuery(
+      `SELECT id FROM messages WHERE ${conditions.join(' AND ')} ORDER BY id LIMIT ?`,
+      [...params, criteria.limit === undefined ? -1 : Math.max(0, criteria.limit)]
+    )
+    return result.rows.map(row => Number(row.id))
+  }
+
+  async list(options: MessageCursorOptions = {}): Promise<MessageCursorPage> {
+    const limit = Math.max(1, options.limit ?? DEFAULT_PAGE_SIZE)
+    const { where, params } = this.buildWhere(options.search ?? {})
+    const cursor = options.cursor ? decodeMessageCursor(options.cursor) : null
+    if (options.cursor && !cursor) {
+      throw new Error('Invalid message cursor')
+    }
+
+    const after = cursor ? ' AND (created_at < ? OR (created_at = ? AND id < ?))' : ''
+    const afterParams = cursor ? [cursor.createdAt, cursor.createdAt, cursor.id] : []
+
+    // One extra row tells whether another page follows
+    const result = await executeQuery(
+      `SELECT * FROM messages WHERE ${where}${after} ORDER BY created_at DESC, id DESC LIMIT ?`,
+      [...params, ...afterParams, limit + 1]
+    )
+    const messages = result.rows.slice(0, limit).map(mapMessageRow)
+    const last = messages[messages.length - 1]
+
+    return {
+      messages,
+      nextCursor: result.rows.length > limit && last ? encodeMessageCursor(last) : null,
+    }
+  }
+
+  async listPage(options: MessageListOptions = {}): Promise<MessageListResult> {
+    const pageSize = Math.max(1, options.pageSize ?? DEFAULT_PAGE_SIZE)
+    const { where, params } = this.buildWhere(options)
+
+    const countResult = await executeQuery(
+      `SELECT COUNT(*) AS total FROM messages WHERE ${where}`,
+      params
+    )
+    const total = Number(countResult.rows[0]?.total ?? 0)
+    const totalPages = Math.max(1, Math.ceil(total / pageSize))
+    const page = Math.min(Math.max(1, options.page ?? 1), totalPages)
+
+    const result = await executeQuery(
+      `SELECT * FROM messages WHERE ${where} ORDER BY created_at DESC, id DESC LIMIT ? OFFSET ?`,
+      [...params, pageSize, (page - 1) * pageSize]
+    )
+
+    return {
+      messages: result.rows.map(mapMessageRow),
+      total,
+      page,
+      pageSize,
+      totalPages,
+    }
+  }
+
+  /**
+   * Sender and subject matches weigh more than matches in the body. Without a usable query
+   * this is the same as {@link listPage}.
+   */
+  async search(options: MessageListOptions): Promise<MessageSearchResult> {
+    const { q, ...criteria } = options
+    const match = q ? toFtsQuery(q) : null
+    if (!match) {
+      return { ...(await this.listPage(criteria)), snippets: {} }
+    }
+
+    const pageSize = Math.max(1, options.pageSize ?? DEFAULT_PAGE_SIZE)
+    const { where, params } = this.buildWhere(criteria)
+    const hits = `WITH hits AS (
+      SELECT rowid AS id,
+             bm25(messages_fts, 3.0, 3.0, 2.0, 1.0) AS rank,
+             snippet(messages_fts, -1, ?, ?, '…', 16) AS snippet
+      FROM messages_fts
+      WHERE messages_fts MATCH ?
+    )`
+    const hitParams = [SNIPPET_OPEN, SNIPPET_CLOSE, match]
+
+    const countResult = await executeQuery(
+      `${hits} SELECT COUNT(*) AS total FROM hits JOIN messages ON messages.id = hits.id WHERE ${where}`,
+      [...hitParams, ...params]
+    )
+    const total = Number(countResult.rows[0]?.total ?? 0)
+    const totalPages = Math.max(1, Math.ceil(total / pageSize))
+    const page = Math.min(Math.max(1, options.page ?? 1), totalPages)
+
+    const result = await executeQuery(
+      `${hits}
+       SELECT messages.*, hits.snippet FROM hits JOIN messages ON messages.id = hits.id
+       WHERE ${where}
+       ORDER BY hits.rank, messages.id DESC
+       LIMIT ? OFFSET ?`,
+      [...hitParams, ...params, pageSize, (page - 1) * pageSize]
+    )
+
+    const snippets: Record<number, SnippetPart[]> = {}
+    for (const row of result.rows) {
+      snippets[Number(row.id)] = parseSnippet(String(row.snippet ?? ''))
+    }
+
+    return {
+      messages: result.rows.map(mapMessageRow),
+      total,
+      page,
+      pageSize,
+      totalPages,
+      snippets,
+    }
+  }
+
+  async countByFilter(): Promise<MessageCounts> {
+    const scope = this.scope
+    const result = await executeQuery(
+      `SELECT
+         COALESCE(SUM(CASE WHEN ${MESSAGE_FILTER_CONDITIONS.inbox} THEN 1 ELSE 0 END), 0) AS inbox,
+         COALESCE(SUM(CASE WHEN ${MESSAGE_FILTER_CONDITIONS.unread} THEN 1 ELSE 0 END), 0) AS unread,
+         COALESCE(SUM(CASE WHEN ${MESSAGE_FILTER_CONDITIONS.archived} THEN 1 ELSE 0 END), 0) AS archived
+       FROM messages WHERE ${scope.where}`,
+      scope.params
+    )
+    const row = result.rows[0]
+
+    return {
+      inbox: Number(row?.inbox ?? 0),
+      unread: Number(row?.unread ?? 0),
+      archived: Number(row?.archived ?? 0),
+    }
+  }
+
+  async updateFlags(ids: number[], flags: MessageFlags): Promise<number> {
+    const uniqueIds = toIdList(ids)
+    const columns = (['is_read', 'is_archived'] as const).filter(
+      column => flags[column] !== undefined
+    )
+    if (uniqueIds.length === 0 || columns.length === 0) {
+      return 0
+    }
+
+    const scope = this.scope
+    const params: InArgs = [
+      ...columns.map(column => (flags[column] ? 1 : 0)),
+      ...uniqueIds,
+      ...scope.params,
+    ]
+    const result = await executeQuery(
+      `UPDATE messages SET ${columns.map(column => `${column} = ?`).join(', ')}
+       WHERE id IN (${placeholdersFor(uniqueIds)}) AND ${scope.where}`,
+      params
+    )
+    return result.rowsAffected
+  }
+
+  async delete(ids: number[]): Promise<number> {
+    const uniqueIds = toIdList(ids)
+    if (uniqueIds.length === 0) {
+      return 0
+    }
+
+    const scope = this.scope
+    const result = await executeQuery(
+      `DELETE FROM messages WHERE id IN (${placeholdersFor(uniqueIds)}) AND ${scope.where}`,
+      [...uniqueIds, ...scope.params]
+    )
+    return result.rowsAffected
+  }
+
+  /** {@link buildMessageWhere} plus the organization condition */
+  private buildWhere(search: MessageSearch): { where: string; params: InValue[] } {
+    const { where, params } = buildMessageWhere(search)
+    const scope = this.scope
+    return {
+      where: `${where} AND ${scope.where}`,
+      params: [...params, ...scope.params],
+    }
+  }
+}
+
+export const STORAGE_BACKENDS = ['turso', 'supabase'] as const
+
+export type StorageBackend = (typeof STORAGE_BACKENDS)[number]
+
+/**
+ * Where messages are stored, from STORAGE_BACKEND (default `turso`)
+ */
+export function getStorageBackend(): StorageBackend {
+  const backend = readServerEnv('STORAGE_BACKEND') || 'turso'
+  if (!STORAGE_BACKENDS.includes(backend as StorageBackend)) {
+    throw new Error(`Unsupported STORAGE_BACKEND: ${backend}`)
+  }
+  return backend as StorageBackend
+}
+
+/**
+ * Whether replies, notes, attachments, labels, assignments and notification records can be kept.
+ * They live in Turso tables with foreign keys to `messages`, so they need Turso message storage.
+ */
+export function supportsMessageRecords(): boolean {
+  return getStorageBackend() === 'turso'
+}
+
+/**
+ * Refuses to write records linked to a message unless {@link supportsMessageRecords}
+ * @param feature Plural name for the error message, e.g. `Replies`
+ */
+export function assertMessageRecordsSupported(feature: string): void {
+  if (!supportsMessageRecords()) {
+    throw new Error(`${feature} need the Turso message storage backend`)
+  }
+}
+
+let messageRepository: MessageRepository | null = null
+
+/**
+ * The message repository of the configured {@link getStorageBackend}, scoped to an organization
+ * when one is given. Request handlers pass `Astro.locals.organizationId`; scripts and scheduled
+ * jobs omit it to see every organization.
+ */
+export function getMessageRepository(organizationId?: OrganizationScope): MessageRepository {
+  if (!messageRepository) {
+    messageRepository =
+      getStorageBackend() === 'supabase'
+        ? new SupabaseMessageRepository()
+        : new TursoMessageRepository()
+  }
+  return organizationId === undefined
+    ? messageRepository
+    : messageRepository.forOrganization(organizationId)
+}
+
+export function setMessageRepository(repository: MessageRepository | null): void {
+  messageRepository = repository
+}
+
+const BULK_ACTION_FLAGS: Record<Exclude<MessageBulkAction, 'delete'>, MessageFlags> = {
+  'mark-read': { is_read: true },
+  'mark-unread': { is_read: false },
+  archive: { is_archived: true },
+  unarchive: { is_archived: false },
+}
+
+/**
+ * Applies a bulk inbox flag action to the given message ids. Deleting goes through
+ * `deleteMessages` in privacy.ts instead, which removes the stored attachment files as well.
+ * @returns The number of messages changed
+ */
+export async function applyBulkAction(
+  action: Exclude<MessageBulkAction, 'delete'>,
+  ids: number[],
+  repository: MessageRepository
+): Promise<number> {
+  return repository.updateFlags(ids, BULK_ACTION_FLAGS[action])
+}
+
+/**
+ * Yields every message matching the criteria, newest first, reading `chunkSize` rows at a time
+ */
+export async function* iterateMessages(
+  search: MessageSearch,
+  repository: MessageRepository,
+  chunkSize = 200
+): AsyncGenerator<Message[]> {
+  let cursor: string | null = null
+
+  do {
+    const page: MessageCursorPage = await repository.list({ search, limit: chunkSize, cursor })
+    if (page.messages.length > 0) {
+      yield page.messages
+    }
+    cursor = page.nextCursor
+  } while (cursor)
+}
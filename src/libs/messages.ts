@@ -0,0 +1,233 @@
+import type { Message } from './schema-setup'
+
+export type MessageFilter = 'inbox' | 'unread' | 'archived'
+
+export const MESSAGE_FILTERS: readonly MessageFilter[] = ['inbox', 'unread', 'archived']
+
+export const MESSAGE_BULK_ACTIONS = [
+  'mark-read',
+  'mark-unread',
+  'archive',
+  'unarchive',
+  'delete',
+] as const
+
+export type MessageBulkAction = (typeof MESSAGE_BULK_ACTIONS)[number]
+
+export const DEFAULT_PAGE_SIZE = 20
+
+/** `assignee` search value for messages nobody has picked up */
+export const UNASSIGNED = 'unassigned'
+
+/**
+ * Inbox criteria shared by the message list and exports. Dates are `YYYY-MM-DD` in UTC, inclusive.
+ */
+export interface MessageSearch {
+  filter?: MessageFilter
+  from?: string
+  to?: string
+  email?: string
+  /** Full-text query over sender, subject and body, see {@link toFtsQuery} */
+  q?: string
+  /** Label id */
+  label?: string
+  /** Clerk user id of the assignee, or {@link UNASSIGNED} */
+  assignee?: string
+}
+
+export interface MessageListOptions extends MessageSearch {
+  page?: number
+  pageSize?: number
+}
+
+export interface MessageListResult {
+  messages: Message[]
+  total: number
+  page: number
+  pageSize: number
+  totalPages: number
+}
+
+export interface SnippetPart {
+  text: string
+  /** True for the words that matched the query */
+  match: boolean
+}
+
+export interface MessageSearchResult extends MessageListResult {
+  /** Excerpt around the best match for each message, keyed by message id */
+  snippets: Record<number, SnippetPart[]>
+}
+
+export interface MessageCounts {
+  inbox: number
+  unread: number
+  archived: number
+}
+
+/** SQL condition selecting each inbox filter */
+export const MESSAGE_FILTER_CONDITIONS: Record<MessageFilter, string> = {
+  inbox: 'is_archived = 0',
+  unread: 'is_read = 0 AND is_archived = 0',
+  archived: 'is_archived = 1',
+}
+
+export function isMessageFilter(value: unknown): value is MessageFilter {
+  return typeof value === 'string' && (MESSAGE_FILTERS as readonly string[]).includes(value)
+}
+
+export function isMessageBulkAction(value: unknown): value is MessageBulkAction {
+  return typeof value === 'string' && (MESSAGE_BULK_ACTIONS as readonly string[]).includes(value)
+}
+
+const USER_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/
+
+/**
+ * Shape check for Clerk user ids (`user_...`) arriving from forms and query strings
+ */
+export function isAssigneeId(value: unknown): value is string {
+  return typeof value === 'string' && value !== UNASSIGNED && USER_ID_PATTERN.test(value)
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+const readDate = (value: string | null) =>
+  value && DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(value)) ? value : undefined
+
+/**
+ * Reads inbox criteria from query parameters, dropping anything malformed
+ */
+export function parseMessageSearch(params: URLSearchParams): MessageSearch {
+  const filter = params.get('filter')
+  const email = params.get('email')?.trim()
+  const q = params.get('q')?.trim()
+  const label = params.get('label')
+  const assignee = params.get('assignee')
+  const search: MessageSearch = {}
+
+  if (isMessageFilter(filter)) search.filter = filter
+  const from = readDate(params.get('from'))
+  if (from) search.from = from
+  const to = readDate(params.get('to'))
+  if (to) search.to = to
+  if (email) search.email = email.slice(0, 255)
+  if (q) search.q = q.slice(0, 200)
+  if (label && /^[1-9]\d{0,9}$/.test(label)) search.label = label
+  if (assignee === UNASSIGNED || isAssigneeId(assignee)) search.assignee = assignee
+
+  return search
+}
+
+/**
+ * Serializes inbox criteria back into query parameters for links
+ */
+export function toMessageSearchParams(search: MessageSearch): URLSearchParams {
+  const params = new URLSearchParams()
+  for (const key of ['filter', 'from', 'to', 'email', 'q', 'label', 'assignee'] as const) {
+    const value = search[key]
+    if (value) params.set(key, value)
+  }
+  return params
+}
+
+const MAX_QUERY_TERMS = 16
+
+/**
+ * Turns a search box query into an FTS5 MATCH expression. Words must all match, `"quoted text"`
+ * matches a phrase and a trailing `*` matches a prefix. Every term is quoted, so FTS5 operators
+ * and column filters typed by the user are searched for literally rather than causing errors.
+ * @returns The expression, or null when the query has nothing to search for
+ */
+export function toFtsQuery(input: string): string | null {
+  const terms: string[] = []
+
+  for (const [, phrase, word] of input.matchAll(/"([^"]*)"|(\S+)/g)) {
+    const isPrefix = word !== undefined && word.endsWith('*')
+    const text = (phrase ?? word ?? '').replace(/["*]/g, ' ').trim()
+    if (!/[\p{L}\p{N}]/u.test(text)) continue
+
+    terms.push(`"${text}"${isPrefix ? '*' : ''}`)
+    if (terms.length === MAX_QUERY_TERMS) break
+  }
+
+  return terms.length > 0 ? terms.join(' ') : null
+}
+
+// Control characters do not occur in normal text, so they mark matches without clashing with HTML
+export const SNIPPET_OPEN = '\u0002'
+export const SNIPPET_CLOSE = '\u0003'
+
+/**
+ * Splits an FTS5 snippet into plain and matched parts so it can be rendered without raw HTML
+ */
+export function parseSnippet(snippet: string): SnippetPart[] {
+  const [before = '', ...matches] = snippet.split(SNIPPET_OPEN)
+  const parts: SnippetPart[] = [{ text: before, match: false }]
+
+  for (const segment of matches) {
+    const [match = '', ...rest] = segment.split(SNIPPET_CLOSE)
+    parts.push({ text: match, match: true }, { text: rest.join(''), match: false })
+  }
+
+  return parts.filter(part => part.text !== '')
+}
+
+/**
+ * Builds the WHERE clause for inbox criteria with positional parameters
+ */
+export function buildMessageWhere(search: MessageSearch): { where: string; params: string[] } {
+  const conditions = [MESSAGE_FILTER_CONDITIONS[search.filter ?? 'inbox']]
+  const params: string[] = []
+
+  if (search.from) {
+    conditions.push('created_at >= ?')
+    params.push(`${search.from} 00:00:00`)
+  }
+  if (search.to) {
+    conditions.push("created_at < date(?, '+1 day')")
+    params.push(search.to)
+  }
+  if (search.email) {
+    conditions.push("email LIKE ? ESCAPE '\\'")
+    params.push(`%${search.email.replace(/[\\%_]/g, char => `\\${char}`)}%`)
+  }
+  if (search.label) {
+    conditions.push(
+      'messages.id IN (SELECT message_id FROM message_labels WHERE label_id = CAST(? AS INTEGER))'
+    )
+    params.push(search.label)
+  }
+  if (search.assignee === UNASSIGNED) {
+    conditions.push('messages.id NOT IN (SELECT message_id FROM message_assignments)')
+  } else if (search.assignee) {
+    conditions.push(
+      'messages.id IN (SELECT message_id FROM message_assignments WHERE assignee_id = ?)'
+    )
+    params.push(search.assignee)
+  }
+  const match = search.q ? toFtsQuery(search.q) : null
+  if (match) {
+    conditions.push('id IN (SELECT rowid FROM messages_fts WHERE messages_fts MATCH ?)')
+    params.push(match)
+  }
+
+  return { where: conditions.join(' AND '), params }
+}
+
+/**
+ * Parses a SQLite `CURRENT_TIMESTAMP` value, which is UTC without a zone suffix. ISO strings with
+ * their own offset are accepted as well.
+ */
+export function parseMessageDate(value: string): Date {
+  return new Date(value.includes('T') ? value : `${value.replace(' ', 'T')}Z`)
+}
+
+/**
+ * Formats a SQLite `CURRENT_TIMESTAMP` value (UTC, no zone suffix) for display
+ */
+export function formatMessageDate(value: string): string {
+  const date = parseMessageDate(value)
+  return Number.isNaN(date.getTime())
+    ? value
+    : date.toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' })
+}
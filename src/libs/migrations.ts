@@ -0,0 +1,478 @@
+import { createHash } from 'node:crypto'
+import { existsSync, readFileSync, readdirSync, writeFileSync } from 'node:fs'
+import { basename, join } from 'node:path'
+import { fileURLToPath } from 'node:url'
+
+import { createClient } from '@libsql/client'
+import type { Client } from '@libsql/client'
+
+import { getTursoClient } from './turso'
+
+/** Table recording which migrations ran, with the checksum of the file that was applied */
+export const MIGRATIONS_TABLE = '_migrations'
+
+export const MIGRATIONS_DIR = fileURLToPath(new URL('../../db/migrations', import.meta.url))
+
+// Vite inlines the files into the server bundle, where db/ is not deployed next to the code.
+// Scripts run with tsx have no import.meta.env and read MIGRATIONS_DIR instead.
+const BUNDLED_MIGRATIONS: Record<string, string> | null = import.meta.env
+  ? import.meta.glob<string>('../../db/migrations/*.sql', {
+      query: '?raw',
+      import: 'default',
+      eager: true,
+    })
+  : null
+
+export interface Migration {
+  /** File name without the `.up.sql` suffix, e.g. `001_create_messages_table` */
+  name: string
+  up: string
+  down: string | null
+  checksum: string
+}
+
+export interface AppliedMigration {
+  name: string
+  /** Null for migrations recorded before checksums were stored */
+  checksum: string | null
+  applied_at: string
+}
+
+/**
+ * `modified` migrations were edited after they were applied, `missing` ones were applied but their
+ * file no longer exists
+ */
+export type MigrationState = 'applied' | 'pending' | 'modified' | 'missing'
+
+export interface MigrationStatus {
+  name: string
+  state: MigrationState
+  applied_at: string | null
+}
+
+export interface MigrationOptions {
+  /** Report what would run without changing the database */
+  dryRun?: boolean
+  directory?: string
+  client?: Client
+}
+
+export interface MigrationRunResult {
+  dryRun: boolean
+  /** Migrations applied, or that would be applied in a dry run, in order */
+  applied: string[]
+}
+
+export interface SchemaObject {
+  type: string
+  name: string
+  sql: string
+}
+
+export interface SchemaDiff {
+  /** Objects the migrations create that the database lacks */
+  missing: SchemaObject[]
+  /** Objects in the database that no migration creates */
+  unexpected: SchemaObject[]
+  /** Objects whose definition differs from the migrations */
+  changed: { expected: SchemaObject; actual: SchemaObject }[]
+}
+
+/**
+ * SHA-256 of a migration file, ignoring line-ending differences between platforms
+ */
+export function computeMigrationChecksum(sql: string): string {
+  return createHash('sha256').update(sql.replace(/\r\n/g, '\n')).digest('hex')
+}
+
+const readMigrationFiles = (directory: string): Map<string, string> => {
+  if (existsSync(directory)) {
+    return new Map(
+      readdirSync(directory)
+        .filter(file => file.endsWith('.sql'))
+        .map(file => [file, readFileSync(join(directory, file), 'utf-8')])
+    )
+  }
+
+  return directory === MIGRATIONS_DIR && BUNDLED_MIGRATIONS
+    ? new Map(Object.entries(BUNDLED_MIGRATIONS).map(([path, sql]) => [basename(path), sql]))
+    : new Map()
+}
+
+/**
+ * Reads the `.up.sql` files, and their `.down.sql` counterparts, sorted by name. The default
+ * directory falls back to the copies bundled into the server build.
+ */
+export function loadMigrations(directory: string = MIGRATIONS_DIR): Migration[] {
+  const files = readMigrationFiles(directory)
+
+  return [...files.keys()]
+    .filter(file => file.endsWith('.up.sql'))
+    .sort()
+    .map(file => {
+      const name = file.slice(0, -'.up.sql'.length)
+      const up = files.get(file) ?? ''
+
+      return {
+        name,
+        up,
+        down: files.get(`${name}.down.sql`) ?? null,
+        checksum: computeMigrationChecksum(up),
+      }
+    })
+}
+
+/**
+ * Creates the migrations table, adding the checksum column to tables made by the old runner
+ */
+export async function ensureMigrationsTable(client: Client = getTursoClient()): Promise<void> {
+  await client.execute(`
+    CREATE TABLE IF NOT EXISTS ${MIGRATIONS_TABLE} (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL UNIQUE,
+      checksum TEXT,
+      applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `)
+
+  const columns = await client.execute(`PRAGMA table_info(${MIGRATIONS_TABLE})`)
+  if (!columns.rows.some(column => column.name === 'checksum')) {
+    await client.execute(`ALTER TABLE ${MIGRATIONS_TABLE} ADD COLUMN checksum TEXT`)
+  }
+}
+
+/**
+ * Migrations recorded in the database, oldest first. Empty when the migrations table does not
+ * exist yet, so checking status never modifies the database.
+ */
+export async function getAppliedMigrations(
+  client: Client = getTursoClient()
+): Promise<AppliedMigration[]> {
+  const table = await client.execute({
+    sql: "SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?",
+    args: [MIGRATIONS_TABLE],
+  })
+  if (table.rows.length === 0) {
+    return []
+  }
+
+  const result = await client.execute(`SELECT * FROM ${MIGRATIONS_TABLE} ORDER BY id`)
+
+  return result.rows.map(row => ({
+    name: String(row.name),
+    checksum: row.checksum === null || row.checksum === undefined ? null : String(row.checksum),
+    applied_at: String(row.applied_at),
+  }))
+}
+
+/**
+ * Compares migration files with the migrations table. Applied migrations without a stored checksum
+ * are trusted.
+ */
+export function getMigrationStatus(
+  migrations: readonly Migration[],
+  applied: readonly AppliedMigration[]
+): MigrationStatus[] {
+  const appliedByName = new Map(applied.map(migration => [migration.name, migration]))
+  const fileNames = new Set(migrations.map(migration => migration.name))
+
+  const statuses: MigrationStatus[] = migrations.map(migration => {
+    const record = appliedByName.get(migration.name)
+    if (!record) {
+      return { name: migration.name, state: 'pending', applied_at: null }
+    }
+
+    const modified = record.checksum !== null && record.checksum !== migration.checksum
+    return {
+      name: migration.name,
+      state: modified ? 'modified' : 'applied',
+      applied_at: record.applied_at,
+    }
+  })
+
+  for (const record of applied) {
+    if (!fileNames.has(record.name)) {
+      statuses.push({ name: record.name, state: 'missing', applied_at: record.applied_at })
+    }
+  }
+
+  return statuses
+}
+
+/**
+ * Throws when an applied migration file was edited, since the database no longer matches it
+ */
+export function assertUnmodified(statuses: readonly MigrationStatus[]): void {
+  const modified = statuses.filter(status => status.state === 'modified').map(({ name }) => name)
+
+  if (modified.length > 0) {
+    throw new Error(
+      `Migrations changed after they were applied: ${modified.join(', ')}. Restore the original files and add a new migration instead.`
+    )
+  }
+}
+
+/**
+ * Splits a migration file into statements, keeping trigger bodies whole and dropping comments.
+ * A trigger ends at the END matching its BEGIN, counting CASE ... END expressions inside it.
+ */
+export function splitSqlStatements(sql: string): string[] {
+  const statements: string[] = []
+  let current = ''
+  let quote: string | null = null
+  // BEGIN and CASE blocks opened and not yet closed in the current statement
+  let depth = 0
+
+  for (let index = 0; index < sql.length; index++) {
+    const char = sql[index]!
+
+    if (quote) {
+      current += char
+      if (char === quote) {
+        quote = null
+      }
+    } else if (char === '-' && sql[index + 1] === '-') {
+      const end = sql.indexOf('\n', index)
+      index = end === -1 ? sql.length : end - 1
+    } else if (char === '/' && sql[index + 1] === '*') {
+      const end = sql.indexOf('*/', index + 2)
+      index = end === -1 ? sql.length : end + 1
+      current += ' '
+    } else if (char === "'" || char === '"' || char === '`') {
+      quote = char
+      current += char
+    } else if (/[A-Za-z_]/.test(char) && !/\w/.test(sql[index - 1] ?? '')) {
+      const word = /^\w+/.exec(sql.slice(index))![0]
+      const keyword = word.toUpperCase()
+      if (keyword === 'BEGIN' || keyword === 'CASE') {
+        depth++
+      } else if (keyword === 'END') {
+        depth--
+      }
+      current += word
+      index += word.length - 1
+    } else if (char === ';') {
+      const statement = current.trim()
+      const inTriggerBody =
+        /^CREATE\s+(?:TEMP\s+|TEMPORARY\s+)?TRIGGER\b/i.test(statement) && depth > 0
+
+      if (inTriggerBody) {
+        current += char
+      } else {
+        if (statement) {
+          statements.push(statement)
+        }
+        current = ''
+        depth = 0
+      }
+    } else {
+      current += char
+    }
+  }
+
+  const rest = current.trim()
+  if (rest) {
+    statements.push(rest)
+  }
+
+  return statements
+}
+
+/**
+ * Runs a migration file and updates the migrations table as one write batch, so a failing
+ * statement leaves neither the schema nor the record half applied
+ */
+async function runInTransaction(
+  client: Client,
+  sql: string,
+  record: { sql: string; args: string[] }
+): Promise<void> {
+  await client.batch([...splitSqlStatements(sql), record], 'write')
+}
+
+export async function applyMigration(
+  migration: Migration,
+  client: Client = getTursoClient()
+): Promise<void> {
+  await runInTransaction(client, migration.up, {
+    sql: `INSERT INTO ${MIGRATIONS_TABLE} (name, checksum) VALUES (?, ?)`,
+    args: [migration.name, migration.checksum],
+  })
+}
+
+/**
+ * Applies every pending migration in order. Refuses to run when an applied migration was edited,
+ * and records checksums for migrations applied before they were tracked.
+ */
+export async function runMigrations(options: MigrationOptions = {}): Promise<MigrationRunResult> {
+  const { dryRun = false, directory = MIGRATIONS_DIR, client = getTursoClient() } = options
+  const migrations = loadMigrations(directory)
+  if (!dryRun) {
+    await ensureMigrationsTable(client)
+  }
+  const applied = await getAppliedMigrations(client)
+  const statuses = getMigrationStatus(migrations, applied)
+  assertUnmodified(statuses)
+
+  const pendingNames = new Set(
+    statuses.filter(status => status.state === 'pending').map(({ name }) => name)
+  )
+  const pending = migrations.filter(migration => pendingNames.has(migration.name))
+
+  if (dryRun) {
+    return { dryRun, applied: pending.map(({ name }) => name) }
+  }
+
+  const untracked = applied.filter(record => record.checksum === null)
+  for (const record of untracked) {
+    const migration = migrations.find(({ name }) => name === record.name)
+    if (migration) {
+      await client.execute({
+        sql: `UPDATE ${MIGRATIONS_TABLE} SET checksum = ? WHERE name = ? AND checksum IS NULL`,
+        args: [migration.checksum, migration.name],
+      })
+    }
+  }
+
+  for (const migration of pending) {
+    await applyMigration(migration, client)
+  }
+
+  return { dryRun, applied: pending.map(({ name }) => name) }
+}
+
+/**
+ * Rolls back the most recently applied migration with its `.down.sql` file. Returns the name of
+ * the migration rolled back, or null when none were applied.
+ */
+export async function rollbackLastMigration(
+  options: MigrationOptions = {}
+): Promise<string | null> {
+  const { dryRun = false, directory = MIGRATIONS_DIR, client = getTursoClient() } = options
+  const applied = await getAppliedMigrations(client)
+  const last = applied.at(-1)
+  if (!last) {
+    return null
+  }
+
+  const migration = loadMigrations(directory).find(({ name }) => name === last.name)
+  if (!migration?.down) {
+    throw new Error(`No rollback file found for migration ${last.name}`)
+  }
+
+  if (!dryRun) {
+    await runInTransaction(client, migration.down, {
+      sql: `DELETE FROM ${MIGRATIONS_TABLE} WHERE name = ?`,
+      args: [migration.name],
+    })
+  }
+
+  return migration.name
+}
+
+/**
+ * Writes empty up and down files for a new migration, numbered after the latest one
+ */
+export function createMigrationFiles(
+  name: string,
+  directory: string = MIGRATIONS_DIR,
+  now: Date = new Date()
+): { up: string; down: string } {
+  const latest = loadMigrations(directory).at(-1)
+  const number = (Number.parseInt(latest?.name ?? '0', 10) || 0) + 1
+  const slug = name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+  const fileName = `${String(number).padStart(3, '0')}_${slug}`
+  const created = now.toISOString().slice(0, 10)
+
+  const paths = {
+    up: join(directory, `${fileName}.up.sql`),
+    down: join(directory, `${fileName}.down.sql`),
+  }
+  writeFileSync(paths.up, `-- Migration: ${name}\n-- Created: ${created}\n\n`)
+  writeFileSync(paths.down, `-- Rollback: ${name}\n-- Created: ${created}\n\n`)
+
+  return paths
+}
+
+/**
+ * Canonical form of a `sqlite_master` definition, ignoring comments, whitespace and case
+ */
+export function normalizeSchemaSql(sql: string): string {
+  return sql
+    .replace(/--[^\n]*/g, '')
+    .replace(/\s+/g, ' ')
+    .replace(/\s*([(),;=])\s*/g, '$1')
+    .replace(/\bIF NOT EXISTS /i, '')
+    .trim()
+    .toLowerCase()
+}
+
+/**
+ * Tables, indexes, triggers and views in a database, excluding SQLite internals and the
+ * migrations table
+ */
+export async function readSchemaObjects(
+  client: Client = getTursoClient()
+): Promise<SchemaObject[]> {
+  const result = await client.execute(
+    `SELECT type, name, sql FROM sqlite_master
+     WHERE sql IS NOT NULL AND name NOT LIKE 'sqlite_%' AND name != '${MIGRATIONS_TABLE}'
+     ORDER BY type, name`
+  )
+
+  return result.rows.map(row => ({
+    type: String(row.type),
+    name: String(row.name),
+    sql: String(row.sql),
+  }))
+}
+
+export function diffSchemaObjects(
+  expected: readonly SchemaObject[],
+  actual: readonly SchemaObject[]
+): SchemaDiff {
+  const key = (object: SchemaObject) => `${object.type}:${object.name}`
+  const actualByKey = new Map(actual.map(object => [key(object), object]))
+  const expectedKeys = new Set(expected.map(key))
+  const diff: SchemaDiff = { missing: [], unexpected: [], changed: [] }
+
+  for (const object of expected) {
+    const match = actualByKey.get(key(object))
+    if (!match) {
+      diff.missing.push(object)
+    } else if (normalizeSchemaSql(match.sql) !== normalizeSchemaSql(object.sql)) {
+      diff.changed.push({ expected: object, actual: match })
+    }
+  }
+  diff.unexpected = actual.filter(object => !expectedKeys.has(key(object)))
+
+  return diff
+}
+
+/**
+ * Builds the schema the migrations produce in an in-memory database and compares it with the
+ * live `sqlite_master`
+ */
+export async function diffSchema(
+  options: Omit<MigrationOptions, 'dryRun'> = {}
+): Promise<SchemaDiff> {
+  const { directory = MIGRATIONS_DIR, client = getTursoClient() } = options
+  const scratch = createClient({ url: ':memory:' })
+
+  try {
+    for (const migration of loadMigrations(directory)) {
+      await scratch.batch(splitSqlStatements(migration.up), 'write')
+    }
+    return diffSchemaObjects(await readSchemaObjects(scratch), await readSchemaObjects(client))
+  } finally {
+    scratch.close()
+  }
+}
+
+export function isSchemaDiffEmpty(diff: SchemaDiff): boolean {
+  return diff.missing.length === 0 && diff.unexpected.length === 0 && diff.changed.length === 0
+}
@@ -0,0 +1,289 @@
+import { CONTACT_INFO, SITE_TITLE } from '../utils/site-config'
+
+import type { ContactSubmission } from './contact'
+import { getMailConfig, getMailTransport } from './mail'
+import type { MailMessage, MailTransport } from './mail'
+import { supportsMessageRecords } from './message-repository'
+import { executeQuery, isTursoConfigured } from './turso'
+
+export type NotificationKind = 'new_message' | 'auto_reply'
+
+export type NotificationResult = { status: 'sent' | 'skipped' } | { status: 'failed'; error: Error }
+
+export interface RenderedMail {
+  subject: string
+  text: string
+  html: string
+}
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+}
+
+export const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, char => HTML_ESCAPES[char] ?? char)
+
+// Blank lines separate paragraphs, single line breaks are kept
+const textToHtml = (text: string) =>
+  text
+    .split(/\n{2,}/)
+    .map(paragraph => `<p>${escapeHtml(paragraph).replace(/\n/g, '<br />')}</p>`)
+    .join('\n')
+
+// Header values must stay on one line
+const toHeaderText = (value: string) => value.replace(/[\r\n]+/g, ' ').trim()
+
+/**
+ * Renders the email sent to site owners when a contact message is stored
+ */
+export function renderNewMessageNotification(
+  id: number,
+  submission: ContactSubmission,
+  baseUrl?: string
+): RenderedMail {
+  const inboxPath = `/admin/messages/${id}`
+  const inboxUrl = baseUrl ? new URL(inboxPath, baseUrl).toString() : inboxPath
+  const subject = toHeaderText(
+    `New message from ${submission.name}${submission.subject ? `: ${submission.subject}` : ''}`
+  )
+
+  const fields: [string, string | null][] = [
+    ['Name', submission.name],
+    ['Email', submission.email],
+    ['Phone', submission.phone],
+    ['Subject', submission.subject],
+  ]
+  const present = fields.filter((field): field is [string, string] => Boolean(field[1]))
+
+  const text = [
+    ...present.map(([label, value]) => `${label}: ${value}`),
+    '',
+    submission.message,
+    '',
+    `View in the inbox: ${inboxUrl}`,
+  ].join('\n')
+
+  const html = [
+    '<table>',
+    ...present.map(
+      ([label, value]) => `<tr><th align="left">${label}</th><td>${escapeHtml(value)}</td></tr>`
+    ),
+    '</table>',
+    `<p style="white-space: pre-wrap">${escapeHtml(submission.message)}</p>`,
+    `<p><a href="${escapeHtml(inboxUrl)}">View in the inbox</a></p>`,
+  ].join('\n')
+
+  return { subject, text, html }
+}
+
+export type TemplateValues = Record<string, string | null | undefined>
+
+/**
+ * Replaces `{{key}}` placeholders, unknown keys render as an empty string
+ */
+export function renderTemplate(template: string, values: TemplateValues): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, key: string) => values[key] ?? '')
+}
+
+export interface AutoReplyTemplate {
+  subject: string
+  body: string
+}
+
+/**
+ * Renders the acknowledgement sent to a submitter from a plain text template
+ */
+export function renderAutoReply(
+  submission: ContactSubmission,
+  template: AutoReplyTemplate = CONTACT_INFO.autoReply
+): RenderedMail {
+  const values: TemplateValues = {
+    name: submission.name,
+    email: submission.email,
+    subject: submission.subject ?? 'your message',
+    site: SITE_TITLE,
+  }
+
+  const text = renderTemplate(template.body, values).trim()
+
+  return {
+    subject: toHeaderText(renderTemplate(template.subject, values)),
+    text,
+    html: textToHtml(text),
+  }
+}
+
+/**
+ * Renders a staff reply to a message, quoting the original below the reply
+ */
+export function renderStaffReply(
+  original: Pick<ContactSubmission, 'subject' | 'message'> & { created_at: string },
+  body: string
+): RenderedMail {
+  const reply = body.trim()
+  const quoted = original.message
+    .split('\n')
+    .map(line => `> ${line}`)
+    .join('\n')
+  const sentOn = `On ${original.created_at} UTC you wrote:`
+
+  return {
+    subject: toHeaderText(`Re: ${original.subject || `Your message to ${SITE_TITLE}`}`),
+    text: `${reply}\n\n${sentOn}\n${quoted}`,
+    html: [
+      textToHtml(reply),
+      `<p>${escapeHtml(sentOn)}</p>`,
+      `<blockquote style="white-space: pre-wrap">${escapeHtml(original.message)}</blockquote>`,
+    ].join('\n'),
+  }
+}
+
+// Outcomes refer to the message by id, so they are only kept when messages are in Turso too
+const canRecordNotifications = () => isTursoConfigured() && supportsMessageRecords()
+
+/**
+ * Whether a notification of this kind was already delivered for the message
+ */
+export async function hasSentNotification(
+  messageId: number,
+  kind: NotificationKind
+): Promise<boolean> {
+  const result = await executeQuery(
+    `SELECT 1 FROM message_notifications
+     WHERE message_id = ? AND kind = ? AND status = 'sent' LIMIT 1`,
+    [messageId, kind]
+  )
+  return result.rows.length > 0
+}
+
+/**
+ * Stores the outcome of a notification in `message_notifications`. Never throws.
+ */
+export async function recordNotification(
+  messageId: number,
+  kind: NotificationKind,
+  recipients: string[],
+  result: NotificationResult
+): Promise<void> {
+  const error = result.status === 'failed' ? result.error.message : null
+
+  if (!canRecordNotifications()) {
+    if (error) console.warn(`Notification ${kind} for message ${messageId} failed: ${error}`)
+    return
+  }
+
+  try {
+    // Auto-replies keep a single row per message, so a failed attempt is overwritten by its retry
+    await executeQuery(
+      `INSERT INTO message_notifications (message_id, kind, recipients, status, error)
+       VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT (message_id) WHERE kind = 'auto_reply' DO UPDATE SET
+         recipients = excluded.recipients,
+         status = excluded.status,
+         error = excluded.error,
+         created_at = CURRENT_TIMESTAMP`,
+      [messageId, kind, recipients.join(', '), result.status, error]
+    )
+  } catch (recordError) {
+    console.error('Failed to record notification:', recordError)
+  }
+}
+
+export interface NotifyOptions {
+  transport?: MailTransport
+  recipients?: string[]
+  from?: string
+  baseUrl?: string
+}
+
+/**
+ * Emails the configured recipients about a new message. Failures are recorded, never thrown,
+ * so a broken mail relay cannot lose a submission that is already stored.
+ */
+export async function notifyNewMessage(
+  id: number,
+  submission: ContactSubmission,
+  options: NotifyOptions = {}
+): Promise<NotificationResult> {
+  let result: NotificationResult
+  let recipients: string[] = []
+
+  try {
+    const config = getMailConfig()
+    const transport = options.transport ?? getMailTransport()
+    recipients = options.recipients ?? config.notifyTo
+
+    if (transport.name === 'none' || recipients.length === 0) {
+      return { status: 'skipped' }
+    }
+
+    const message: MailMessage = {
+      from: options.from ?? config.from,
+      to: recipients,
+      replyTo: submission.email,
+      ...renderNewMessageNotification(id, submission, options.baseUrl ?? import.meta.env.SITE),
+    }
+
+    await transport.send(message)
+    result = { status: 'sent' }
+  } catch (error) {
+    result = {
+      status: 'failed',
+      error: error instanceof Error ? error : new Error('Unknown mail error'),
+    }
+  }
+
+  await recordNotification(id, 'new_message', recipients, result)
+  return result
+}
+
+export interface AutoReplyOptions {
+  transport?: MailTransport
+  from?: string
+  template?: AutoReplyTemplate
+  enabled?: boolean
+}
+
+/**
+ * Acknowledges a submission to its sender at most once per message. Never throws.
+ */
+export async function sendAutoReply(
+  id: number,
+  submission: ContactSubmission,
+  options: AutoReplyOptions = {}
+): Promise<NotificationResult> {
+  let result: NotificationResult
+  const recipients = [submission.email]
+
+  try {
+    const config = getMailConfig()
+    const transport = options.transport ?? getMailTransport()
+
+    if (!(options.enabled ?? CONTACT_INFO.autoReply.enabled) || transport.name === 'none') {
+      return { status: 'skipped' }
+    }
+    if (canRecordNotifications() && (await hasSentNotification(id, 'auto_reply'))) {
+      return { status: 'skipped' }
+    }
+
+    await transport.send({
+      from: options.from ?? config.from,
+      to: recipients,
+      replyTo: config.notifyTo[0],
+      ...renderAutoReply(submission, options.template),
+    })
+    result = { status: 'sent' }
+  } catch (error) {
+    result = {
+      status: 'failed',
+      error: error instanceof Error ? error : new Error('Unknown mail error'),
+    }
+  }
+
+  await recordNotification(id, 'auto_reply', recipients, result)
+  return result
+}
@@ -0,0 +1,66 @@
+import type { InValue } from '@libsql/client'
+
+import { readServerEnv } from './env'
+
+/**
+ * Clerk organization a record belongs to, null for records stored outside any organization
+ */
+export type OrganizationId = string | null
+
+/**
+ * The organization whose records a request may see: an organization id, null for records outside
+ * any organization, or undefined for unscoped access from scripts and scheduled jobs
+ */
+export type OrganizationScope = OrganizationId | undefined
+
+/**
+ * The active organization of a Clerk session, null for personal accounts and signed-out visitors
+ */
+export function resolveOrganizationId(auth: { orgId?: string | null | undefined }): OrganizationId {
+  return auth.orgId || null
+}
+
+/**
+ * Clerk user ids allowed into the admin area without an active organization, from the
+ * comma-separated ADMIN_USER_IDS. Only they see records stored outside any organization.
+ */
+export function getAdminUserIds(): string[] {
+  return (readServerEnv('ADMIN_USER_IDS') ?? '')
+    .split(',')
+    .map(id => id.trim())
+    .filter(Boolean)
+}
+
+/**
+ * Whether a session may use the admin area. Members of an active organization see its records;
+ * a personal account must be listed in ADMIN_USER_IDS, so signing up alone never opens the
+ * records stored outside any organization.
+ */
+export function canAccessAdmin(auth: {
+  userId?: string | null | undefined
+  orgId?: string | null | undefined
+}): boolean {
+  if (!auth.userId) return false
+  return Boolean(auth.orgId) || getAdminUserIds().includes(auth.userId)
+}
+
+/**
+ * Organization that receives public contact and form submissions, from DEFAULT_ORGANIZATION_ID.
+ * Null when unset, so submissions show up for the ADMIN_USER_IDS without an active organization.
+ */
+export function getDefaultOrganizationId(): OrganizationId {
+  return readServerEnv('DEFAULT_ORGANIZATION_ID') || null
+}
+
+/**
+ * SQL condition restricting rows to a scope. `IS` matches null organization ids too; an
+ * undefined scope matches every row.
+ */
+export function buildOrganizationWhere(
+  scope: OrganizationScope,
+  column = 'organization_id'
+): { where: string; params: InValue[] } {
+  return scope === undefined
+    ? { where: '1 = 1', params: [] }
+    : { where: `${column} IS ?`, params: [scope] }
+}
@@ -0,0 +1,411 @@
+import type { Row } from '@libsql/client'
+
+import { CONTACT_FORM_SCHEMA } from '../utils/contact'
+
+import { mapAttachmentRow } from './attachments'
+import type { MessageAttachment } from './attachments'
+import { readServerEnv } from './env'
+import { mapMessageReplyRow } from './message-replies'
+import type { MessageReply } from './message-replies'
+import { getMessageRepository, supportsMessageRecords } from './message-repository'
+import type { MessageIdCriteria } from './message-repository'
+import { buildOrganizationWhere } from './organizations'
+import type { OrganizationScope } from './organizations'
+import type { Message } from './schema-setup'
+import { getStorageAdapter } from './storage'
+import type { StorageAdapter } from './storage'
+import { executeQuery } from './turso'
+import { WEBHOOK_DELIVERY_RETENTION_DAYS, pruneWebhookDeliveries } from './webhooks'
+import type { WebhookDeliveryStatus } from './webhooks'
+
+export interface RetentionPolicy {
+  /** Days after which IP addresses and user agents are cleared, null keeps them */
+  anonymizeAfterDays: number | null
+  /** Days after which archived messages are deleted with their replies and files, null keeps them */
+  deleteArchivedAfterDays: number | null
+  /** Days after which finished webhook deliveries, which copy message contents, are deleted */
+  deleteWebhookDeliveriesAfterDays: number | null
+}
+
+export interface RetentionOptions {
+  /** Count what would change without modifying anything */
+  dryRun?: boolean
+  now?: Date
+  storage?: StorageAdapter
+}
+
+export interface PersonalDataOptions {
+  /** Organization whose records are covered, undefined for every organization */
+  organizationId?: OrganizationScope
+  now?: Date
+  storage?: StorageAdapter
+}
+
+export interface RetentionResult {
+  dryRun: boolean
+  anonymized: { messages: number; formSubmissions: number; spamLog: number }
+  expiredRateLimits: number
+  deletedMessages: number
+  deletedAttachments: number
+  deletedWebhookDeliveries: number
+}
+
+export interface PersonalDataMessage extends Message {
+  replies: MessageReply[]
+  /** File metadata only, the files themselves are downloaded from the admin inbox */
+  attachments: MessageAttachment[]
+}
+
+export interface PersonalFormSubmission {
+  id: number
+  form_id: string
+  data: unknown
+  ip_address: string | null
+  user_agent: string | null
+  created_at: string
+}
+
+/** A webhook event sent to a third-party endpoint with the person's details in its payload */
+export interface PersonalWebhookDelivery {
+  id: number
+  subscription_id: number
+  event: string
+  payload: unknown
+  status: WebhookDeliveryStatus
+  created_at: string
+}
+
+export interface PersonalDataExport {
+  email: string
+  exported_at: string
+  messages: PersonalDataMessage[]
+  form_submissions: PersonalFormSubmission[]
+  webhook_deliveries: PersonalWebhookDelivery[]
+}
+
+export interface ErasureResult {
+  deletedMessages: number
+  deletedAttachments: number
+  deletedFormSubmissions: number
+  deletedWebhookDeliveries: number
+}
+
+/** Tables storing the submitter's IP address and user agent */
+const ANONYMIZED_TABLES = {
+  messages: 'messages',
+  formSubmissions: 'form_submissions',
+  spamLog: 'spam_log',
+} as const
+
+const DELETE_CHUNK_SIZE = 200
+
+// Submissions store each field as a top-level JSON value, so any field holding the address matches
+const FORM_SUBMISSION_EMAIL_MATCH = `EXISTS (
+  SELECT 1 FROM json_each(form_submissions.data) WHERE lower(json_each.value) = ?
+)`
+
+// Message events carry the sender's address, form events the submitted fields
+const WEBHOOK_DELIVERY_EMAIL_MATCH = `(
+  lower(json_extract(webhook_deliveries.payload, '$.data.message.email')) = ?1
+  OR EXISTS (
+    SELECT 1 FROM json_each(webhook_deliveries.payload, '$.data.submission.data')
+    WHERE lower(json_each.value) = ?1
+  )
+)`
+
+const readDays = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value)
+  const days = value && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback
+  return days > 0 ? days : null
+}
+
+/**
+ * Policy from RETENTION_ANONYMIZE_DAYS (default 90), RETENTION_DELETE_ARCHIVED_DAYS (default 365)
+ * and RETENTION_WEBHOOK_DELIVERY_DAYS (default 30). Set any of them to 0 to turn that step off.
+ */
+export function getRetentionPolicy(): RetentionPolicy {
+  return {
+    anonymizeAfterDays: readDays(readServerEnv('RETENTION_ANONYMIZE_DAYS'), 90),
+    deleteArchivedAfterDays: readDays(readServerEnv('RETENTION_DELETE_ARCHIVED_DAYS'), 365),
+    deleteWebhookDeliveriesAfterDays: readDays(
+      readServerEnv('RETENTION_WEBHOOK_DELIVERY_DAYS'),
+      WEBHOOK_DELIVERY_RETENTION_DAYS
+    ),
+  }
+}
+
+/**
+ * Formats a date the way SQLite's CURRENT_TIMESTAMP stores `created_at`
+ */
+export function toSqlTimestamp(date: Date): string {
+  return date.toISOString().replace('T', ' ').slice(0, 19)
+}
+
+const daysBefore = (now: Date, days: number) => new Date(now.getTime() - days * 86_400_000)
+
+export function normalizeEmail(value: unknown): string | null {
+  const email = typeof value === 'string' ? value.trim().toLowerCase() : ''
+  return CONTACT_FORM_SCHEMA.email.pattern.test(email) ? email : null
+}
+
+const countRows = async (table: string, where: string, params: (string | number)[]) => {
+  const result = await executeQuery(`SELECT COUNT(*) AS count FROM ${table} WHERE ${where}`, params)
+  return Number(result.rows[0]?.count ?? 0)
+}
+
+/**
+ * Deletes messages and their stored files, for bulk deletes from the inbox as well as retention
+ * and erasure. Replies, notifications and attachment rows go with the message through ON DELETE
+ * CASCADE. Files are removed after the rows, so a failure leaves an orphaned file rather than a
+ * row pointing at nothing. Ids outside the organization are ignored, files included.
+ */
+export async function deleteMessages(
+  ids: number[],
+  storage: StorageAdapter,
+  organizationId: OrganizationScope
+): Promise<{ deletedMessages: number; deletedAttachments: number }> {
+  const uniqueIds = [...new Set(ids.filter(id => Number.isInteger(id) && id > 0))]
+  if (uniqueIds.length === 0) {
+    return { deletedMessages: 0, deletedAttachments: 0 }
+  }
+
+  // Attachments are only kept when messages are stored in Turso too
+  const placeholders = uniqueIds.map(() => '?').join(', ')
+  const scope = buildOrganizationWhere(organizationId, 'messages.organization_id')
+  const attachments = supportsMessageRecords()
+    ? await executeQuery(
+        `SELECT message_attachments.storage_key FROM message_attachments
+         JOIN messages ON messages.id = message_attachments.message_id
+         WHERE message_attachments.message_id IN (${placeholders}) AND ${scope.where}`,
+        [...uniqueIds, ...scope.params]
+      )
+    : { rows: [] }
+  const keys = attachments.rows.map(row => String(row.storage_key))
+
+  const deletedMessages = await getMessageRepository(organizationId).delete(uniqueIds)
+
+  const removals = await Promise.allSettled(keys.map(key => storage.delete(key)))
+  removals.forEach((removal, index) => {
+    if (removal.status === 'rejected') {
+      console.error(`Failed to delete attachment file ${keys[index]}:`, removal.reason)
+    }
+  })
+
+  return { deletedMessages, deletedAttachments: keys.length }
+}
+
+/**
+ * Counts what {@link deleteMessagesWhere} would delete, for dry runs
+ */
+async function countMessagesWhere(
+  criteria: MessageIdCriteria,
+  organizationId: OrganizationScope
+): Promise<{ deletedMessages: number; deletedAttachments: number }> {
+  const ids = await getMessageRepository(organizationId).findIds(criteria)
+  const withAttachments = supportsMessageRecords() ? ids : []
+  let deletedAttachments = 0
+  for (let start = 0; start < withAttachments.length; start += DELETE_CHUNK_SIZE) {
+    const chunk = withAttachments.slice(start, start + DELETE_CHUNK_SIZE)
+    deletedAttachments += await countRows(
+      'message_attachments',
+      `message_id IN (${chunk.map(() => '?').join(', ')})`,
+      chunk
+    )
+  }
+  return { deletedMessages: ids.length, deletedAttachments }
+}
+
+/**
+ * Deletes every message matching the criteria, a chunk at a time. Ids come from the message
+ * repository, so this works with either storage backend.
+ */
+async function deleteMessagesWhere(
+  criteria: MessageIdCriteria,
+  storage: StorageAdapter,
+  organizationId: OrganizationScope
+): Promise<{ deletedMessages: number; deletedAttachments: number }> {
+  const totals = { deletedMessages: 0, deletedAttachments: 0 }
+  const repository = getMessageRepository(organizationId)
+
+  for (;;) {
+    const ids = await repository.findIds({ ...criteria, limit: DELETE_CHUNK_SIZE })
+    const deleted = await deleteMessages(ids, storage, organizationId)
+    totals.deletedMessages += deleted.deletedMessages
+    totals.deletedAttachments += deleted.deletedAttachments
+
+    if (ids.length < DELETE_CHUNK_SIZE) return totals
+  }
+}
+
+/**
+ * Clears network details and deletes old archived messages according to the policy. Ages are
+ * measured from `created_at`, since archiving does not record when it happened.
+ */
+export async function applyRetentionPolicy(
+  policy: RetentionPolicy = getRetentionPolicy(),
+  options: RetentionOptions = {}
+): Promise<RetentionResult> {
+  const { dryRun = false, now = new Date() } = options
+  const result: RetentionResult = {
+    dryRun,
+    anonymized: { messages: 0, formSubmissions: 0, spamLog: 0 },
+    expiredRateLimits: 0,
+    deletedMessages: 0,
+    deletedAttachments: 0,
+    deletedWebhookDeliveries: 0,
+  }
+
+  if (policy.anonymizeAfterDays !== null) {
+    const cutoff = daysBefore(now, policy.anonymizeAfterDays)
+    const where = 'created_at < ? AND (ip_address IS NOT NULL OR user_agent IS NOT NULL)'
+    const params = [toSqlTimestamp(cutoff)]
+
+    for (const [name, table] of Object.entries(ANONYMIZED_TABLES)) {
+      result.anonymized[name as keyof typeof ANONYMIZED_TABLES] = dryRun
+        ? await countRows(table, where, params)
+        : (
+            await executeQuery(
+              `UPDATE ${table} SET ip_address = NULL, user_agent = NULL WHERE ${where}`,
+              params
+            )
+          ).rowsAffected
+    }
+
+    // Rate limit keys contain the IP address, and windows this old no longer limit anything
+    const windowParams = [cutoff.getTime()]
+    result.expiredRateLimits = dryRun
+      ? await countRows('rate_limits', 'window_start < ?', windowParams)
+      : (await executeQuery('DELETE FROM rate_limits WHERE window_start < ?', windowParams))
+          .rowsAffected
+  }
+
+  if (policy.deleteArchivedAfterDays !== null) {
+    const criteria: MessageIdCriteria = {
+      archived: true,
+      createdBefore: toSqlTimestamp(daysBefore(now, policy.deleteArchivedAfterDays)),
+    }
+
+    Object.assign(
+      result,
+      dryRun
+        ? await countMessagesWhere(criteria, undefined)
+        : await deleteMessagesWhere(criteria, options.storage ?? getStorageAdapter(), undefined)
+    )
+  }
+
+  if (policy.deleteWebhookDeliveriesAfterDays !== null) {
+    result.deletedWebhookDeliveries = await pruneWebhookDeliveries(
+      policy.deleteWebhookDeliveriesAfterDays,
+      { dryRun, now }
+    )
+  }
+
+  return result
+}
+
+const mapFormSubmissionRow = (row: Row): PersonalFormSubmission => ({
+  id: Number(row.id),
+  form_id: String(row.form_id),
+  data: JSON.parse(String(row.data)),
+  ip_address: row.ip_address === null ? null : String(row.ip_address),
+  user_agent: row.user_agent === null ? null : String(row.user_agent),
+  created_at: String(row.created_at),
+})
+
+const mapWebhookDeliveryRow = (row: Row): PersonalWebhookDelivery => ({
+  id: Number(row.id),
+  subscription_id: Number(row.subscription_id),
+  event: String(row.event),
+  payload: JSON.parse(String(row.payload)),
+  status: String(row.status) as WebhookDeliveryStatus,
+  created_at: String(row.created_at),
+})
+
+/**
+ * Collects everything stored about an email address to answer a data access request. Request
+ * handlers pass the admin's organization, so only its records are included.
+ */
+export async function exportPersonalData(
+  email: string,
+  options: PersonalDataOptions = {}
+): Promise<PersonalDataExport> {
+  const { organizationId, now = new Date() } = options
+  const address = email.toLowerCase()
+  const messageScope = buildOrganizationWhere(organizationId, 'messages.organization_id')
+  const scope = buildOrganizationWhere(organizationId)
+  const [messages, replies, attachments, submissions, deliveries] = await Promise.all([
+    getMessageRepository(organizationId).findByEmail(address),
+    executeQuery(
+      `SELECT message_replies.* FROM message_replies
+       JOIN messages ON messages.id = message_replies.message_id
+       WHERE lower(messages.email) = ? AND ${messageScope.where}
+       ORDER BY message_replies.id ASC`,
+      [address, ...messageScope.params]
+    ),
+    executeQuery(
+      `SELECT message_attachments.* FROM message_attachments
+       JOIN messages ON messages.id = message_attachments.message_id
+       WHERE lower(messages.email) = ? AND ${messageScope.where}
+       ORDER BY message_attachments.id ASC`,
+      [address, ...messageScope.params]
+    ),
+    executeQuery(
+      `SELECT * FROM form_submissions
+       WHERE ${FORM_SUBMISSION_EMAIL_MATCH} AND ${scope.where}
+       ORDER BY id ASC`,
+      [address, ...scope.params]
+    ),
+    executeQuery(
+      `SELECT * FROM webhook_deliveries
+       WHERE ${WEBHOOK_DELIVERY_EMAIL_MATCH} AND ${scope.where}
+       ORDER BY id ASC`,
+      [address, ...scope.params]
+    ),
+  ])
+
+  const replyRows = replies.rows.map(mapMessageReplyRow)
+  const attachmentRows = attachments.rows.map(mapAttachmentRow)
+
+  return {
+    email: address,
+    exported_at: now.toISOString(),
+    messages: messages.map(message => ({
+      ...message,
+      replies: replyRows.filter(reply => reply.message_id === message.id),
+      attachments: attachmentRows.filter(attachment => attachment.message_id === message.id),
+    })),
+    form_submissions: submissions.rows.map(mapFormSubmissionRow),
+    webhook_deliveries: deliveries.rows.map(mapWebhookDeliveryRow),
+  }
+}
+
+/**
+ * Permanently deletes every message and form submission from an email address, along with
+ * their replies, notification records, attachment files and the webhook deliveries that copied
+ * them. Deliveries still pending are deleted too, so they are never sent. Request handlers pass
+ * the admin's organization, so other organizations' records are left alone.
+ */
+export async function erasePersonalData(
+  email: string,
+  options: PersonalDataOptions = {}
+): Promise<ErasureResult> {
+  const { organizationId, storage = getStorageAdapter() } = options
+  const address = email.toLowerCase()
+  const deleted = await deleteMessagesWhere({ email: address }, storage, organizationId)
+  const scope = buildOrganizationWhere(organizationId)
+  const submissions = await executeQuery(
+    `DELETE FROM form_submissions WHERE ${FORM_SUBMISSION_EMAIL_MATCH} AND ${scope.where}`,
+    [address, ...scope.params]
+  )
+
+  const deliveries = await executeQuery(
+    `DELETE FROM webhook_deliveries WHERE ${WEBHOOK_DELIVERY_EMAIL_MATCH} AND ${scope.where}`,
+    [address, ...scope.params]
+  )
+
+  return {
+    ...deleted,
+    deletedFormSubmissions: submissions.rowsAffected,
+    deletedWebhookDeliveries: deliveries.rowsAffected,
+  }
+}
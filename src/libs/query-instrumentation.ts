@@ -0,0 +1,198 @@
+import type { InArgs, InValue, ResultSet } from '@libsql/client'
+
+import { readServerEnv } from './env'
+
+export type QueryKind = 'query' | 'transaction'
+
+/** A parameter value safe to log: numbers, booleans and null as-is, anything else as a placeholder */
+export type RedactedValue = number | boolean | null | string
+
+export type RedactedArgs = RedactedValue[] | Record<string, RedactedValue>
+
+export interface QueryStatement {
+  sql: string
+  params?: InArgs | undefined
+}
+
+export interface QueryEvent {
+  kind: QueryKind
+  /** The statement of a query, or every statement of a transaction, with parameters redacted */
+  statements: { sql: string; params: RedactedArgs }[]
+  /** Wall-clock time including retries */
+  durationMs: number
+  /** Rows returned, summed over the statements of a transaction */
+  rows: number
+  rowsAffected: number
+  error: Error | null
+}
+
+export type QueryListener = (event: QueryEvent) => void
+
+/** Queries at least this slow are logged when DB_SLOW_QUERY_MS is not set */
+export const DEFAULT_SLOW_QUERY_MS = 500
+
+const listeners = new Set<QueryListener>()
+
+/**
+ * Registers a listener called after every `executeQuery` and `executeTransaction`, successful or
+ * not. Returns a function that removes it.
+ */
+export function onQuery(listener: QueryListener): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+/**
+ * Slow-query threshold from DB_SLOW_QUERY_MS, 0 turns the slow-query log off
+ */
+export function getSlowQueryThresholdMs(): number {
+  const value = readServerEnv('DB_SLOW_QUERY_MS')
+  const threshold = value === '' ? DEFAULT_SLOW_QUERY_MS : Number(value)
+  return Number.isFinite(threshold) && threshold >= 0 ? threshold : DEFAULT_SLOW_QUERY_MS
+}
+
+const redactValue = (value: InValue): RedactedValue => {
+  if (value === null || typeof value === 'number' || typeof value === 'boolean') {
+    return value
+  }
+  if (typeof value === 'bigint') {
+    return String(value)
+  }
+  if (typeof value === 'string') {
+    return `[string(${value.length})]`
+  }
+  if (value instanceof Date) {
+    return '[date]'
+  }
+  return `[blob(${value.byteLength})]`
+}
+
+/**
+ * Replaces string, date and binary parameters with placeholders so logs and traces never contain
+ * message contents or email addresses
+ */
+export function redactParams(params?: InArgs): RedactedArgs {
+  if (!params) {
+    return []
+  }
+  if (Array.isArray(params)) {
+    return params.map(redactValue)
+  }
+  return Object.fromEntries(
+    Object.entries(params as Record<string, InValue>).map(([key, value]) => [
+      key,
+      redactValue(value),
+    ])
+  )
+}
+
+/** SQL on one line, shortened for logs and span names */
+export function summarizeSql(sql: string, maxLength = 200): string {
+  const compact = sql.replace(/\s+/g, ' ').trim()
+  return compact.length > maxLength ? `${compact.slice(0, maxLength - 1)}…` : compact
+}
+
+/**
+ * Logs slow queries and notifies listeners. A throwing listener never fails the query.
+ */
+export function recordQuery(event: QueryEvent): void {
+  const threshold = getSlowQueryThresholdMs()
+  if (threshold > 0 && event.durationMs >= threshold) {
+    console.warn('Slow database query:', {
+      kind: event.kind,
+      durationMs: Math.round(event.durationMs),
+      rows: event.rows,
+      statements: event.statements.map(({ sql, params }) => ({ sql: summarizeSql(sql), params })),
+    })
+  }
+
+  for (const listener of listeners) {
+    try {
+      listener(event)
+    } catch (error) {
+      console.error('Query listener failed:', error)
+    }
+  }
+}
+
+interface SentryTracing {
+  isInitialized(): boolean
+  startSpan<T>(
+    options: { name: string; op: string; attributes: Record<string, string | number> },
+    callback: () => T
+  ): T
+}
+
+let sentry: Promise<SentryTracing | null> | null = null
+
+// @sentry/astro is only loaded when SENTRY_DSN is set, so the SDK stays out of scripts and tests
+const loadSentry = (): Promise<SentryTracing | null> => {
+  sentry ??= readServerEnv('SENTRY_DSN')
+    ? import('@sentry/astro').then(
+        module => module as SentryTracing,
+        () => null
+      )
+    : Promise.resolve(null)
+  return sentry
+}
+
+const countRows = (results: ResultSet[]) => ({
+  rows: results.reduce((total, result) => total + result.rows.length, 0),
+  rowsAffected: results.reduce((total, result) => total + result.rowsAffected, 0),
+})
+
+/**
+ * Times a query or transaction, records it and, when Sentry is initialized, wraps it in a
+ * `db.sql.query` or `db.sql.transaction` span
+ */
+export async function instrumentQuery<T extends ResultSet | ResultSet[]>(
+  kind: QueryKind,
+  statements: QueryStatement[],
+  run: () => Promise<T>
+): Promise<T> {
+  const measure = async () => {
+    const startedAt = globalThis.performance.now()
+    const event = (result: T | null, error: Error | null): QueryEvent => ({
+      kind,
+      statements: statements.map(({ sql, params }) => ({ sql, params: redactParams(params) })),
+      durationMs: globalThis.performance.now() - startedAt,
+      ...(result
+        ? countRows(Array.isArray(result) ? result : [result])
+        : { rows: 0, rowsAffected: 0 }),
+      error,
+    })
+
+    try {
+      const result = await run()
+      recordQuery(event(result, null))
+      return result
+    } catch (error) {
+      recordQuery(event(null, error instanceof Error ? error : new Error('Unknown error')))
+      throw error
+    }
+  }
+
+  const tracing = await loadSentry()
+  if (!tracing?.isInitialized()) {
+    return measure()
+  }
+
+  return tracing.startSpan(
+    {
+      name: summarizeSql(statements.map(({ sql }) => sql).join('; ')),
+      op: kind === 'transaction' ? 'db.sql.transaction' : 'db.sql.query',
+      attributes: { 'db.system': 'sqlite', 'db.statement_count': statements.length },
+    },
+    measure
+  )
+}
+
+/**
+ * Clears listeners and the cached Sentry lookup (useful for testing)
+ */
+export function resetQueryInstrumentation(): void {
+  listeners.clear()
+  sentry = null
+}
@@ -0,0 +1,197 @@
+import { LibsqlError } from '@libsql/client'
+
+export interface RetryOptions {
+  /** Total attempts, including the first */
+  attempts: number
+  /** Delay before the first retry, doubled for each retry after it */
+  baseDelayMs: number
+  /** Upper bound on a single delay */
+  maxDelayMs: number
+  /** Fraction of each delay that is randomised, 0 disables jitter */
+  jitter: number
+  /** Whether an error is transient and worth retrying */
+  isRetryable: (error: unknown) => boolean
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open'
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failed operations that open the circuit */
+  failureThreshold: number
+  /** How long the circuit stays open before a trial request is let through */
+  resetTimeoutMs: number
+}
+
+export interface CircuitBreakerSnapshot {
+  state: CircuitState
+  consecutiveFailures: number
+  /** When the circuit last opened, null while closed */
+  openedAt: string | null
+  /** When an open circuit lets the next trial request through */
+  retryAt: string | null
+}
+
+/**
+ * libSQL error codes for contention and dropped connections, where the same query can succeed on a
+ * later attempt. Constraint violations and SQL errors are never retried.
+ */
+export const RETRYABLE_LIBSQL_CODES: ReadonlySet<string> = new Set([
+  'SQLITE_BUSY',
+  'SQLITE_LOCKED',
+  'SERVER_ERROR',
+  'HRANA_CLOSED_ERROR',
+  'HRANA_WEBSOCKET_ERROR',
+  'STREAM_EXPIRED',
+])
+
+/** Node and undici network error codes, found on the cause of a failed fetch */
+const RETRYABLE_NETWORK_CODES: ReadonlySet<string> = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT',
+])
+
+/**
+ * Classifies errors by libSQL error code, including extended SQLite codes such as
+ * `SQLITE_BUSY_SNAPSHOT`, and by the network error that caused them
+ */
+export function isRetryableDatabaseError(error: unknown): boolean {
+  for (let current = error, depth = 0; current && depth < 5; depth++) {
+    if (current instanceof LibsqlError) {
+      const baseCode = current.code.replace(/^(SQLITE_[A-Z]+)_[A-Z_]+$/, '$1')
+      if (RETRYABLE_LIBSQL_CODES.has(current.code) || RETRYABLE_LIBSQL_CODES.has(baseCode)) {
+        return true
+      }
+    }
+
+    const code = (current as { code?: unknown }).code
+    if (typeof code === 'string' && RETRYABLE_NETWORK_CODES.has(code)) {
+      return true
+    }
+
+    current = (current as { cause?: unknown }).cause
+  }
+
+  return false
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  attempts: 3,
+  baseDelayMs: 250,
+  maxDelayMs: 5_000,
+  jitter: 0.5,
+  isRetryable: isRetryableDatabaseError,
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_OPTIONS: CircuitBreakerOptions = {
+  failureThreshold: 5,
+  resetTimeoutMs: 30_000,
+}
+
+/**
+ * Exponential backoff for the retry after `attempt` failed attempts, with up to `jitter` of the
+ * delay randomised so concurrent requests do not retry in lockstep
+ */
+export function getRetryDelay(
+  attempt: number,
+  options: Pick<RetryOptions, 'baseDelayMs' | 'maxDelayMs' | 'jitter'> = DEFAULT_RETRY_OPTIONS,
+  random: () => number = Math.random
+): number {
+  const delay = Math.min(options.baseDelayMs * 2 ** (attempt - 1), options.maxDelayMs)
+  const jitter = Math.min(Math.max(options.jitter, 0), 1)
+
+  return Math.round(delay * (1 - jitter + jitter * random()))
+}
+
+/**
+ * Stops sending queries to a database that keeps failing. After `failureThreshold` consecutive
+ * failed operations the circuit opens and requests fail fast; once `resetTimeoutMs` has passed a
+ * single trial request is let through, closing the circuit again if it succeeds.
+ */
+export class CircuitBreaker {
+  readonly options: CircuitBreakerOptions
+  private readonly now: () => number
+  private consecutiveFailures = 0
+  private openedAt: number | null = null
+  private trialInFlight = false
+
+  constructor(options: Partial<CircuitBreakerOptions> = {}, now: () => number = Date.now) {
+    this.options = { ...DEFAULT_CIRCUIT_BREAKER_OPTIONS, ...options }
+    this.now = now
+  }
+
+  get state(): CircuitState {
+    if (this.openedAt === null) {
+      return 'closed'
+    }
+    return this.now() - this.openedAt >= this.options.resetTimeoutMs ? 'half-open' : 'open'
+  }
+
+  /**
+   * Whether a request may go ahead. A half-open circuit admits one trial request at a time.
+   */
+  allowRequest(): boolean {
+    const state = this.state
+    if (state === 'closed') {
+      return true
+    }
+    if (state === 'half-open' && !this.trialInFlight) {
+      this.trialInFlight = true
+      return true
+    }
+    return false
+  }
+
+  recordSuccess(): void {
+    this.consecutiveFailures = 0
+    this.openedAt = null
+    this.trialInFlight = false
+  }
+
+  recordFailure(): void {
+    this.consecutiveFailures++
+    if (this.trialInFlight || this.consecutiveFailures >= this.options.failureThreshold) {
+      this.openedAt = this.now()
+    }
+    this.trialInFlight = false
+  }
+
+  reset(): void {
+    this.recordSuccess()
+  }
+
+  snapshot(): CircuitBreakerSnapshot {
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.openedAt === null ? null : new Date(this.openedAt).toISOString(),
+      retryAt:
+        this.openedAt === null
+          ? null
+          : new Date(this.openedAt + this.options.resetTimeoutMs).toISOString(),
+    }
+  }
+}
+
+/**
+ * Waits for the tasks to settle, but no longer than `timeoutMs`. Tasks still running at the
+ * deadline carry on in the background; their rejections are ignored here, so each task should
+ * record its own outcome.
+ * @returns Whether every task settled before the deadline
+ */
+export async function settleWithin(tasks: Promise<unknown>[], timeoutMs: number): Promise<boolean> {
+  let timer: ReturnType<typeof globalThis.setTimeout> | undefined
+  const deadline = new Promise<false>(resolve => {
+    timer = globalThis.setTimeout(() => resolve(false), timeoutMs)
+  })
+
+  try {
+    return await Promise.race([Promise.allSettled(tasks).then(() => true), deadline])
+  } finally {
+    globalThis.clearTimeout(timer)
+  }
+}
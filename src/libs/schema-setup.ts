@@ -1,15 +1,27 @@
+import {
+  MIGRATIONS_TABLE,
+  getAppliedMigrations,
+  getMigrationStatus,
+  loadMigrations,
+  runMigrations,
+  splitSqlStatements,
+} from './migrations'
+import type { MigrationStatus } from './migrations'
 import getTursoClient from './turso'
 
 export interface Message {
   id: number
   name: string
   email: string
+  phone: string | null
   subject: string | null
   message: string
   is_read: boolean
   is_archived: boolean
   ip_address: string | null
   user_agent: string | null
+  /** Clerk organization the message belongs to, see `./organizations` */
+  organization_id: string | null
   created_at: string
   updated_at: string
 }
@@ -20,45 +32,20 @@ export interface SchemaSetupResult {
   error?: Error
 }
 
+/**
+ * Brings the database up to date by applying the pending `db/migrations` files in order, which are
+ * the single source of truth for the schema
+ */
 export async function setupDatabaseSchema(): Promise<SchemaSetupResult> {
   try {
-    const schema = `
-  -- Messages table for contact form submissions
-  CREATE TABLE IF NOT EXISTS messages (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    name TEXT NOT NULL CHECK(length(name) <= 255),
-    email TEXT NOT NULL CHECK(email GLOB '*@*.*'),
-    subject TEXT CHECK(length(subject) <= 500),
-    message TEXT NOT NULL CHECK(length(message) <= 5000),
-    is_read BOOLEAN DEFAULT FALSE,
-    is_archived BOOLEAN DEFAULT FALSE,
-    ip_address TEXT CHECK(length(ip_address) <= 45),
-    user_agent TEXT CHECK(length(user_agent) <= 500),
-    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
-  );
-
-  -- Indexes for common queries
-  CREATE INDEX IF NOT EXISTS idx_messages_email ON messages(email);
-  CREATE INDEX IF NOT EXISTS idx_messages_is_read ON messages(is_read);
-  CREATE INDEX IF NOT EXISTS idx_messages_created_at ON messages(created_at DESC);
-  CREATE INDEX IF NOT EXISTS idx_messages_is_archived ON messages(is_archived);
-
-  -- Trigger to update the updated_at timestamp
-  CREATE TRIGGER IF NOT EXISTS update_messages_timestamp
-  AFTER UPDATE ON messages
-  FOR EACH ROW
-  BEGIN
-    UPDATE messages SET updated_at = CURRENT_TIMESTAMP WHERE id = NEW.id;
-  END;
-`
-
-    const client = getTursoClient()
-    await client.execute(schema)
+    const { applied } = await runMigrations()
 
     return {
       success: true,
-      message: 'Database schema installed successfully',
+      message:
+        applied.length > 0
+          ? `Database schema installed successfully (${applied.length} migrations applied)`
+          : 'Database schema is up to date',
     }
   } catch (error) {
     console.error('Failed to setup database schema:', error)
@@ -70,23 +57,42 @@ export async function setupDatabaseSchema(): Promise<SchemaSetupResult> {
   }
 }
 
+/**
+ * Applied, pending, modified and missing state of every migration
+ */
+export async function getSchemaStatus(): Promise<MigrationStatus[]> {
+  return getMigrationStatus(loadMigrations(), await getAppliedMigrations())
+}
+
+/**
+ * Whether every migration has been applied
+ */
 export async function checkSchemaExists(): Promise<boolean> {
   try {
-    const client = getTursoClient()
-    const result = await client.execute(
-      "SELECT name FROM sqlite_master WHERE type='table' AND name='messages';"
-    )
-    return result.rows.length > 0
+    const statuses = await getSchemaStatus()
+    return !statuses.some(status => status.state === 'pending')
   } catch (error) {
     console.error('Failed to check schema existence:', error)
     return false
   }
 }
 
+/**
+ * Runs the down migration of every applied migration, newest first, and forgets which migrations
+ * were applied. Down migrations such as `DROP COLUMN` fail on a schema they never changed.
+ */
 export async function dropSchema(): Promise<SchemaSetupResult> {
   try {
-    const client = getTursoClient()
-    await client.execute('DROP TABLE IF EXISTS messages;')
+    const applied = new Set((await getAppliedMigrations()).map(migration => migration.name))
+    const statements = loadMigrations()
+      .reverse()
+      .filter(migration => applied.has(migration.name))
+      .flatMap(migration => (migration.down ? splitSqlStatements(migration.down) : []))
+
+    await getTursoClient().batch(
+      [...statements, `DROP TABLE IF EXISTS ${MIGRATIONS_TABLE}`],
+      'write'
+    )
     return {
       success: true,
       message: 'Schema dropped successfully',
@@ -0,0 +1,443 @@
+import type { Client, InStatement } from '@libsql/client'
+
+import { FORM_DEFINITIONS } from '../data/forms'
+import {
+  SEED_COMMENTS,
+  SEED_EMAIL_DOMAINS,
+  SEED_FIRST_NAMES,
+  SEED_IP_PREFIXES,
+  SEED_LABEL_NAMES,
+  SEED_LAST_NAMES,
+  SEED_MESSAGE_TOPICS,
+  SEED_NOTES,
+  SEED_REPLIES,
+  SEED_STAFF,
+  SEED_USER_AGENTS,
+} from '../data/seed-fixtures'
+import type { FormField, FormValue, FormValues } from '../utils/forms'
+
+import { getStorageAdapter } from './storage'
+import type { StorageAdapter } from './storage'
+import { getTursoClient } from './turso'
+
+/** Tables the seed command can fill */
+export const SEED_TABLES = ['messages', 'replies', 'labels', 'form_submissions'] as const
+
+export type SeedTable = (typeof SEED_TABLES)[number]
+
+export const DEFAULT_SEED = 42
+
+export interface SeedCounts {
+  messages: number
+  formSubmissions: number
+}
+
+export const DEFAULT_SEED_COUNTS: SeedCounts = {
+  messages: 40,
+  formSubmissions: 25,
+}
+
+/** Replies and notes belong to messages, so seeding replies seeds messages too */
+const SEED_DEPENDENCIES: Record<SeedTable, readonly SeedTable[]> = {
+  messages: [],
+  replies: ['messages'],
+  labels: [],
+  form_submissions: [],
+}
+
+/** Statements clearing each table, children first, for `--reset` */
+const RESET_STATEMENTS: Record<SeedTable, readonly string[]> = {
+  replies: ['DELETE FROM message_replies'],
+  labels: ['DELETE FROM message_labels', 'DELETE FROM labels'],
+  form_submissions: ['DELETE FROM form_submissions'],
+  messages: [
+    'DELETE FROM message_replies',
+    'DELETE FROM message_labels',
+    'DELETE FROM message_assignments',
+    'DELETE FROM message_notifications',
+    'DELETE FROM message_attachments',
+    'DELETE FROM messages',
+  ],
+}
+
+export interface SeededRandom {
+  /** Uniform float in [0, 1) */
+  next(): number
+  /** Integer between min and max, inclusive */
+  int(min: number, max: number): number
+  pick<T>(items: readonly T[]): T
+  chance(probability: number): boolean
+}
+
+export interface MessageFixture {
+  name: string
+  email: string
+  subject: string | null
+  message: string
+  is_read: boolean
+  is_archived: boolean
+  ip_address: string
+  user_agent: string
+  created_at: string
+}
+
+export interface ReplyFixture {
+  /** Index of the message in `SeedFixtures.messages` */
+  messageIndex: number
+  kind: 'reply' | 'note'
+  body: string
+  author_id: string
+  author_name: string
+  delivery_status: 'sent' | null
+  created_at: string
+}
+
+export interface LabelFixture {
+  name: string
+  /** Indexes of the labelled messages in `SeedFixtures.messages` */
+  messageIndexes: number[]
+}
+
+export interface FormSubmissionFixture {
+  form_id: string
+  data: FormValues
+  ip_address: string
+  user_agent: string
+  created_at: string
+}
+
+export interface SeedFixtures {
+  messages: MessageFixture[]
+  replies: ReplyFixture[]
+  labels: LabelFixture[]
+  formSubmissions: FormSubmissionFixture[]
+}
+
+export interface FixtureOptions {
+  seed?: string | number
+  counts?: Partial<SeedCounts>
+  /** Dates are spread over the 60 days before this, defaults to the current time */
+  now?: Date
+}
+
+export interface SeedOptions extends FixtureOptions {
+  /** Defaults to every table */
+  tables?: readonly SeedTable[]
+  /** Delete existing rows from the seeded tables first */
+  reset?: boolean
+  client?: Client
+  /** Where the files of attachments removed by `reset` are deleted, defaults to the configured adapter */
+  storage?: StorageAdapter
+}
+
+export interface SeedResult {
+  seed: string
+  tables: SeedTable[]
+  inserted: Record<SeedTable, number>
+}
+
+/**
+ * Deterministic PRNG (mulberry32) seeded from a string or number, so the same seed always yields
+ * the same fixtures
+ */
+export function createRandom(seed: string | number): SeededRandom {
+  // FNV-1a hash of the seed
+  let state = 0x811c9dc5
+  for (const char of String(seed)) {
+    state = Math.imul(state ^ char.charCodeAt(0), 0x01000193) >>> 0
+  }
+
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let value = state
+    value = Math.imul(value ^ (value >>> 15), value | 1)
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61)
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296
+  }
+
+  return {
+    next,
+    int: (min, max) => min + Math.floor(next() * (max - min + 1)),
+    pick: items => items[Math.floor(next() * items.length)]!,
+    chance: probability => next() < probability,
+  }
+}
+
+/**
+ * Adds dependencies to a table selection and rejects unknown table names
+ */
+export function resolveSeedTables(
+  names: readonly string[]
+): { ok: true; value: SeedTable[] } | { ok: false; error: Error } {
+  const unknown = names.filter(name => !(SEED_TABLES as readonly string[]).includes(name))
+  if (unknown.length > 0) {
+    return {
+      ok: false,
+      error: new Error(
+        `Unknown tables: ${unknown.join(', ')}. Choose from ${SEED_TABLES.join(', ')}`
+      ),
+    }
+  }
+
+  const selected = new Set(names as SeedTable[])
+  for (const table of names as SeedTable[]) {
+    SEED_DEPENDENCIES[table].forEach(dependency => selected.add(dependency))
+  }
+
+  return { ok: true, value: SEED_TABLES.filter(table => selected.has(table)) }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** `YYYY-MM-DD HH:MM:SS`, the format SQLite's CURRENT_TIMESTAMP produces */
+const toSqliteDate = (date: Date) => date.toISOString().slice(0, 19).replace('T', ' ')
+
+const randomFieldValue = (field: FormField, random: SeededRandom, email: string): FormValue => {
+  switch (field.type) {
+    case 'email':
+      return email
+    case 'tel':
+      return `+1 555 01${random.int(10, 99)}`
+    case 'url':
+      return `https://${email.split('@')[1]}/portfolio`
+    case 'text':
+      return `${random.pick(SEED_FIRST_NAMES)} ${random.pick(SEED_LAST_NAMES)}`
+    case 'textarea':
+      return random.pick(SEED_COMMENTS)
+    case 'select':
+    case 'radio':
+      return random.pick(field.options).value
+    case 'checkbox': {
+      const values = field.options.filter(() => random.chance(0.5)).map(option => option.value)
+      return values.length > 0 || !field.required ? values : [field.options[0]!.value]
+    }
+  }
+}
+
+/**
+ * Builds realistic fixtures for every seed table. The same seed, counts and `now` always produce
+ * the same fixtures.
+ */
+export function generateFixtures(options: FixtureOptions = {}): SeedFixtures {
+  const random = createRandom(options.seed ?? DEFAULT_SEED)
+  const counts = { ...DEFAULT_SEED_COUNTS, ...options.counts }
+  const now = (options.now ?? new Date()).getTime()
+  const randomDate = (after = now - 60 * DAY_MS) =>
+    new Date(after + Math.floor(random.next() * (now - after)))
+  const person = () => {
+    const first = random.pick(SEED_FIRST_NAMES)
+    const last = random.pick(SEED_LAST_NAMES)
+    return {
+      name: `${first} ${last}`,
+      email:
+        `${first}.${last}${random.int(1, 99)}@${random.pick(SEED_EMAIL_DOMAINS)}`.toLowerCase(),
+    }
+  }
+  const client = () => ({
+    ip_address: `${random.pick(SEED_IP_PREFIXES)}.${random.int(1, 254)}`,
+    user_agent: random.pick(SEED_USER_AGENTS),
+  })
+
+  // Oldest first, so ids follow creation order like real submissions
+  const messageDates = Array.from({ length: counts.messages }, () => randomDate()).sort(
+    (a, b) => a.getTime() - b.getTime()
+  )
+  const messages = messageDates.map((date): MessageFixture => {
+    const topic = random.pick(SEED_MESSAGE_TOPICS)
+    const ageDays = (now - date.getTime()) / DAY_MS
+    const isRead = random.chance(Math.min(0.95, 0.2 + ageDays / 30))
+
+    return {
+      ...person(),
+      subject: random.chance(0.9) ? topic.subject : null,
+      message: random.pick(topic.bodies),
+      is_read: isRead,
+      is_archived: isRead && random.chance(0.2),
+      ...client(),
+      created_at: toSqliteDate(date),
+    }
+  })
+
+  const replies: ReplyFixture[] = []
+  messages.forEach((message, messageIndex) => {
+    if (!message.is_read || !random.chance(0.5)) {
+      return
+    }
+
+    let after = messageDates[messageIndex]!.getTime()
+    for (let count = random.int(1, 2); count > 0; count--) {
+      const kind = random.chance(0.6) ? 'reply' : 'note'
+      const author = random.pick(SEED_STAFF)
+      const date = randomDate(after)
+      after = date.getTime()
+
+      replies.push({
+        messageIndex,
+        kind,
+        body: random.pick(kind === 'reply' ? SEED_REPLIES : SEED_NOTES),
+        author_id: author.id,
+        author_name: author.name,
+        delivery_status: kind === 'reply' ? 'sent' : null,
+        created_at: toSqliteDate(date),
+      })
+    }
+  })
+
+  const labels: LabelFixture[] = SEED_LABEL_NAMES.map(name => ({ name, messageIndexes: [] }))
+  messages.forEach((_message, messageIndex) => {
+    if (random.chance(0.4)) {
+      random.pick(labels).messageIndexes.push(messageIndex)
+    }
+  })
+
+  const formSubmissions = Array.from({ length: counts.formSubmissions }, () => randomDate())
+    .sort((a, b) => a.getTime() - b.getTime())
+    .map((date): FormSubmissionFixture => {
+      const definition = random.pick(FORM_DEFINITIONS)
+      const { email } = person()
+      const data = Object.fromEntries(
+        definition.fields.map(field => [field.name, randomFieldValue(field, random, email)])
+      )
+
+      return { form_id: definition.id, data, ...client(), created_at: toSqliteDate(date) }
+    })
+
+  return { messages, replies, labels, formSubmissions }
+}
+
+/**
+ * Inserts fixtures into the selected tables in one write batch. Reusable from Vitest: pass a client
+ * with the migrations applied and a fixed `now` to start tests from known data.
+ */
+export async function seedDatabase(options: SeedOptions = {}): Promise<SeedResult> {
+  const { client = getTursoClient(), reset = false } = options
+  const seed = String(options.seed ?? DEFAULT_SEED)
+  const resolved = resolveSeedTables(options.tables ?? SEED_TABLES)
+  if (!resolved.ok) {
+    throw resolved.error
+  }
+  const tables = resolved.value
+  const selected = new Set(tables)
+  const fixtures = generateFixtures({ ...options, seed })
+  const statements: InStatement[] = []
+
+  // Attachment rows go with their messages, their files are removed once the batch succeeds
+  let attachmentKeys: string[] = []
+  if (reset) {
+    const resetStatements = tables.flatMap(table => RESET_STATEMENTS[table])
+    statements.push(...new Set(resetStatements))
+    if (selected.has('messages')) {
+      const attachments = await client.execute('SELECT storage_key FROM message_attachments')
+      attachmentKeys = attachments.rows.map(row => String(row.storage_key))
+    }
+  }
+
+  // Explicit ids let replies and labels refer to messages inserted in the same batch
+  const maxId = reset && selected.has('messages') ? 0 : await getMaxMessageId(client)
+  const messageId = (index: number) => maxId + index + 1
+
+  if (selected.has('messages')) {
+    fixtures.messages.forEach((message, index) => {
+      statements.push({
+        sql: `INSERT INTO messages
+          (id, name, email, subject, message, is_read, is_archived, ip_address, user_agent, created_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        args: [
+          messageId(index),
+          message.name,
+          message.email,
+          message.subject,
+          message.message,
+          message.is_read ? 1 : 0,
+          message.is_archived ? 1 : 0,
+          message.ip_address,
+          message.user_agent,
+          message.created_at,
+          message.created_at,
+        ],
+      })
+    })
+  }
+
+  if (selected.has('replies')) {
+    for (const reply of fixtures.replies) {
+      statements.push({
+        sql: `INSERT INTO message_replies
+          (message_id, kind, body, author_id, author_name, delivery_status, created_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        args: [
+          messageId(reply.messageIndex),
+          reply.kind,
+          reply.body,
+          reply.author_id,
+          reply.author_name,
+          reply.delivery_status,
+          reply.created_at,
+        ],
+      })
+    }
+  }
+
+  if (selected.has('labels')) {
+    for (const label of fixtures.labels) {
+      statements.push({
+        sql: 'INSERT INTO labels (name) VALUES (?) ON CONFLICT DO NOTHING',
+        args: [label.name],
+      })
+      // Labels are only attached to messages seeded in the same run
+      if (selected.has('messages')) {
+        for (const index of label.messageIndexes) {
+          statements.push({
+            sql: `INSERT OR IGNORE INTO message_labels (message_id, label_id)
+              SELECT ?, id FROM labels WHERE name = ? AND organization_id IS NULL`,
+            args: [messageId(index), label.name],
+          })
+        }
+      }
+    }
+  }
+
+  if (selected.has('form_submissions')) {
+    for (const submission of fixtures.formSubmissions) {
+      statements.push({
+        sql: `INSERT INTO form_submissions (form_id, data, ip_address, user_agent, created_at)
+          VALUES (?, ?, ?, ?, ?)`,
+        args: [
+          submission.form_id,
+          JSON.stringify(submission.data),
+          submission.ip_address,
+          submission.user_agent,
+          submission.created_at,
+        ],
+      })
+    }
+  }
+
+  await client.batch(statements, 'write')
+
+  if (attachmentKeys.length > 0) {
+    const storage = options.storage ?? getStorageAdapter()
+    const removals = await Promise.allSettled(attachmentKeys.map(key => storage.delete(key)))
+    removals.forEach((removal, index) => {
+      if (removal.status === 'rejected') {
+        console.error(`Failed to delete attachment file ${attachmentKeys[index]}:`, removal.reason)
+      }
+    })
+  }
+
+  return {
+    seed,
+    tables,
+    inserted: {
+      messages: selected.has('messages') ? fixtures.messages.length : 0,
+      replies: selected.has('replies') ? fixtures.replies.length : 0,
+      labels: selected.has('labels') ? fixtures.labels.length : 0,
+      form_submissions: selected.has('form_submissions') ? fixtures.formSubmissions.length : 0,
+    },
+  }
+}
+
+async function getMaxMessageId(client: Client): Promise<number> {
+  const result = await client.execute('SELECT COALESCE(MAX(id), 0) AS max_id FROM messages')
+  return Number(result.rows[0]?.max_id ?? 0)
+}
@@ -0,0 +1,44 @@
+import { clerkClient } from '@clerk/astro/server'
+
+import { toAssignees, toMemberProfile } from './message-assignments'
+import type { Assignee } from './message-assignments'
+import { getAdminUserIds } from './organizations'
+import type { OrganizationId } from './organizations'
+
+/** Upper bound on staff accounts loaded for the assignee picker */
+const MAX_STAFF_USERS = 100
+
+/**
+ * Users messages of an organization can be assigned to, the signed-in user first: the
+ * organization's members, or the ADMIN_USER_IDS for records outside any organization. Returns an
+ * empty list when Clerk cannot be reached so the inbox still loads.
+ */
+export async function listAssignees(
+  context: Parameters<typeof clerkClient>[0],
+  currentUserId: string | null,
+  organizationId: OrganizationId
+): Promise<Assignee[]> {
+  try {
+    const clerk = clerkClient(context)
+    if (organizationId) {
+      const { data } = await clerk.organizations.getOrganizationMembershipList({
+        organizationId,
+        limit: MAX_STAFF_USERS,
+      })
+      return toAssignees(
+        data.map(toMemberProfile).filter(profile => profile !== null),
+        currentUserId
+      )
+    }
+
+    const userIds = getAdminUserIds()
+    if (userIds.length === 0) {
+      return []
+    }
+    const { data } = await clerk.users.getUserList({ userId: userIds, limit: MAX_STAFF_USERS })
+    return toAssignees(data, currentUserId)
+  } catch (error) {
+    console.error('Failed to load staff users:', error)
+    return []
+  }
+}
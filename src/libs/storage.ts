@@ -0,0 +1,90 @@
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises'
+import { dirname, resolve, sep } from 'node:path'
+
+import { readServerEnv } from './env'
+
+export interface StoredObject {
+  body: Uint8Array
+  contentType: string | null
+}
+
+/**
+ * Stores opaque binary objects by key. Keys are `/`-separated relative paths chosen by the
+ * caller, never user input. S3-compatible adapters implement the same three operations.
+ */
+export interface StorageAdapter {
+  readonly name: string
+  put(key: string, body: Uint8Array, contentType: string): Promise<void>
+  /** Resolves null when nothing is stored under the key */
+  get(key: string): Promise<StoredObject | null>
+  delete(key: string): Promise<void>
+}
+
+const KEY_PATTERN = /^[A-Za-z0-9_-]+(\/[A-Za-z0-9_.-]+)*$/
+
+export function assertValidStorageKey(key: string): void {
+  if (!KEY_PATTERN.test(key) || key.split('/').some(part => part === '..' || part === '.')) {
+    throw new Error(`Invalid storage key: ${key}`)
+  }
+}
+
+/**
+ * Keeps objects on the local filesystem under a root directory, for development and single-server
+ * deployments. Serverless platforms need a networked adapter because their disks are ephemeral.
+ */
+export class LocalFileStorage implements StorageAdapter {
+  readonly name = 'local'
+  private readonly root: string
+
+  constructor(root: string) {
+    this.root = resolve(root)
+  }
+
+  private pathFor(key: string): string {
+    assertValidStorageKey(key)
+    const path = resolve(this.root, key)
+    if (!path.startsWith(this.root + sep)) {
+      throw new Error(`Invalid storage key: ${key}`)
+    }
+    return path
+  }
+
+  async put(key: string, body: Uint8Array): Promise<void> {
+    const path = this.pathFor(key)
+    await mkdir(dirname(path), { recursive: true })
+    await writeFile(path, body, { flag: 'wx' })
+  }
+
+  async get(key: string): Promise<StoredObject | null> {
+    try {
+      return { body: await readFile(this.pathFor(key)), contentType: null }
+    } catch (error) {
+      if ((error as { code?: string }).code === 'ENOENT') return null
+      throw error
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.pathFor(key), { force: true })
+  }
+}
+
+let storageAdapter: StorageAdapter | null = null
+
+/**
+ * Adapter selected by ATTACHMENT_STORAGE, currently only `local` (rooted at ATTACHMENT_STORAGE_DIR)
+ */
+export function getStorageAdapter(): StorageAdapter {
+  if (!storageAdapter) {
+    const driver = readServerEnv('ATTACHMENT_STORAGE') || 'local'
+    if (driver !== 'local') {
+      throw new Error(`Unsupported ATTACHMENT_STORAGE driver: ${driver}`)
+    }
+    storageAdapter = new LocalFileStorage(readServerEnv('ATTACHMENT_STORAGE_DIR') || '.uploads')
+  }
+  return storageAdapter
+}
+
+export function setStorageAdapter(adapter: StorageAdapter | null): void {
+  storageAdapter = adapter
+}
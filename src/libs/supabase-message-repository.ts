@@ -0,0 +1,406 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+import type { Database, Tables } from './database.types'
+import { decodeMessageCursor, encodeMessageCursor } from './message-repository'
+import type {
+  MessageCursorOptions,
+  MessageCursorPage,
+  MessageFlags,
+  MessageIdCriteria,
+  MessageRepository,
+  NewMessage,
+} from './message-repository'
+import {
+  DEFAULT_PAGE_SIZE,
+  SNIPPET_CLOSE,
+  SNIPPET_OPEN,
+  parseSnippet,
+  toFtsQuery,
+} from './messages'
+import type {
+  MessageCounts,
+  MessageFilter,
+  MessageListOptions,
+  MessageListResult,
+  MessageSearch,
+  MessageSearchResult,
+  SnippetPart,
+} from './messages'
+import type { OrganizationScope } from './organizations'
+import type { Message } from './schema-setup'
+import { getSupabaseClient } from './supabase'
+
+/** Every column except the generated `fts` search vector */
+const MESSAGE_COLUMNS =
+  'id, name, email, phone, subject, message, is_read, is_archived, ip_address, user_agent, organization_id, created_at, updated_at'
+
+type MessageRow = Omit<Tables<'messages'>, 'fts'>
+
+/**
+ * The filter methods of a PostgREST query on `messages`, whatever it selects
+ */
+interface MessageQuery<Query> {
+  filter(column: string, operator: string, value: unknown): Query
+  or(filters: string): Query
+  textSearch(column: string, query: string, options?: { config?: string }): Query
+}
+
+/** Flag values selecting each inbox filter, the counterpart of `MESSAGE_FILTER_CONDITIONS` */
+const MESSAGE_FILTER_QUERIES: Record<MessageFilter, [column: string, value: boolean][]> = {
+  inbox: [['is_archived', false]],
+  unread: [
+    ['is_read', false],
+    ['is_archived', false],
+  ],
+  archived: [['is_archived', true]],
+}
+
+const SNIPPET_WORDS = 16
+
+/**
+ * Formats a Postgres `timestamptz` as SQLite `CURRENT_TIMESTAMP` does, so both backends return
+ * the same {@link Message} and cursors
+ */
+export function toSqliteTimestamp(value: string): string {
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? value : date.toISOString().slice(0, 19).replace('T', ' ')
+}
+
+const toIsoTimestamp = (value: string) => `${value.replace(' ', 'T')}Z`
+
+export function mapSupabaseMessageRow(row: MessageRow): Message {
+  return {
+    ...row,
+    created_at: toSqliteTimestamp(row.created_at),
+    updated_at: toSqliteTimestamp(row.updated_at),
+  }
+}
+
+const escapeLikePattern = (value: string) => value.replace(/[\\%_]/g, char => `\\${char}`)
+
+/**
+ * Turns a search box query into a Postgres `to_tsquery` expression with the same rules as
+ * {@link toFtsQuery}: every word must match, quoted text is a phrase and a trailing `*` a prefix.
+ * @returns The expression and the words to highlight, or null when there is nothing to search for
+ */
+export function toTsQuery(input: string): { query: string; words: string[] } | null {
+  const match = toFtsQuery(input)
+  if (!match) {
+    return null
+  }
+
+  const terms: string[] = []
+  const words: string[] = []
+  for (const [, text = '', prefix] of match.matchAll(/"([^"]*)"(\*)?/g)) {
+    const lexemes = text
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(Boolean)
+    if (lexemes.length === 0) continue
+
+    const last = lexemes.length - 1
+    const quoted = lexemes.map(
+      (lexeme, index) => `'${lexeme}'${prefix && index === last ? ':*' : ''}`
+    )
+    terms.push(quoted.length > 1 ? `(${quoted.join(' <-> ')})` : quoted.join(''))
+    words.push(
+      ...lexemes.map((lexeme, index) => (prefix && index === last ? `${lexeme}*` : lexeme))
+    )
+  }
+
+  return terms.length > 0 ? { query: terms.join(' & '), words } : null
+}
+
+/**
+ * Highlights searched words in a window of the message body, in the format FTS5 `snippet()`
+ * produces for the Turso backend
+ * @returns The parts, or null when no word occurs in the body
+ */
+export function buildSnippet(text: string, words: string[]): SnippetPart[] | null {
+  const isMatch = (token: string) => {
+    const normalized = token.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '')
+    return (
+      normalized !== '' &&
+      words.some(word =>
+        word.endsWith('*') ? normalized.startsWith(word.slice(0, -1)) : normalized === word
+      )
+    )
+  }
+
+  const tokens = text.split(/\s+/).filter(Boolean)
+  const first = tokens.findIndex(isMatch)
+  if (first === -1) {
+    return null
+  }
+
+  const start = Math.max(0, Math.min(first - SNIPPET_WORDS / 4, tokens.length - SNIPPET_WORDS))
+  const window = tokens.slice(start, start + SNIPPET_WORDS)
+  const snippet = window
+    .map(token => (isMatch(token) ? `${SNIPPET_OPEN}${token}${SNIPPET_CLOSE}` : token))
+    .join(' ')
+
+  return parseSnippet(
+    `${start > 0 ? '…' : ''}${snippet}${start + SNIPPET_WORDS < tokens.length ? '…' : ''}`
+  )
+}
+
+const toIdList = (ids: number[]) => [...new Set(ids.filter(id => Number.isInteger(id) && id > 0))]
+
+function assertNoError(error: { message: string } | null): void {
+  if (error) {
+    throw new Error(`Supabase query failed: ${error.message}`)
+  }
+}
+
+export interface SupabaseMessageRepositoryOptions {
+  /** Defaults to {@link getSupabaseClient}, created on first query */
+  client?: SupabaseClient<Database> | undefined
+  organizationId?: OrganizationScope
+}
+
+/**
+ * {@link MessageRepository} over the `messages` table of a Supabase project, created by the SQL in
+ * supabase/migrations. Search matches the same words as the Turso backend but lists results
+ * newest first, because PostgREST cannot order by rank.
+ *
+ * Labels and assignments are stored in Turso only, so label and assignee criteria are rejected.
+ */
+export class SupabaseMessageRepository implements MessageRepository {
+  readonly name = 'supabase'
+  readonly organizationId: OrganizationScope
+  private readonly client: SupabaseClient<Database> | undefined
+
+  constructor(options: SupabaseMessageRepositoryOptions = {}) {
+    this.client = options.client
+    this.organizationId = options.organizationId
+  }
+
+  forOrganization(organizationId: OrganizationScope): MessageRepository {
+    return new SupabaseMessageRepository({ client: this.client, organizationId })
+  }
+
+  private get messages() {
+    return (this.client ?? getSupabaseClient()).from('messages')
+  }
+
+  /** Restricts a query to the organization; null matches messages outside any organization */
+  private scope<Query extends MessageQuery<Query>>(query: Query): Query {
+    if (this.organizationId === undefined) {
+      return query
+    }
+    return this.organizationId === null
+      ? query.filter('organization_id', 'is', null)
+      : query.filter('organization_id', 'eq', this.organizationId)
+  }
+
+  /** Inbox criteria plus the organization, the counterpart of `buildMessageWhere` */
+  private applySearch<Query extends MessageQuery<Query>>(
+    query: Query,
+    search: MessageSearch
+  ): Query {
+    if (search.label || search.assignee) {
+      throw new Error('Label and assignee filters need the Turso message storage backend')
+    }
+
+    let filtered = this.scope(query)
+    for (const [column, value] of MESSAGE_FILTER_QUERIES[search.filter ?? 'inbox']) {
+      filtered = filtered.filter(column, 'is', value)
+    }
+    if (search.from) {
+      filtered = filtered.filter('created_at', 'gte', `${search.from}T00:00:00Z`)
+    }
+    if (search.to) {
+      const end = new Date(`${search.to}T00:00:00Z`)
+      end.setUTCDate(end.getUTCDate() + 1)
+      filtered = filtered.filter('created_at', 'lt', end.toISOString())
+    }
+    if (search.email) {
+      filtered = filtered.filter('email', 'ilike', `%${escapeLikePattern(search.email)}%`)
+    }
+    const match = search.q ? toTsQuery(search.q) : null
+    if (match) {
+      filtered = filtered.textSearch('fts', match.query, { config: 'simple' })
+    }
+    return filtered
+  }
+
+  private async count(search: MessageSearch): Promise<number> {
+    const { count, error } = await this.applySearch(
+      this.messages.select('id', { count: 'exact', head: true }),
+      search
+    )
+    assertNoError(error)
+    return count ?? 0
+  }
+
+  async create(input: NewMessage): Promise<Message> {
+    const organizationId =
+      this.organizationId === undefined ? (input.organization_id ?? null) : this.organizationId
+    const { data, error } = await this.messages
+      .insert({
+        name: input.name,
+        email: input.email,
+        phone: input.phone ?? null,
+        subject: input.subject,
+        message: input.message,
+        ip_address: input.ip_address,
+        user_agent: input.user_agent,
+        organization_id: organizationId,
+      })
+      .select(MESSAGE_COLUMNS)
+      .single()
+    assertNoError(error)
+    if (!data) {
+      throw new Error('Message was not saved')
+    }
+    return mapSupabaseMessageRow(data)
+  }
+
+  async findById(id: number): Promise<Message | null> {
+    const { data, error } = await this.scope(
+      this.messages.select(MESSAGE_COLUMNS).filter('id', 'eq', id)
+    ).maybeSingle()
+    assertNoError(error)
+    return data ? mapSupabaseMessageRow(data) : null
+  }
+
+  async findByEmail(email: string): Promise<Message[]> {
+    const { data, error } = await this.scope(
+      this.messages.select(MESSAGE_COLUMNS).filter('email', 'ilike', escapeLikePattern(email))
+    ).order('id', { ascending: true })
+    assertNoError(error)
+    return (data ?? []).map(mapSupabaseMessageRow)
+  }
+
+  async findIds(criteria: MessageIdCriteria): Promise<number[]> {
+    let query = this.scope(this.messages.select('id'))
+    if (criteria.email !== undefined) {
+      query = query.filter('email', 'ilike', escapeLikePattern(criteria.email))
+    }
+    if (criteria.archived !== undefined) {
+      query = query.filter('is_archived', 'is', criteria.archived)
+    }
+    if (criteria.createdBefore !== undefined) {
+      query = query.filter('created_at', 'lt', toIsoTimestamp(criteria.createdBefore))
+    }
+
+    const ordered = query.order('id', { ascending: true })
+    const { data, error } = await (criteria.limit === undefined
+      ? ordered
+      : ordered.limit(Math.max(0, criteria.limit)))
+    assertNoError(error)
+    return (data ?? []).map(row => row.id)
+  }
+
+  async list(options: MessageCursorOptions = {}): Promise<MessageCursorPage> {
+    const limit = Math.max(1, options.limit ?? DEFAULT_PAGE_SIZE)
+    const cursor = options.cursor ? decodeMessageCursor(options.cursor) : null
+    if (options.cursor && !cursor) {
+      throw new Error('Invalid message cursor')
+    }
+
+    let query = this.applySearch(this.messages.select(MESSAGE_COLUMNS), options.search ?? {})
+    if (cursor) {
+      const createdAt = toIsoTimestamp(cursor.createdAt)
+      // Quoted because timestamps contain the `.` and `:` reserved in logic filters
+      query = query.or(
+        `created_at.lt."${createdAt}",and(created_at.eq."${createdAt}",id.lt.${cursor.id})`
+      )
+    }
+
+    // One extra row tells whether another page follows
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(limit + 1)
+    assertNoError(error)
+
+    const rows = data ?? []
+    const messages = rows.slice(0, limit).map(mapSupabaseMessageRow)
+    const last = messages[messages.length - 1]
+
+    return {
+      messages,
+      nextCursor: rows.length > limit && last ? encodeMessageCursor(last) : null,
+    }
+  }
+
+  async listPage(options: MessageListOptions = {}): Promise<MessageListResult> {
+    const pageSize = Math.max(1, options.pageSize ?? DEFAULT_PAGE_SIZE)
+    const total = await this.count(options)
+    const totalPages = Math.max(1, Math.ceil(total / pageSize))
+    const page = Math.min(Math.max(1, options.page ?? 1), totalPages)
+
+    const offset = (page - 1) * pageSize
+    const { data, error } = await this.applySearch(this.messages.select(MESSAGE_COLUMNS), options)
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .range(offset, offset + pageSize - 1)
+    assertNoError(error)
+
+    return {
+      messages: (data ?? []).map(mapSupabaseMessageRow),
+      total,
+      page,
+      pageSize,
+      totalPages,
+    }
+  }
+
+  async search(options: MessageListOptions): Promise<MessageSearchResult> {
+    const result = await this.listPage(options)
+    const match = options.q ? toTsQuery(options.q) : null
+
+    const snippets: Record<number, SnippetPart[]> = {}
+    if (match) {
+      for (const message of result.messages) {
+        const snippet = buildSnippet(message.message, match.words)
+        if (snippet) {
+          snippets[message.id] = snippet
+        }
+      }
+    }
+
+    return { ...result, snippets }
+  }
+
+  async countByFilter(): Promise<MessageCounts> {
+    const [inbox, unread, archived] = await Promise.all([
+      this.count({ filter: 'inbox' }),
+      this.count({ filter: 'unread' }),
+      this.count({ filter: 'archived' }),
+    ])
+    return { inbox, unread, archived }
+  }
+
+  async updateFlags(ids: number[], flags: MessageFlags): Promise<number> {
+    const uniqueIds = toIdList(ids)
+    const changes = Object.fromEntries(
+      (['is_read', 'is_archived'] as const)
+        .filter(column => flags[column] !== undefined)
+        .map(column => [column, Boolean(flags[column])])
+    )
+    if (uniqueIds.length === 0 || Object.keys(changes).length === 0) {
+      return 0
+    }
+
+    const { data, error } = await this.scope(
+      this.messages.update(changes).filter('id', 'in', `(${uniqueIds.join(',')})`)
+    ).select('id')
+    assertNoError(error)
+    return data?.length ?? 0
+  }
+
+  async delete(ids: number[]): Promise<number> {
+    const uniqueIds = toIdList(ids)
+    if (uniqueIds.length === 0) {
+      return 0
+    }
+
+    const { data, error } = await this.scope(
+      this.messages.delete().filter('id', 'in', `(${uniqueIds.join(',')})`)
+    ).select('id')
+    assertNoError(error)
+    return data?.length ?? 0
+  }
+}
@@ -1,15 +1,63 @@
 import { createClient } from '@supabase/supabase-js'
+import type { SupabaseClient } from '@supabase/supabase-js'
 
-const supabaseUrl = import.meta.env.SUPABASE_URL
-const supabaseAnonKey = import.meta.env.SUPABASE_ANON_KEY
+import type { Database } from './database.types'
+import { readServerEnv } from './env'
 
-if (!supabaseUrl || !supabaseAnonKey) {
-  throw new Error(
-    'Missing Supabase environment variables. Please check SUPABASE_URL and SUPABASE_ANON_KEY in your .env file.'
-  )
+export type { Database } from './database.types'
+
+let supabaseClient: SupabaseClient<Database> | null = null
+let supabaseAnonClient: SupabaseClient<Database> | null = null
+
+/**
+ * Server-side Supabase client, created on first use. SUPABASE_SERVICE_ROLE_KEY is preferred
+ * because the tables have row level security without policies; SUPABASE_ANON_KEY is enough for
+ * auth checks. Never expose either client or key to the browser.
+ */
+export function getSupabaseClient(): SupabaseClient<Database> {
+  if (!supabaseClient) {
+    const url = readServerEnv('SUPABASE_URL')
+    const key = readServerEnv('SUPABASE_SERVICE_ROLE_KEY') || readServerEnv('SUPABASE_ANON_KEY')
+
+    if (!url || !key) {
+      throw new Error(
+        'Missing Supabase environment variables. Please check SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY or SUPABASE_ANON_KEY in your .env file.'
+      )
+    }
+
+    supabaseClient = createClient<Database>(url, key, {
+      auth: { persistSession: false, autoRefreshToken: false },
+    })
+  }
+  return supabaseClient
 }
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey)
+/**
+ * Client with SUPABASE_ANON_KEY only, so row level security applies. Use it for anything that
+ * answers unauthenticated requests, such as connection diagnostics.
+ */
+export function getSupabaseAnonClient(): SupabaseClient<Database> {
+  if (!supabaseAnonClient) {
+    const url = readServerEnv('SUPABASE_URL')
+    const key = readServerEnv('SUPABASE_ANON_KEY')
 
-// eslint-disable-next-line @typescript-eslint/no-empty-object-type
-export type Database = {}
+    if (!url || !key) {
+      throw new Error(
+        'Missing Supabase environment variables. Please check SUPABASE_URL and SUPABASE_ANON_KEY in your .env file.'
+      )
+    }
+
+    supabaseAnonClient = createClient<Database>(url, key, {
+      auth: { persistSession: false, autoRefreshToken: false },
+    })
+  }
+  return supabaseAnonClient
+}
+
+/**
+ * Clears the cached clients so the next call reads the environment again
+ */
+export function resetSupabaseClient(): void {
+  supabaseClient = null
+  supabaseAnonClient = null
+}
@@ -1,14 +1,44 @@
+import { mkdirSync } from 'node:fs'
+import { dirname } from 'node:path'
+import { fileURLToPath } from 'node:url'
+
 import { createClient } from '@libsql/client'
-import type { Client, InArgs, ResultSet } from '@libsql/client'
+import type { Client, InArgs, ResultSet, Transaction, TransactionMode } from '@libsql/client'
+
+import { readServerEnv } from './env'
+import { instrumentQuery, summarizeSql } from './query-instrumentation'
+import { CircuitBreaker, DEFAULT_RETRY_OPTIONS, getRetryDelay } from './resilience'
+import type { CircuitBreakerSnapshot, RetryOptions } from './resilience'
+
+/**
+ * `local` runs against a SQLite file or in-memory database through libSQL, `remote` against Turso
+ */
+export type DatabaseMode = 'local' | 'remote'
+
+/** Database used when DB_MODE=local is set without a local TURSO_DATABASE_URL */
+export const DEFAULT_LOCAL_DATABASE_URL = 'file:.data/local.db'
+
+/**
+ * Whether a libSQL URL points at a local SQLite file or an in-memory database, which need no
+ * auth token
+ */
+export function isLocalDatabaseUrl(url: string): boolean {
+  return url === ':memory:' || url.startsWith('file:')
+}
 
 // Memoized environment configuration
-let cachedEnv: { url: string; authToken: string } | null = null
+let cachedEnv: { mode: DatabaseMode; url: string; authToken: string } | null = null
 
 const getTursoEnv = () => {
   if (!cachedEnv) {
+    const url = readServerEnv('TURSO_DATABASE_URL')
+    const mode: DatabaseMode =
+      readServerEnv('DB_MODE') === 'local' || isLocalDatabaseUrl(url) ? 'local' : 'remote'
+
     cachedEnv = {
-      url: import.meta.env.TURSO_DATABASE_URL || '',
-      authToken: import.meta.env.TURSO_AUTH_TOKEN || '',
+      mode,
+      url: mode === 'local' && !isLocalDatabaseUrl(url) ? DEFAULT_LOCAL_DATABASE_URL : url,
+      authToken: readServerEnv('TURSO_AUTH_TOKEN'),
     }
   }
   return cachedEnv
@@ -17,17 +47,33 @@ const getTursoEnv = () => {
 // Singleton client and error state
 let client: Client | null = null
 let initializationError: Error | null = null
+// Schema installation for local databases, started on first use
+let localSchemaSetup: Promise<void> | null = null
+
+// Shared by every query, so an unreachable database fails fast everywhere
+const circuitBreaker = new CircuitBreaker()
+
+export interface DatabaseHealth {
+  configured: boolean
+  mode: DatabaseMode
+  circuit: CircuitBreakerSnapshot
+}
 
-// Retry configuration
-const RETRY_ATTEMPTS = 3
-const RETRY_DELAY_MS = 1000
+/**
+ * Whether queries run against a local SQLite database (DB_MODE=local, or a `file:` or `:memory:`
+ * TURSO_DATABASE_URL) or a remote Turso database
+ */
+export function getDatabaseMode(): DatabaseMode {
+  return getTursoEnv().mode
+}
 
 /**
- * Check if Turso database is properly configured with required environment variables
+ * Check if Turso database is properly configured with required environment variables. Local
+ * databases need no auth token.
  */
 export function isTursoConfigured(): boolean {
   const env = getTursoEnv()
-  return Boolean(env.url && env.authToken)
+  return env.mode === 'local' || Boolean(env.url && env.authToken)
 }
 
 /**
@@ -35,18 +81,42 @@ export function isTursoConfigured(): boolean {
  */
 export function validateTursoConfig(): void {
   const env = getTursoEnv()
-  const missing: string[] = []
-
-  if (!env.url) missing.push('TURSO_DATABASE_URL')
-  if (!env.authToken) missing.push('TURSO_AUTH_TOKEN')
+  if (env.mode === 'local') {
+    return
+  }
 
-  if (missing.length > 0) {
+  if (!env.url && !env.authToken) {
     throw new Error(
-      `Turso database not configured. Missing environment variables: ${missing.join(', ')}`
+      'Turso database not configured. Both TURSO_DATABASE_URL and TURSO_AUTH_TOKEN environment variables are required. Set DB_MODE=local to use a local SQLite database instead.'
+    )
+  }
+  if (!env.url) {
+    throw new Error(
+      'Turso database not configured. TURSO_DATABASE_URL environment variable is required.'
+    )
+  }
+  if (!env.authToken) {
+    throw new Error(
+      'Turso database not configured. TURSO_AUTH_TOKEN environment variable is required.'
     )
   }
 }
 
+/**
+ * Creates the parent directory of a local database file, libSQL does not create it
+ */
+function ensureLocalDatabaseDirectory(url: string): void {
+  if (url.includes(':memory:')) {
+    return
+  }
+
+  const location = url.split('?')[0] ?? url
+  const path = location.startsWith('file://')
+    ? fileURLToPath(location)
+    : location.slice('file:'.length)
+  mkdirSync(dirname(path), { recursive: true })
+}
+
 /**
  * Get the Turso client instance with lazy initialization
  * @throws {Error} If Turso is not configured or client creation fails
@@ -67,9 +137,13 @@ export function getTursoClient(): Client {
     const env = getTursoEnv()
     validateTursoConfig()
 
+    if (env.mode === 'local') {
+      ensureLocalDatabaseDirectory(env.url)
+    }
+
     client = createClient({
       url: env.url,
-      authToken: env.authToken,
+      ...(env.mode === 'remote' && { authToken: env.authToken }),
       intMode: 'number', // Use numbers for integers
     })
 
@@ -82,61 +156,233 @@ export function getTursoClient(): Client {
 }
 
 /**
- * Execute a query with retry logic and proper error handling
- * @param query SQL query string
- * @param params Query parameters
- * @returns Query result
- * @throws {Error} If database operation fails after retries
+ * The client used for queries. Local databases get pending migrations applied on first use, so dev
+ * and tests work against a fresh SQLite file without running `db:setup`.
  */
-export async function executeQuery<T = ResultSet>(query: string, params?: InArgs): Promise<T> {
+async function getDatabaseClient(): Promise<Client> {
   const tursoClient = getTursoClient()
-  let lastError: Error | null = null
 
-  for (let attempt = 1; attempt <= RETRY_ATTEMPTS; attempt++) {
+  if (getTursoEnv().mode === 'local') {
+    localSchemaSetup ??= import('./schema-setup').then(async ({ setupDatabaseSchema }) => {
+      const result = await setupDatabaseSchema()
+      if (!result.success) {
+        localSchemaSetup = null
+        throw result.error ?? new Error(result.message)
+      }
+    })
+    await localSchemaSetup
+  }
+
+  return tursoClient
+}
+
+/**
+ * Configuration and circuit breaker state, for health checks
+ */
+export function getDatabaseHealth(): DatabaseHealth {
+  return {
+    configured: isTursoConfigured(),
+    mode: getDatabaseMode(),
+    circuit: circuitBreaker.snapshot(),
+  }
+}
+
+/**
+ * Runs a database operation under the retry policy and circuit breaker. Only retryable errors,
+ * once retries are exhausted, count as circuit breaker failures; other errors mean the database
+ * answered.
+ */
+async function runWithRetry<T>(
+  label: string,
+  operation: (tursoClient: Client) => Promise<T>,
+  options: Partial<RetryOptions>
+): Promise<T> {
+  let tursoClient: Client
+  try {
+    tursoClient = await getDatabaseClient()
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    throw new Error(`${label}: ${errorMessage}`)
+  }
+
+  if (!circuitBreaker.allowRequest()) {
+    const { retryAt } = circuitBreaker.snapshot()
+    throw new Error(`${label}: circuit breaker is open until ${retryAt}`)
+  }
+
+  const policy = { ...DEFAULT_RETRY_OPTIONS, ...options }
+  const attempts = Math.max(1, policy.attempts)
+
+  for (let attempt = 1; ; attempt++) {
     try {
-      const result = await tursoClient.execute(query, params)
-      return result as T
+      const result = await operation(tursoClient)
+      circuitBreaker.recordSuccess()
+      return result
     } catch (error) {
-      lastError = error instanceof Error ? error : new Error('Unknown error')
-      const canRetry =
-        lastError.message.includes('SQLITE_BUSY') || lastError.message.includes('connection')
-
-      if (!canRetry || attempt === RETRY_ATTEMPTS) {
-        console.error(`Turso query failed (attempt ${attempt}/${RETRY_ATTEMPTS}):`, {
-          query: query.substring(0, 100),
-          error: lastError.message,
+      const lastError = error instanceof Error ? error : new Error('Unknown error')
+      const canRetry = policy.isRetryable(error)
+
+      if (!canRetry || attempt >= attempts) {
+        if (canRetry) {
+          circuitBreaker.recordFailure()
+        } else {
+          circuitBreaker.recordSuccess()
+        }
+        throw new Error(`${label} after ${attempt} attempts: ${lastError.message}`, {
+          cause: error,
         })
-        throw new Error(`Database operation failed after ${attempt} attempts: ${lastError.message}`)
       }
 
-      // Exponential backoff
-      await new Promise(resolve => globalThis.setTimeout(resolve, RETRY_DELAY_MS * attempt))
+      await new Promise(resolve => globalThis.setTimeout(resolve, getRetryDelay(attempt, policy)))
     }
   }
+}
+
+// A write may have been applied before the connection dropped, so only reads are retried unless
+// the caller passes `attempts` for a write it knows to be idempotent
+const READ_ONLY_STATEMENT = /^\s*(?:SELECT|PRAGMA|EXPLAIN)\b/i
 
-  throw lastError || new Error('Database operation failed')
+/**
+ * Execute a query with retry logic and proper error handling. Every call is timed and reported to
+ * `onQuery` listeners, the slow-query log and Sentry (see query-instrumentation.ts).
+ * @param query SQL query string
+ * @param params Query parameters
+ * @param options Retry policy overrides. Statements other than SELECT, PRAGMA and EXPLAIN make a
+ * single attempt unless `attempts` is given.
+ * @returns Query result
+ * @throws {Error} If database operation fails after retries, or the circuit breaker is open
+ */
+export async function executeQuery<T = ResultSet>(
+  query: string,
+  params?: InArgs,
+  options: Partial<RetryOptions> = {}
+): Promise<T> {
+  const policy =
+    options.attempts === undefined && !READ_ONLY_STATEMENT.test(query)
+      ? { ...options, attempts: 1 }
+      : options
+
+  try {
+    return (await instrumentQuery('query', [{ sql: query, params }], () =>
+      runWithRetry(
+        'Database operation failed',
+        tursoClient => tursoClient.execute(query, params),
+        policy
+      )
+    )) as T
+  } catch (error) {
+    console.error('Turso query failed:', {
+      query: summarizeSql(query),
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+    throw error
+  }
 }
 
 /**
- * Execute multiple queries in a transaction
+ * Execute multiple queries in a transaction. A batch that only reads is retried on transient
+ * errors; one that writes may have committed before the connection dropped, so like
+ * `executeQuery` it makes a single attempt unless the caller passes `attempts`.
  * @param queries Array of query objects with SQL and optional parameters
+ * @param options Retry policy overrides
  * @returns Array of query results
  */
 export async function executeTransaction<T = ResultSet>(
-  queries: Array<{ query: string; params?: InArgs }>
+  queries: Array<{ query: string; params?: InArgs }>,
+  options: Partial<RetryOptions> = {}
 ): Promise<T[]> {
-  const tursoClient = getTursoClient()
+  const statements = queries.map(q => ({ sql: q.query, params: q.params }))
+  const policy =
+    options.attempts === undefined && !queries.every(q => READ_ONLY_STATEMENT.test(q.query))
+      ? { ...options, attempts: 1 }
+      : options
 
   try {
-    const results = await tursoClient.batch(
-      queries.map(q => ({ sql: q.query, args: q.params || [] }))
-    )
-    return results as T[]
+    return (await instrumentQuery('transaction', statements, () =>
+      runWithRetry(
+        'Transaction failed',
+        tursoClient =>
+          tursoClient.batch(queries.map(q => ({ sql: q.query, args: q.params || [] }))),
+        policy
+      )
+    )) as T[]
+  } catch (error) {
+    console.error('Turso transaction failed:', error instanceof Error ? error.message : error)
+    throw error
+  }
+}
+
+export interface TransactionOptions {
+  /**
+   * `write` (default) takes the write lock up front, `read` is read-only on Turso and `deferred`
+   * starts as a read transaction and upgrades on the first write
+   */
+  mode?: TransactionMode
+}
+
+/**
+ * Runs a callback inside an interactive transaction, so code can read rows and decide what to write
+ * based on them. The transaction commits when the callback resolves and rolls back when it throws;
+ * errors from the callback are rethrown unchanged.
+ *
+ * Not retried: the callback may have side effects beyond the database. It still fails fast while
+ * the circuit breaker is open. `:memory:` databases are not supported, because libSQL runs
+ * interactive transactions on a connection of their own, which for `:memory:` is a separate,
+ * empty database.
+ * @throws {Error} If the transaction cannot be started, or whatever the callback throws
+ */
+export async function withTransaction<T>(
+  callback: (tx: Transaction) => Promise<T>,
+  options: TransactionOptions = {}
+): Promise<T> {
+  const { mode = 'write' } = options
+  let tursoClient: Client
+  try {
+    tursoClient = await getDatabaseClient()
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error'
-    console.error('Turso transaction failed:', errorMessage)
     throw new Error(`Transaction failed: ${errorMessage}`)
   }
+
+  if (getTursoEnv().url.includes(':memory:')) {
+    throw new Error(
+      'Transaction failed: interactive transactions are not supported on :memory: databases, use a file: URL'
+    )
+  }
+
+  if (!circuitBreaker.allowRequest()) {
+    const { retryAt } = circuitBreaker.snapshot()
+    throw new Error(`Transaction failed: circuit breaker is open until ${retryAt}`)
+  }
+
+  let tx: Transaction
+  try {
+    tx = await tursoClient.transaction(mode)
+    circuitBreaker.recordSuccess()
+  } catch (error) {
+    if (DEFAULT_RETRY_OPTIONS.isRetryable(error)) {
+      circuitBreaker.recordFailure()
+    } else {
+      circuitBreaker.recordSuccess()
+    }
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    throw new Error(`Transaction failed: ${errorMessage}`, { cause: error })
+  }
+
+  try {
+    const result = await callback(tx)
+    await tx.commit()
+    return result
+  } catch (error) {
+    if (!tx.closed) {
+      await tx.rollback().catch(rollbackError => {
+        console.error('Turso transaction rollback failed:', rollbackError)
+      })
+    }
+    throw error
+  } finally {
+    tx.close()
+  }
 }
 
 /**
@@ -148,7 +394,9 @@ export function resetTursoClient(): void {
   }
   client = null
   initializationError = null
+  localSchemaSetup = null
   cachedEnv = null
+  circuitBreaker.reset()
 }
 
 // Export the default client getter for backwards compatibility
@@ -0,0 +1,628 @@
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from 'node:crypto'
+import { lookup } from 'node:dns/promises'
+import { BlockList, isIP } from 'node:net'
+
+import type { Row } from '@libsql/client'
+
+import { buildOrganizationWhere } from './organizations'
+import type { OrganizationId, OrganizationScope } from './organizations'
+import { executeQuery, isTursoConfigured } from './turso'
+
+export const WEBHOOK_EVENTS = ['message.created', 'message.replied', 'form.submitted'] as const
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number]
+
+/** Sent from the admin area to check an endpoint, regardless of its subscribed events */
+export const WEBHOOK_TEST_EVENT = 'webhook.test'
+
+export const WEBHOOK_DELIVERY_STATUSES = ['pending', 'succeeded', 'failed'] as const
+
+export type WebhookDeliveryStatus = (typeof WEBHOOK_DELIVERY_STATUSES)[number]
+
+/** Minutes to wait before each retry. A delivery fails for good once these are used up. */
+export const WEBHOOK_RETRY_DELAYS_MINUTES = [1, 5, 30, 120, 720] as const
+
+export const WEBHOOK_MAX_ATTEMPTS = WEBHOOK_RETRY_DELAYS_MINUTES.length + 1
+
+/** Days a finished delivery stays in the log before {@link pruneWebhookDeliveries} removes it */
+export const WEBHOOK_DELIVERY_RETENTION_DAYS = 30
+
+const REQUEST_TIMEOUT_MS = 10_000
+
+export interface WebhookSubscription {
+  id: number
+  url: string
+  /** Shared with the receiver to verify the `X-Webhook-Signature` header */
+  secret: string
+  events: WebhookEvent[]
+  description: string | null
+  is_active: boolean
+  /** Only events about this organization's records are sent */
+  organization_id: OrganizationId
+  created_at: string
+}
+
+export interface WebhookDelivery {
+  id: number
+  subscription_id: number
+  organization_id: OrganizationId
+  /** Endpoint of the subscription, joined in for the delivery log */
+  url: string
+  event: string
+  payload: string
+  status: WebhookDeliveryStatus
+  attempts: number
+  response_status: number | null
+  error: string | null
+  next_attempt_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface WebhookPayload {
+  id: string
+  event: string
+  created_at: string
+  data: Record<string, unknown>
+}
+
+export interface WebhookInput {
+  url: string
+  events: WebhookEvent[]
+  description: string | null
+}
+
+export type WebhookInputResult = { ok: true; value: WebhookInput } | { ok: false; error: string }
+
+export interface WebhookRequestResult {
+  ok: boolean
+  status: number | null
+  error: string | null
+}
+
+/** Resolves a host name to every address it points at */
+export type WebhookHostLookup = (hostname: string) => Promise<string[]>
+
+export interface WebhookRequestOptions {
+  fetch?: typeof globalThis.fetch
+  /** Resolver for the endpoint check, see {@link checkWebhookEndpoint} */
+  lookup?: WebhookHostLookup
+  timeoutMs?: number
+  /** Milliseconds since the epoch, used for the signed timestamp */
+  now?: number
+}
+
+export interface WebhookRetryResult {
+  attempted: number
+  succeeded: number
+}
+
+export function isWebhookEvent(value: unknown): value is WebhookEvent {
+  return typeof value === 'string' && (WEBHOOK_EVENTS as readonly string[]).includes(value)
+}
+
+/**
+ * Signs `<timestamp>.<body>` so a captured request cannot be replayed with a new timestamp
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`
+}
+
+/**
+ * Receiver-side check of a delivery, rejecting signatures older than `toleranceSeconds`
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  request: { timestamp: string | number | null; body: string; signature: string | null },
+  options: { toleranceSeconds?: number; now?: number } = {}
+): boolean {
+  const timestamp = Number(request.timestamp)
+  const { toleranceSeconds = 300, now = Date.now() } = options
+  if (!Number.isInteger(timestamp) || Math.abs(now / 1000 - timestamp) > toleranceSeconds) {
+    return false
+  }
+
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, request.body))
+  const received = Buffer.from(request.signature ?? '')
+  return expected.length === received.length && timingSafeEqual(expected, received)
+}
+
+/**
+ * Delay before the next attempt after `attempts` failures, or null when the delivery gives up
+ */
+export function getRetryDelayMinutes(attempts: number): number | null {
+  return WEBHOOK_RETRY_DELAYS_MINUTES[attempts - 1] ?? null
+}
+
+export function createWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`
+}
+
+// Loopback, private, link-local (including cloud metadata at 169.254.169.254), carrier-grade NAT,
+// multicast and reserved ranges, which a webhook must never reach
+const INTERNAL_ADDRESSES = new BlockList()
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3],
+] as const) {
+  INTERNAL_ADDRESSES.addSubnet(network, prefix, 'ipv4')
+}
+for (const [network, prefix] of [
+  ['::', 127],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  INTERNAL_ADDRESSES.addSubnet(network, prefix, 'ipv6')
+}
+
+const MAPPED_IPV4 = /^::ffff:(?:(\d+\.\d+\.\d+\.\d+)|([\da-f]{1,4}):([\da-f]{1,4}))$/i
+
+/**
+ * Whether an IP address is on the public internet. IPv4-mapped IPv6 addresses are checked as
+ * the IPv4 address they carry.
+ */
+export function isPublicAddress(address: string): boolean {
+  const ip = address.replace(/^\[|\]$/g, '')
+  const mapped = MAPPED_IPV4.exec(ip)
+  if (mapped) {
+    const ipv4 =
+      mapped[1] ??
+      [mapped[2], mapped[3]]
+        .map(part => Number.parseInt(part ?? '0', 16))
+        .flatMap(value => [value >> 8, value & 0xff])
+        .join('.')
+    return isPublicAddress(ipv4)
+  }
+
+  const version = isIP(ip)
+  if (version === 0) return false
+  return !INTERNAL_ADDRESSES.check(ip, version === 4 ? 'ipv4' : 'ipv6')
+}
+
+const INTERNAL_HOST_NAME = /(?:^|\.)(?:localhost|local|internal)\.?$/i
+
+const lookupHost: WebhookHostLookup = async hostname =>
+  (await lookup(hostname, { all: true, verbatim: true })).map(({ address }) => address)
+
+/**
+ * Resolves the endpoint and checks every address it points at is public, so a webhook cannot
+ * be aimed at the server itself or the network around it. Runs when a webhook is saved and again
+ * before each delivery, since DNS can change in between.
+ * @returns An error message, or null when the endpoint may be called
+ */
+export async function checkWebhookEndpoint(
+  url: string,
+  resolve: WebhookHostLookup = lookupHost
+): Promise<string | null> {
+  const hostname = new URL(url).hostname.replace(/^\[|\]$/g, '')
+  if (INTERNAL_HOST_NAME.test(hostname)) {
+    return 'The endpoint must be a public host'
+  }
+
+  let addresses: string[]
+  try {
+    addresses = isIP(hostname) ? [hostname] : await resolve(hostname)
+  } catch {
+    return `The endpoint host ${hostname} could not be resolved`
+  }
+  return addresses.length > 0 && addresses.every(isPublicAddress)
+    ? null
+    : 'The endpoint must be a public host'
+}
+
+/**
+ * Checks the form fields of a new webhook. Only https endpoints on public IP addresses or host
+ * names are accepted; {@link checkWebhookEndpoint} then resolves the host name.
+ */
+export function validateWebhookInput(input: {
+  url?: unknown
+  events?: unknown
+  description?: unknown
+}): WebhookInputResult {
+  const rawUrl = typeof input.url === 'string' ? input.url.trim() : ''
+  let url: URL
+  try {
+    url = new URL(rawUrl)
+  } catch {
+    return { ok: false, error: 'Enter the full URL of the endpoint' }
+  }
+  if (url.protocol !== 'https:' || rawUrl.length > 2048) {
+    return { ok: false, error: 'The endpoint must be an https URL' }
+  }
+  const hostname = url.hostname.replace(/^\[|\]$/g, '')
+  if (INTERNAL_HOST_NAME.test(hostname) || (isIP(hostname) && !isPublicAddress(hostname))) {
+    return { ok: false, error: 'The endpoint must be a public host' }
+  }
+
+  const events = [...new Set(Array.isArray(input.events) ? input.events : [input.events])]
+  if (events.length === 0 || !events.every(isWebhookEvent)) {
+    return { ok: false, error: 'Choose at least one event' }
+  }
+
+  const description = typeof input.description === 'string' ? input.description.trim() : ''
+  if (description.length > 255) {
+    return { ok: false, error: 'The description must be 255 characters or fewer' }
+  }
+
+  return { ok: true, value: { url: url.href, events, description: description || null } }
+}
+
+export function mapWebhookSubscriptionRow(row: Row): WebhookSubscription {
+  const events: unknown = JSON.parse(String(row.events))
+
+  return {
+    id: Number(row.id),
+    url: String(row.url),
+    secret: String(row.secret),
+    events: Array.isArray(events) ? events.filter(isWebhookEvent) : [],
+    description: row.description === null ? null : String(row.description),
+    is_active: Boolean(row.is_active),
+    organization_id: row.organization_id === null ? null : String(row.organization_id),
+    created_at: String(row.created_at),
+  }
+}
+
+export function mapWebhookDeliveryRow(row: Row): WebhookDelivery {
+  return {
+    id: Number(row.id),
+    subscription_id: Number(row.subscription_id),
+    organization_id: row.organization_id === null ? null : String(row.organization_id),
+    url: String(row.url ?? ''),
+    event: String(row.event),
+    payload: String(row.payload),
+    status: String(row.status) as WebhookDeliveryStatus,
+    attempts: Number(row.attempts),
+    response_status: row.response_status === null ? null : Number(row.response_status),
+    error: row.error === null ? null : String(row.error),
+    next_attempt_at: row.next_attempt_at === null ? null : String(row.next_attempt_at),
+    created_at: String(row.created_at),
+    updated_at: String(row.updated_at),
+  }
+}
+
+export async function listWebhookSubscriptions(
+  organizationId: OrganizationScope
+): Promise<WebhookSubscription[]> {
+  const scope = buildOrganizationWhere(organizationId)
+  const result = await executeQuery(
+    `SELECT * FROM webhook_subscriptions WHERE ${scope.where} ORDER BY id ASC`,
+    scope.params
+  )
+  return result.rows.map(mapWebhookSubscriptionRow)
+}
+
+export async function createWebhookSubscription(
+  input: WebhookInput,
+  organizationId: OrganizationId
+): Promise<WebhookSubscription> {
+  const result = await executeQuery(
+    `INSERT INTO webhook_subscriptions (url, secret, events, description, organization_id)
+     VALUES (?, ?, ?, ?, ?)
+     RETURNING *`,
+    [
+      input.url,
+      createWebhookSecret(),
+      JSON.stringify(input.events),
+      input.description,
+      organizationId,
+    ]
+  )
+  const row = result.rows[0]
+  if (!row) {
+    throw new Error('Webhook subscription was not saved')
+  }
+  return mapWebhookSubscriptionRow(row)
+}
+
+export async function setWebhookSubscriptionActive(
+  id: number,
+  active: boolean,
+  organizationId: OrganizationScope
+): Promise<boolean> {
+  const scope = buildOrganizationWhere(organizationId)
+  const result = await executeQuery(
+    `UPDATE webhook_subscriptions SET is_active = ? WHERE id = ? AND ${scope.where}`,
+    [active ? 1 : 0, id, ...scope.params]
+  )
+  return result.rowsAffected > 0
+}
+
+/**
+ * Removes a subscription together with its delivery log
+ */
+export async function deleteWebhookSubscription(
+  id: number,
+  organizationId: OrganizationScope
+): Promise<boolean> {
+  const scope = buildOrganizationWhere(organizationId)
+  const result = await executeQuery(
+    `DELETE FROM webhook_subscriptions WHERE id = ? AND ${scope.where}`,
+    [id, ...scope.params]
+  )
+  return result.rowsAffected > 0
+}
+
+const DELIVERY_SELECT = `SELECT webhook_deliveries.*, webhook_subscriptions.url, webhook_subscriptions.secret
+  FROM webhook_deliveries
+  JOIN webhook_subscriptions ON webhook_subscriptions.id = webhook_deliveries.subscription_id`
+
+/**
+ * Most recent deliveries across the organization's subscriptions, for the admin delivery log
+ */
+export async function listWebhookDeliveries(
+  organizationId: OrganizationScope,
+  limit = 50
+): Promise<WebhookDelivery[]> {
+  const scope = buildOrganizationWhere(organizationId, 'webhook_deliveries.organization_id')
+  const result = await executeQuery(
+    `${DELIVERY_SELECT} WHERE ${scope.where} ORDER BY webhook_deliveries.id DESC LIMIT ?`,
+    [...scope.params, limit]
+  )
+  return result.rows.map(mapWebhookDeliveryRow)
+}
+
+/**
+ * POSTs a signed JSON body to an endpoint. Redirects are not followed and only 2xx responses
+ * count as delivered.
+ */
+export async function sendWebhookRequest(
+  url: string,
+  secret: string,
+  headers: { id: string; event: string },
+  body: string,
+  options: WebhookRequestOptions = {}
+): Promise<WebhookRequestResult> {
+  const { fetch = globalThis.fetch, timeoutMs = REQUEST_TIMEOUT_MS } = options
+  const timestamp = Math.floor((options.now ?? Date.now()) / 1000)
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      redirect: 'manual',
+      signal: globalThis.AbortSignal.timeout(timeoutMs),
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'astro-basics-webhooks/1.0',
+        'X-Webhook-Id': headers.id,
+        'X-Webhook-Event': headers.event,
+        'X-Webhook-Timestamp': String(timestamp),
+        'X-Webhook-Signature': signWebhookPayload(secret, timestamp, body),
+      },
+      body,
+    })
+    // The response body is not used, release the connection
+    await response.body?.cancel()
+
+    return response.ok
+      ? { ok: true, status: response.status, error: null }
+      : { ok: false, status: response.status, error: `Endpoint responded with ${response.status}` }
+  } catch (error) {
+    return {
+      ok: false,
+      status: null,
+      error: error instanceof Error ? error.message : 'Unknown webhook error',
+    }
+  }
+}
+
+/**
+ * Makes one attempt at a delivery and records the outcome, scheduling the next retry on failure
+ */
+async function attemptDelivery(
+  delivery: WebhookDelivery,
+  secret: string,
+  options: WebhookRequestOptions
+): Promise<WebhookDeliveryStatus> {
+  const blocked = await checkWebhookEndpoint(delivery.url, options.lookup)
+  const result: WebhookRequestResult = blocked
+    ? { ok: false, status: null, error: blocked }
+    : await sendWebhookRequest(
+        delivery.url,
+        secret,
+        { id: String(delivery.id), event: delivery.event },
+        delivery.payload,
+        options
+      )
+  const attempts = delivery.attempts + 1
+  const delay = result.ok ? null : getRetryDelayMinutes(attempts)
+  const status: WebhookDeliveryStatus = result.ok
+    ? 'succeeded'
+    : delay === null
+      ? 'failed'
+      : 'pending'
+
+  // datetime() returns NULL for a NULL modifier, which clears next_attempt_at once finished
+  await executeQuery(
+    `UPDATE webhook_deliveries SET
+       status = ?, attempts = ?, response_status = ?, error = ?,
+       next_attempt_at = datetime('now', ?), updated_at = CURRENT_TIMESTAMP
+     WHERE id = ?`,
+    [
+      status,
+      attempts,
+      result.status,
+      result.error,
+      delay === null ? null : `+${delay} minutes`,
+      delivery.id,
+    ]
+  )
+
+  return status
+}
+
+async function createDelivery(
+  subscription: Pick<WebhookSubscription, 'id' | 'url' | 'organization_id'>,
+  payload: WebhookPayload
+): Promise<WebhookDelivery> {
+  const result = await executeQuery(
+    `INSERT INTO webhook_deliveries (subscription_id, organization_id, event, payload, next_attempt_at)
+     VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP)
+     RETURNING *`,
+    [subscription.id, subscription.organization_id, payload.event, JSON.stringify(payload)]
+  )
+  const row = result.rows[0]
+  if (!row) {
+    throw new Error('Webhook delivery was not saved')
+  }
+  return { ...mapWebhookDeliveryRow(row), url: subscription.url }
+}
+
+const createPayload = (event: string, data: Record<string, unknown>): WebhookPayload => ({
+  id: `evt_${randomUUID()}`,
+  event,
+  created_at: new Date().toISOString(),
+  data,
+})
+
+/**
+ * Sends an event to every active subscription of the organization the record belongs to that
+ * listens for it. Each delivery is logged and attempted once right away; failures are retried by
+ * {@link retryPendingWebhookDeliveries}. Never throws, so a broken endpoint cannot fail the
+ * request that raised the event.
+ * @returns The number of subscriptions the event was sent to
+ */
+export async function dispatchWebhookEvent(
+  event: WebhookEvent,
+  data: Record<string, unknown>,
+  organizationId: OrganizationId,
+  options: WebhookRequestOptions = {}
+): Promise<number> {
+  if (!isTursoConfigured()) {
+    return 0
+  }
+
+  try {
+    const result = await executeQuery(
+      `SELECT * FROM webhook_subscriptions
+       WHERE is_active = 1 AND organization_id IS ?
+         AND EXISTS (SELECT 1 FROM json_each(events) WHERE value = ?)`,
+      [organizationId, event]
+    )
+    const subscriptions = result.rows.map(mapWebhookSubscriptionRow)
+    const payload = createPayload(event, data)
+
+    await Promise.all(
+      subscriptions.map(async subscription => {
+        const delivery = await createDelivery(subscription, payload)
+        await attemptDelivery(delivery, subscription.secret, options)
+      })
+    )
+
+    return subscriptions.length
+  } catch (error) {
+    console.error(`Failed to dispatch ${event} webhooks:`, error)
+    return 0
+  }
+}
+
+/**
+ * Sends a test event to one subscription, whether or not it is active
+ */
+export async function sendTestWebhook(
+  subscriptionId: number,
+  organizationId: OrganizationScope,
+  options: WebhookRequestOptions = {}
+): Promise<WebhookDeliveryStatus | null> {
+  const scope = buildOrganizationWhere(organizationId)
+  const result = await executeQuery(
+    `SELECT * FROM webhook_subscriptions WHERE id = ? AND ${scope.where}`,
+    [subscriptionId, ...scope.params]
+  )
+  const row = result.rows[0]
+  if (!row) {
+    return null
+  }
+
+  const subscription = mapWebhookSubscriptionRow(row)
+  const delivery = await createDelivery(
+    subscription,
+    createPayload(WEBHOOK_TEST_EVENT, { subscription_id: subscription.id })
+  )
+  return attemptDelivery(delivery, subscription.secret, options)
+}
+
+/**
+ * Attempts a failed delivery again immediately, e.g. after fixing the receiving endpoint. Pending
+ * deliveries are left to the retry schedule and disabled webhooks are not sent to.
+ * @returns The new status, or null when there is no failed delivery of an active webhook
+ */
+export async function retryWebhookDelivery(
+  deliveryId: number,
+  organizationId: OrganizationScope,
+  options: WebhookRequestOptions = {}
+): Promise<WebhookDeliveryStatus | null> {
+  const scope = buildOrganizationWhere(organizationId, 'webhook_deliveries.organization_id')
+  const result = await executeQuery(
+    `${DELIVERY_SELECT}
+     WHERE webhook_deliveries.id = ?
+       AND webhook_deliveries.status = 'failed'
+       AND webhook_subscriptions.is_active = 1
+       AND ${scope.where}`,
+    [deliveryId, ...scope.params]
+  )
+  const row = result.rows[0]
+  return row ? attemptDelivery(mapWebhookDeliveryRow(row), String(row.secret), options) : null
+}
+
+/**
+ * Attempts deliveries whose retry is due, oldest first. Run it on a schedule. Two overlapping
+ * runs can send a delivery twice, so receivers should ignore repeated `X-Webhook-Id` values.
+ */
+export async function retryPendingWebhookDeliveries(
+  limit = 50,
+  options: WebhookRequestOptions = {}
+): Promise<WebhookRetryResult> {
+  const result = await executeQuery(
+    `${DELIVERY_SELECT}
+     WHERE webhook_deliveries.status = 'pending'
+       AND webhook_deliveries.next_attempt_at <= CURRENT_TIMESTAMP
+       AND webhook_subscriptions.is_active = 1
+     ORDER BY webhook_deliveries.next_attempt_at ASC
+     LIMIT ?`,
+    [limit]
+  )
+
+  const statuses = await Promise.all(
+    result.rows.map(row => attemptDelivery(mapWebhookDeliveryRow(row), String(row.secret), options))
+  )
+
+  return {
+    attempted: statuses.length,
+    succeeded: statuses.filter(status => status === 'succeeded').length,
+  }
+}
+
+/**
+ * Deletes succeeded and failed deliveries last updated more than `olderThanDays` ago. Payloads
+ * copy message contents, so the log should not be kept forever.
+ * @returns The number of deliveries deleted, or that would be deleted on a dry run
+ */
+export async function pruneWebhookDeliveries(
+  olderThanDays: number = WEBHOOK_DELIVERY_RETENTION_DAYS,
+  options: { dryRun?: boolean; now?: Date } = {}
+): Promise<number> {
+  const { dryRun = false, now = new Date() } = options
+  const where = `status != 'pending' AND updated_at < datetime(?, ?)`
+  const params = [now.toISOString(), `-${olderThanDays} days`]
+
+  if (dryRun) {
+    const result = await executeQuery(
+      `SELECT COUNT(*) AS count FROM webhook_deliveries WHERE ${where}`,
+      params
+    )
+    return Number(result.rows[0]?.count ?? 0)
+  }
+
+  const result = await executeQuery(`DELETE FROM webhook_deliveries WHERE ${where}`, params)
+  return result.rowsAffected
+}
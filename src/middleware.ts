@@ -2,6 +2,9 @@
 
 import { clerkMiddleware, createRouteMatcher } from '@clerk/astro/server'
 
+import { jsonResponse } from '#libs/http'
+import { canAccessAdmin, resolveOrganizationId } from '#libs/organizations'
+
 // Validate required environment variables
 if (!import.meta.env.PUBLIC_CLERK_PUBLISHABLE_KEY) {
   throw new Error(
@@ -14,7 +17,16 @@ if (!import.meta.env.CLERK_SECRET_KEY) {
   )
 }
 
-const isProtectedRoute = createRouteMatcher(['/dashboard(.*)', '/forum(.*)', '/organization(.*)'])
+const isProtectedRoute = createRouteMatcher([
+  '/dashboard(.*)',
+  '/forum(.*)',
+  '/organization(.*)',
+  '/admin(.*)',
+  '/api/admin(.*)',
+])
+
+const isAdminRoute = createRouteMatcher(['/admin(.*)', '/api/admin(.*)'])
+const isApiRoute = createRouteMatcher(['/api(.*)'])
 
 export const onRequest = clerkMiddleware((auth, context, next) => {
   // If the current route is protected and the user is not authenticated, redirect to sign-in
@@ -22,6 +34,18 @@ export const onRequest = clerkMiddleware((auth, context, next) => {
     return auth().redirectToSignIn()
   }
 
+  // Without an active organization the admin area would show the records stored outside any
+  // organization, which only the listed staff may see
+  if (isAdminRoute(context.request) && !canAccessAdmin(auth())) {
+    const message = 'The admin area needs an active organization or staff access'
+    return isApiRoute(context.request)
+      ? jsonResponse({ success: false, message }, 403)
+      : new Response(message, { status: 403, headers: { 'Content-Type': 'text/plain' } })
+  }
+
+  // Stored records are scoped to the active organization, see src/libs/organizations.ts
+  context.locals.organizationId = resolveOrganizationId(auth())
+
   // Allow other requests to proceed
   return next()
 })
@@ -0,0 +1,67 @@
+import type { APIRoute } from 'astro'
+
+import { jsonResponse } from '#libs/http'
+import { createLabel, deleteLabel, validateLabelName } from '#libs/message-labels'
+import { supportsMessageRecords } from '#libs/message-repository'
+
+export const prerender = false
+
+const LABELS_PATH = '/admin/messages'
+
+/**
+ * Creates (`action=create`, `name`) or deletes (`action=delete`, `id`) the active organization's
+ * message labels. Form posts return to the inbox with a `labels` notice.
+ */
+export const POST: APIRoute = async context => {
+  const { request, locals } = context
+
+  if (!locals.auth().userId) {
+    return jsonResponse({ success: false, message: 'Authentication required' }, 401)
+  }
+
+  if (!supportsMessageRecords()) {
+    return jsonResponse(
+      { success: false, message: 'Labels need the Turso message storage backend' },
+      501
+    )
+  }
+
+  const isJson = (request.headers.get('content-type') ?? '').includes('application/json')
+  let input: Record<string, unknown>
+  try {
+    input = isJson
+      ? ((await request.json()) as Record<string, unknown>)
+      : Object.fromEntries(await request.formData())
+  } catch {
+    return jsonResponse({ success: false, message: 'Invalid request body' }, 400)
+  }
+
+  const respond = (notice: string, body: Record<string, unknown>, status = 200) =>
+    isJson
+      ? jsonResponse({ success: status < 400, ...body }, status)
+      : context.redirect(`${LABELS_PATH}?labels=${notice}#labels`, 303)
+
+  try {
+    if (input.action === 'create') {
+      const validation = validateLabelName(input.name)
+      if (!validation.ok) {
+        return respond('invalid', { message: validation.error }, 400)
+      }
+      const label = await createLabel(validation.value, locals.organizationId)
+      return respond('created', { label }, 201)
+    }
+
+    if (input.action === 'delete') {
+      const id = Number(input.id)
+      const found = Number.isInteger(id) && id > 0 && (await deleteLabel(id, locals.organizationId))
+      return found
+        ? respond('deleted', { id })
+        : respond('not-found', { message: 'Unknown label' }, 404)
+    }
+
+    return jsonResponse({ success: false, message: 'Unknown action' }, 400)
+  } catch (error) {
+    console.error('Failed to update labels:', error)
+    return respond('failed', { message: 'The labels could not be updated' }, 500)
+  }
+}
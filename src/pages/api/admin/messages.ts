@@ -0,0 +1,72 @@
+import type { APIRoute } from 'astro'
+
+import { jsonResponse } from '#libs/http'
+import { applyBulkAction, getMessageRepository } from '#libs/message-repository'
+import { isMessageBulkAction } from '#libs/messages'
+import { deleteMessages } from '#libs/privacy'
+import { getStorageAdapter } from '#libs/storage'
+
+export const prerender = false
+
+const INBOX_PATH = '/admin/messages'
+
+/**
+ * Only allow redirects back into the inbox so `returnTo` cannot be used as an open redirect
+ */
+const getReturnPath = (value: FormDataEntryValue | null) =>
+  typeof value === 'string' && value.startsWith(INBOX_PATH) && !value.startsWith('//')
+    ? value
+    : INBOX_PATH
+
+export const POST: APIRoute = async context => {
+  const { request, locals } = context
+
+  if (!locals.auth().userId) {
+    return jsonResponse({ success: false, message: 'Authentication required' }, 401)
+  }
+
+  const isJson = (request.headers.get('content-type') ?? '').includes('application/json')
+  let action: unknown
+  let ids: number[]
+  let returnPath = INBOX_PATH
+
+  try {
+    if (isJson) {
+      const body = (await request.json()) as { action?: unknown; ids?: unknown }
+      action = body.action
+      ids = Array.isArray(body.ids) ? body.ids.map(Number) : []
+    } else {
+      const formData = await request.formData()
+      action = formData.get('action')
+      ids = formData.getAll('ids').map(Number)
+      returnPath = getReturnPath(formData.get('returnTo'))
+    }
+  } catch {
+    return jsonResponse({ success: false, message: 'Invalid request body' }, 400)
+  }
+
+  if (!isMessageBulkAction(action)) {
+    return jsonResponse({ success: false, message: 'Unknown action' }, 400)
+  }
+
+  try {
+    const updated =
+      action === 'delete'
+        ? (await deleteMessages(ids, getStorageAdapter(), locals.organizationId)).deletedMessages
+        : await applyBulkAction(action, ids, getMessageRepository(locals.organizationId))
+
+    return isJson
+      ? jsonResponse({ success: true, action, updated }, 200)
+      : context.redirect(returnPath, 303)
+  } catch (error) {
+    console.error('Failed to apply message action:', error)
+    return jsonResponse(
+      {
+        success: false,
+        message: 'Failed to update messages',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500
+    )
+  }
+}
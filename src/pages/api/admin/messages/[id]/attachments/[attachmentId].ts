@@ -0,0 +1,64 @@
+import type { APIRoute } from 'astro'
+
+import { getMessageAttachment } from '#libs/attachments'
+import { jsonResponse } from '#libs/http'
+import { getMessageRepository, supportsMessageRecords } from '#libs/message-repository'
+import { getStorageAdapter } from '#libs/storage'
+
+export const prerender = false
+
+/**
+ * RFC 6266 filename parameters, with an ASCII fallback for older clients
+ */
+const contentDisposition = (fileName: string) => {
+  const fallback = fileName.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '_')
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(fileName)}`
+}
+
+/**
+ * Downloads an attachment for signed-in staff. Files are always sent as attachments with
+ * sniffing disabled so uploaded content is never rendered on the site's origin.
+ */
+export const GET: APIRoute = async ({ params, locals }) => {
+  if (!locals.auth().userId) {
+    return jsonResponse({ success: false, message: 'Authentication required' }, 401)
+  }
+
+  if (!supportsMessageRecords()) {
+    return jsonResponse(
+      { success: false, message: 'Attachments need the Turso message storage backend' },
+      501
+    )
+  }
+
+  const messageId = Number.parseInt(params.id ?? '', 10)
+  const attachmentId = Number.parseInt(params.attachmentId ?? '', 10)
+  if (!Number.isInteger(messageId) || !Number.isInteger(attachmentId)) {
+    return jsonResponse({ success: false, message: 'Attachment not found' }, 404)
+  }
+
+  try {
+    // Only messages in the active organization expose their attachments
+    const message = await getMessageRepository(locals.organizationId).findById(messageId)
+    const attachment = message ? await getMessageAttachment(messageId, attachmentId) : null
+    const stored = attachment ? await getStorageAdapter().get(attachment.storage_key) : null
+    if (!attachment || !stored) {
+      return jsonResponse({ success: false, message: 'Attachment not found' }, 404)
+    }
+
+    return new Response(stored.body, {
+      status: 200,
+      headers: {
+        'Content-Type': attachment.content_type,
+        'Content-Length': String(stored.body.byteLength),
+        'Content-Disposition': contentDisposition(attachment.file_name),
+        'X-Content-Type-Options': 'nosniff',
+        'Content-Security-Policy': "default-src 'none'; sandbox",
+        'Cache-Control': 'private, no-store',
+      },
+    })
+  } catch (error) {
+    console.error('Failed to download attachment:', error)
+    return jsonResponse({ success: false, message: 'Failed to load the attachment' }, 500)
+  }
+}
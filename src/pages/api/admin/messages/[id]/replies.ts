@@ -0,0 +1,94 @@
+import type { APIRoute } from 'astro'
+
+import { jsonResponse } from '#libs/http'
+import { addMessageReply, getReplyAuthor, validateReplyInput } from '#libs/message-replies'
+import { getMessageRepository, supportsMessageRecords } from '#libs/message-repository'
+import { dispatchWebhookEvent } from '#libs/webhooks'
+
+export const prerender = false
+
+/**
+ * Adds a staff reply (emailed to the sender) or an internal note to a message
+ */
+export const POST: APIRoute = async context => {
+  const { request, locals, params } = context
+  const { userId } = locals.auth()
+
+  if (!userId) {
+    return jsonResponse({ success: false, message: 'Authentication required' }, 401)
+  }
+
+  if (!supportsMessageRecords()) {
+    return jsonResponse(
+      { success: false, message: 'Replies and notes need the Turso message storage backend' },
+      501
+    )
+  }
+
+  const id = Number.parseInt(params.id ?? '', 10)
+  const detailPath = `/admin/messages/${id}`
+  const isJson = (request.headers.get('content-type') ?? '').includes('application/json')
+  let input: { kind?: unknown; body?: unknown }
+
+  try {
+    if (isJson) {
+      input = (await request.json()) as { kind?: unknown; body?: unknown }
+    } else {
+      const formData = await request.formData()
+      input = { kind: formData.get('kind'), body: formData.get('body') }
+    }
+  } catch {
+    return jsonResponse({ success: false, message: 'Invalid request body' }, 400)
+  }
+
+  const validation = validateReplyInput(input)
+  if (!validation.ok) {
+    return isJson
+      ? jsonResponse({ success: false, message: validation.error }, 400)
+      : context.redirect(`${detailPath}?reply=invalid#conversation`, 303)
+  }
+
+  try {
+    const message = Number.isInteger(id)
+      ? await getMessageRepository(locals.organizationId).findById(id)
+      : null
+    if (!message) {
+      return jsonResponse({ success: false, message: 'Message not found' }, 404)
+    }
+
+    const author = getReplyAuthor(userId, await locals.currentUser())
+    const reply = await addMessageReply(message, validation.value, author)
+    // Internal notes stay internal
+    if (reply.kind === 'reply') {
+      await dispatchWebhookEvent(
+        'message.replied',
+        {
+          message: { id: message.id, email: message.email, subject: message.subject },
+          reply: {
+            id: reply.id,
+            body: reply.body,
+            author_name: reply.author_name,
+            delivery_status: reply.delivery_status,
+          },
+        },
+        message.organization_id
+      )
+    }
+
+    if (isJson) {
+      return jsonResponse({ success: true, reply }, 201)
+    }
+    const status = reply.delivery_status === 'failed' ? '?reply=failed' : ''
+    return context.redirect(`${detailPath}${status}#conversation`, 303)
+  } catch (error) {
+    console.error('Failed to add message reply:', error)
+    return jsonResponse(
+      {
+        success: false,
+        message: 'Failed to save the reply',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500
+    )
+  }
+}
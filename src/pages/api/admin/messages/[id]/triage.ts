@@ -0,0 +1,123 @@
+import type { APIRoute } from 'astro'
+
+import { jsonResponse } from '#libs/http'
+import { assignMessage, getMessageAssignment } from '#libs/message-assignments'
+import { createLabel, setMessageLabels, validateLabelName } from '#libs/message-labels'
+import { getMessageRepository, supportsMessageRecords } from '#libs/message-repository'
+import { UNASSIGNED, isAssigneeId } from '#libs/messages'
+import { listAssignees } from '#libs/staff'
+
+export const prerender = false
+
+interface TriageInput {
+  assignee?: unknown
+  labels?: unknown
+  newLabel?: unknown
+}
+
+/**
+ * Sets the assignee and labels of a message. `assignee` is the Clerk user id of a member of the
+ * message's organization, or empty to unassign; `labels` lists every label id the message should carry and `newLabel` creates and adds one more.
+ */
+export const POST: APIRoute = async context => {
+  const { request, locals, params } = context
+  const { userId } = locals.auth()
+
+  if (!userId) {
+    return jsonResponse({ success: false, message: 'Authentication required' }, 401)
+  }
+
+  if (!supportsMessageRecords()) {
+    return jsonResponse(
+      { success: false, message: 'Labels and assignments need the Turso message storage backend' },
+      501
+    )
+  }
+
+  const id = Number.parseInt(params.id ?? '', 10)
+  const detailPath = `/admin/messages/${id}`
+  const isJson = (request.headers.get('content-type') ?? '').includes('application/json')
+  let input: TriageInput
+
+  try {
+    if (isJson) {
+      input = (await request.json()) as TriageInput
+    } else {
+      const formData = await request.formData()
+      input = {
+        assignee: formData.get('assignee'),
+        labels: formData.getAll('labels'),
+        newLabel: formData.get('newLabel'),
+      }
+    }
+  } catch {
+    return jsonResponse({ success: false, message: 'Invalid request body' }, 400)
+  }
+
+  const invalid = (message: string) =>
+    isJson
+      ? jsonResponse({ success: false, message }, 400)
+      : context.redirect(`${detailPath}?triage=invalid`, 303)
+
+  const { assignee } = input
+  const unassign = assignee === null || assignee === undefined || assignee === ''
+  if (!unassign && assignee !== UNASSIGNED && !isAssigneeId(assignee)) {
+    return invalid('Unknown assignee')
+  }
+  const newLabel =
+    typeof input.newLabel === 'string' && input.newLabel.trim()
+      ? validateLabelName(input.newLabel)
+      : null
+  if (newLabel && !newLabel.ok) {
+    return invalid(newLabel.error)
+  }
+
+  try {
+    const message = Number.isInteger(id)
+      ? await getMessageRepository(locals.organizationId).findById(id)
+      : null
+    if (!message) {
+      return jsonResponse({ success: false, message: 'Message not found' }, 404)
+    }
+
+    // Only members who can see the message may be assigned; the current assignee may stay even
+    // after leaving, like the picker on the message page allows
+    const assigneeId = isAssigneeId(assignee) ? assignee : null
+    if (assigneeId) {
+      const [current, assignees] = await Promise.all([
+        getMessageAssignment(message.id),
+        listAssignees(context, userId, message.organization_id),
+      ])
+      if (
+        current?.assignee_id !== assigneeId &&
+        !assignees.some(candidate => candidate.id === assigneeId)
+      ) {
+        return invalid('Unknown assignee')
+      }
+    }
+
+    const labelIds = (Array.isArray(input.labels) ? input.labels : []).map(Number)
+    if (newLabel?.ok) {
+      labelIds.push((await createLabel(newLabel.value, message.organization_id)).id)
+    }
+
+    await Promise.all([
+      assignMessage(message.id, assigneeId, userId),
+      setMessageLabels(message.id, labelIds),
+    ])
+
+    return isJson
+      ? jsonResponse({ success: true, assignee: assigneeId }, 200)
+      : context.redirect(`${detailPath}?triage=saved`, 303)
+  } catch (error) {
+    console.error('Failed to update message triage:', error)
+    return jsonResponse(
+      {
+        success: false,
+        message: 'Failed to update the message',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500
+    )
+  }
+}
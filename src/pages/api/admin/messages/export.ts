@@ -0,0 +1,40 @@
+import type { APIRoute } from 'astro'
+
+import { jsonResponse } from '#libs/http'
+import {
+  EXPORT_CONTENT_TYPES,
+  createMessageExportStream,
+  getExportFilename,
+  isExportFormat,
+} from '#libs/message-export'
+import { getMessageRepository } from '#libs/message-repository'
+import { parseMessageSearch } from '#libs/messages'
+
+export const prerender = false
+
+/**
+ * Downloads messages matching the inbox query parameters, see {@link parseMessageSearch}
+ */
+export const GET: APIRoute = async ({ url, locals }) => {
+  if (!locals.auth().userId) {
+    return jsonResponse({ success: false, message: 'Authentication required' }, 401)
+  }
+
+  const format = url.searchParams.get('format') ?? 'csv'
+  if (!isExportFormat(format)) {
+    return jsonResponse({ success: false, message: 'Format must be csv or json' }, 400)
+  }
+
+  const search = parseMessageSearch(url.searchParams)
+
+  const repository = getMessageRepository(locals.organizationId)
+
+  return new Response(createMessageExportStream(search, format, repository), {
+    status: 200,
+    headers: {
+      'Content-Type': EXPORT_CONTENT_TYPES[format],
+      'Content-Disposition': `attachment; filename="${getExportFilename(search, format)}"`,
+      'Cache-Control': 'no-store',
+    },
+  })
+}
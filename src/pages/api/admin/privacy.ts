@@ -0,0 +1,89 @@
+import type { APIRoute } from 'astro'
+
+import { jsonResponse } from '#libs/http'
+import { erasePersonalData, exportPersonalData, normalizeEmail } from '#libs/privacy'
+
+export const prerender = false
+
+const PRIVACY_PATH = '/admin/privacy'
+
+/**
+ * Downloads everything the active organization stores about `?email=` as JSON, to answer a data
+ * access request
+ */
+export const GET: APIRoute = async ({ url, locals }) => {
+  if (!locals.auth().userId) {
+    return jsonResponse({ success: false, message: 'Authentication required' }, 401)
+  }
+
+  const email = normalizeEmail(url.searchParams.get('email'))
+  if (!email) {
+    return jsonResponse({ success: false, message: 'A valid email address is required' }, 400)
+  }
+
+  try {
+    const data = await exportPersonalData(email, { organizationId: locals.organizationId })
+    const slug = email.replace(/[^a-z0-9]+/g, '-')
+
+    return new Response(JSON.stringify(data, null, 2), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="personal-data_${slug}.json"`,
+        'Cache-Control': 'no-store',
+      },
+    })
+  } catch (error) {
+    console.error('Failed to export personal data:', error)
+    return jsonResponse({ success: false, message: 'Failed to export personal data' }, 500)
+  }
+}
+
+/**
+ * Erases everything the active organization stores about an email address. The address must be
+ * typed twice, as `email` and `confirm`, because the deletion cannot be undone.
+ */
+export const POST: APIRoute = async context => {
+  const { request, locals } = context
+
+  if (!locals.auth().userId) {
+    return jsonResponse({ success: false, message: 'Authentication required' }, 401)
+  }
+
+  const isJson = (request.headers.get('content-type') ?? '').includes('application/json')
+  const fail = (error: string, message: string, status: number) =>
+    isJson
+      ? jsonResponse({ success: false, message }, status)
+      : context.redirect(`${PRIVACY_PATH}?error=${error}`, 303)
+
+  let body: { email?: unknown; confirm?: unknown }
+  try {
+    body = isJson
+      ? ((await request.json()) as typeof body)
+      : Object.fromEntries(await request.formData())
+  } catch {
+    return jsonResponse({ success: false, message: 'Invalid request body' }, 400)
+  }
+
+  const email = normalizeEmail(body.email)
+  if (!email) {
+    return fail('invalid', 'A valid email address is required', 400)
+  }
+  if (normalizeEmail(body.confirm) !== email) {
+    return fail('confirm', 'The confirmation does not match the email address', 400)
+  }
+
+  try {
+    const result = await erasePersonalData(email, { organizationId: locals.organizationId })
+
+    return isJson
+      ? jsonResponse({ success: true, ...result }, 200)
+      : context.redirect(
+          `${PRIVACY_PATH}?erased=${result.deletedMessages}&submissions=${result.deletedFormSubmissions}`,
+          303
+        )
+  } catch (error) {
+    console.error('Failed to erase personal data:', error)
+    return fail('failed', 'Failed to erase personal data', 500)
+  }
+}
@@ -0,0 +1,107 @@
+import type { APIRoute } from 'astro'
+
+import { jsonResponse } from '#libs/http'
+import {
+  checkWebhookEndpoint,
+  createWebhookSubscription,
+  deleteWebhookSubscription,
+  retryWebhookDelivery,
+  sendTestWebhook,
+  setWebhookSubscriptionActive,
+  validateWebhookInput,
+} from '#libs/webhooks'
+
+export const prerender = false
+
+const WEBHOOKS_PATH = '/admin/webhooks'
+
+const WEBHOOK_ACTIONS = ['create', 'enable', 'disable', 'delete', 'test', 'retry'] as const
+
+type WebhookAction = (typeof WEBHOOK_ACTIONS)[number]
+
+const isWebhookAction = (value: unknown): value is WebhookAction =>
+  typeof value === 'string' && (WEBHOOK_ACTIONS as readonly string[]).includes(value)
+
+/**
+ * Manages the active organization's webhook subscriptions from the admin page. Form posts carry
+ * an `action` and either the subscription fields (`url`, repeated `events`, `description`) or the
+ * `id` to act on.
+ */
+export const POST: APIRoute = async context => {
+  const { request, locals } = context
+
+  if (!locals.auth().userId) {
+    return jsonResponse({ success: false, message: 'Authentication required' }, 401)
+  }
+
+  const isJson = (request.headers.get('content-type') ?? '').includes('application/json')
+  let input: Record<string, unknown>
+  try {
+    if (isJson) {
+      input = (await request.json()) as Record<string, unknown>
+    } else {
+      const formData = await request.formData()
+      input = { ...Object.fromEntries(formData), events: formData.getAll('events') }
+    }
+  } catch {
+    return jsonResponse({ success: false, message: 'Invalid request body' }, 400)
+  }
+
+  const { action } = input
+  if (!isWebhookAction(action)) {
+    return jsonResponse({ success: false, message: 'Unknown action' }, 400)
+  }
+
+  const respond = (notice: string, body: Record<string, unknown>, status = 200) =>
+    isJson
+      ? jsonResponse({ success: status < 400, ...body }, status)
+      : context.redirect(`${WEBHOOKS_PATH}?notice=${notice}`, 303)
+
+  try {
+    if (action === 'create') {
+      const validation = validateWebhookInput(input)
+      if (!validation.ok) {
+        return respond('invalid', { message: validation.error }, 400)
+      }
+      const blocked = await checkWebhookEndpoint(validation.value.url)
+      if (blocked) {
+        return respond('invalid', { message: blocked }, 400)
+      }
+      const subscription = await createWebhookSubscription(validation.value, locals.organizationId)
+      return respond('created', { subscription }, 201)
+    }
+
+    const id = Number(input.id)
+    if (!Number.isInteger(id) || id < 1) {
+      return respond('not-found', { message: 'Unknown webhook' }, 404)
+    }
+
+    if (action === 'test' || action === 'retry') {
+      const status =
+        action === 'test'
+          ? await sendTestWebhook(id, locals.organizationId)
+          : await retryWebhookDelivery(id, locals.organizationId)
+      if (status) {
+        return respond(status === 'succeeded' ? 'delivered' : 'undelivered', { status })
+      }
+      return action === 'test'
+        ? respond('not-found', { message: 'Unknown webhook' }, 404)
+        : respond(
+            'not-retryable',
+            { message: 'Only failed deliveries of active webhooks can be retried' },
+            409
+          )
+    }
+
+    const found =
+      action === 'delete'
+        ? await deleteWebhookSubscription(id, locals.organizationId)
+        : await setWebhookSubscriptionActive(id, action === 'enable', locals.organizationId)
+    return found
+      ? respond(action === 'delete' ? 'deleted' : 'updated', { id })
+      : respond('not-found', { message: 'Unknown webhook' }, 404)
+  } catch (error) {
+    console.error(`Failed to ${action} webhook:`, error)
+    return respond('failed', { message: 'The webhook could not be updated' }, 500)
+  }
+}
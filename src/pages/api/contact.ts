@@ -0,0 +1,154 @@
+import type { APIRoute } from 'astro'
+
+import { checkSubmission, getSpamProtectionConfig } from '#libs/anti-spam'
+import {
+  ATTACHMENT_LIMITS,
+  getAttachmentFiles,
+  saveMessageAttachments,
+  validateAttachments,
+} from '#libs/attachments'
+import {
+  createContactMessage,
+  getRequestMeta,
+  readContactPayload,
+  validateContactSubmission,
+} from '#libs/contact'
+import type { ContactSubmitResult } from '#libs/contact'
+import {
+  getReturnPath,
+  jsonResponse as toJsonResponse,
+  readBodyWithin,
+  wantsJson,
+} from '#libs/http'
+import { supportsMessageRecords } from '#libs/message-repository'
+import { notifyNewMessage, sendAutoReply } from '#libs/notifications'
+import { getDefaultOrganizationId } from '#libs/organizations'
+import { settleWithin } from '#libs/resilience'
+import { dispatchWebhookEvent } from '#libs/webhooks'
+import { CONTACT_INFO } from '#utils/site-config'
+
+export const prerender = false
+
+// Allowance for the text fields and multipart boundaries on top of the attachments
+const MAX_BODY_BYTES = ATTACHMENT_LIMITS.maxTotalSize + 1024 * 1024
+
+// Longest a visitor waits for emails and webhooks, slower deliveries finish after the response
+const FOLLOW_UP_DEADLINE_MS = 3000
+
+const CONTACT_PATH = '/contact'
+
+// Typed so every response matches the documented ContactSubmitResult
+const jsonResponse = (body: ContactSubmitResult, status: number) => toJsonResponse(body, status)
+
+export const POST: APIRoute = async context => {
+  const { request } = context
+  const asJson = wantsJson(request)
+
+  const body = await readBodyWithin(request, MAX_BODY_BYTES)
+  if (!body) {
+    return asJson
+      ? jsonResponse({ success: false, message: 'The submission is too large' }, 413)
+      : context.redirect(getReturnPath(request, CONTACT_PATH, 'too-large'), 303)
+  }
+
+  const payload = await readContactPayload(body)
+  if (!payload.ok) {
+    return asJson
+      ? jsonResponse({ success: false, message: 'Invalid request body' }, 400)
+      : context.redirect(getReturnPath(request, CONTACT_PATH, 'invalid'), 303)
+  }
+
+  const meta = getRequestMeta(context)
+  const spamCheck = await checkSubmission({ payload: payload.value, meta, formName: 'contact-us' })
+  if (!spamCheck.ok) {
+    const rateLimited = spamCheck.reason === 'rate-limited'
+    if (!asJson) {
+      return context.redirect(
+        getReturnPath(request, CONTACT_PATH, rateLimited ? 'rate-limited' : 'spam'),
+        303
+      )
+    }
+
+    const response = jsonResponse(
+      {
+        success: false,
+        message: rateLimited
+          ? 'Too many messages, please try again later'
+          : 'Your submission could not be accepted, please reload the page and try again',
+      },
+      rateLimited ? 429 : 400
+    )
+    if (rateLimited) {
+      const retryAfter = Math.ceil(getSpamProtectionConfig().rateLimitWindowMs / 1000)
+      response.headers.set('Retry-After', String(retryAfter))
+    }
+    return response
+  }
+
+  const validation = validateContactSubmission(payload.value)
+  if (!validation.ok) {
+    return asJson
+      ? jsonResponse(
+          {
+            success: false,
+            message: 'Please correct the highlighted fields',
+            errors: validation.errors,
+          },
+          400
+        )
+      : context.redirect(getReturnPath(request, CONTACT_PATH, 'validation'), 303)
+  }
+
+  const files = getAttachmentFiles(payload.value)
+  // Attachment rows refer to the message, which Turso cannot check when messages are elsewhere
+  if (files.length > 0 && !supportsMessageRecords()) {
+    return asJson
+      ? jsonResponse({ success: false, message: 'Attachments are not accepted' }, 400)
+      : context.redirect(getReturnPath(request, CONTACT_PATH, 'attachments'), 303)
+  }
+  const attachments = files.length > 0 ? await validateAttachments(files) : null
+  if (attachments && !attachments.ok) {
+    return asJson
+      ? jsonResponse({ success: false, message: attachments.error }, 400)
+      : context.redirect(getReturnPath(request, CONTACT_PATH, 'attachments'), 303)
+  }
+
+  try {
+    const id = await createContactMessage(validation.value, meta)
+
+    if (attachments?.value.length) {
+      try {
+        await saveMessageAttachments(id, attachments.value)
+      } catch (error) {
+        // The message itself is stored, so report the lost files rather than failing the request
+        console.error(`Failed to save attachments for message ${id}:`, error)
+      }
+    }
+    // Outcomes are recorded in message_notifications and webhook_deliveries, so a slow SMTP
+    // server or webhook endpoint only delays the response up to the deadline
+    await settleWithin(
+      [
+        notifyNewMessage(id, validation.value),
+        sendAutoReply(id, validation.value),
+        dispatchWebhookEvent(
+          'message.created',
+          { message: { id, ...validation.value }, attachments: attachments?.value.length ?? 0 },
+          getDefaultOrganizationId()
+        ),
+      ],
+      FOLLOW_UP_DEADLINE_MS
+    )
+
+    return asJson
+      ? jsonResponse({ success: true, id }, 201)
+      : context.redirect(CONTACT_INFO.url, 303)
+  } catch (error) {
+    console.error('Failed to save contact message:', error)
+    return asJson
+      ? jsonResponse(
+          { success: false, message: 'We could not save your message, please try again later' },
+          500
+        )
+      : context.redirect(getReturnPath(request, CONTACT_PATH, 'server'), 303)
+  }
+}
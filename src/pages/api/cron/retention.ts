@@ -0,0 +1,33 @@
+import type { APIRoute } from 'astro'
+
+import { authorizeCronRequest } from '#libs/cron'
+import { jsonResponse } from '#libs/http'
+import { applyRetentionPolicy } from '#libs/privacy'
+
+export const prerender = false
+
+/**
+ * Applies the retention policy on a schedule. Callers send `Authorization: Bearer <CRON_SECRET>`
+ * and may add `?dryRun=1` to only count affected rows.
+ */
+export const GET: APIRoute = async ({ request, url }) => {
+  const authorization = authorizeCronRequest(request)
+  if (authorization === 'unconfigured') {
+    return jsonResponse({ success: false, message: 'CRON_SECRET is not configured' }, 503)
+  }
+  if (authorization === 'unauthorized') {
+    return jsonResponse({ success: false, message: 'Unauthorized' }, 401)
+  }
+
+  try {
+    const result = await applyRetentionPolicy(undefined, {
+      dryRun: url.searchParams.get('dryRun') === '1',
+    })
+    return jsonResponse({ success: true, ...result }, 200)
+  } catch (error) {
+    console.error('Retention run failed:', error)
+    return jsonResponse({ success: false, message: 'Retention run failed' }, 500)
+  }
+}
+
+export const POST = GET
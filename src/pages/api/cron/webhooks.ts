@@ -0,0 +1,34 @@
+import type { APIRoute } from 'astro'
+
+import { authorizeCronRequest } from '#libs/cron'
+import { jsonResponse } from '#libs/http'
+import { getRetentionPolicy } from '#libs/privacy'
+import { pruneWebhookDeliveries, retryPendingWebhookDeliveries } from '#libs/webhooks'
+
+export const prerender = false
+
+/**
+ * Retries webhook deliveries whose backoff has elapsed and prunes old finished ones. Schedule it every minute or two with
+ * `Authorization: Bearer <CRON_SECRET>`.
+ */
+export const GET: APIRoute = async ({ request }) => {
+  const authorization = authorizeCronRequest(request)
+  if (authorization === 'unconfigured') {
+    return jsonResponse({ success: false, message: 'CRON_SECRET is not configured' }, 503)
+  }
+  if (authorization === 'unauthorized') {
+    return jsonResponse({ success: false, message: 'Unauthorized' }, 401)
+  }
+
+  try {
+    const result = await retryPendingWebhookDeliveries()
+    const { deleteWebhookDeliveriesAfterDays: days } = getRetentionPolicy()
+    const pruned = days === null ? 0 : await pruneWebhookDeliveries(days)
+    return jsonResponse({ success: true, ...result, pruned }, 200)
+  } catch (error) {
+    console.error('Webhook retry run failed:', error)
+    return jsonResponse({ success: false, message: 'Webhook retry run failed' }, 500)
+  }
+}
+
+export const POST = GET
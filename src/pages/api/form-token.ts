@@ -0,0 +1,15 @@
+import type { APIRoute } from 'astro'
+
+import { createFormToken } from '#libs/anti-spam'
+
+export const prerender = false
+
+export const GET: APIRoute = async () => {
+  return new Response(JSON.stringify({ token: createFormToken() }), {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store',
+    },
+  })
+}
@@ -0,0 +1,104 @@
+import type { APIRoute } from 'astro'
+
+import { getFormDefinition } from '#data/forms'
+import { checkSubmission, getSpamProtectionConfig } from '#libs/anti-spam'
+import { getRequestMeta } from '#libs/contact'
+import { createFormSubmission, readFormPayload } from '#libs/form-submissions'
+import { getReturnPath, jsonResponse as toJsonResponse, wantsJson } from '#libs/http'
+import { getDefaultOrganizationId } from '#libs/organizations'
+import { dispatchWebhookEvent } from '#libs/webhooks'
+import { validateFormValues } from '#utils/forms'
+import type { FormErrors } from '#utils/forms'
+import { CONTACT_INFO } from '#utils/site-config'
+
+export const prerender = false
+
+type FormSubmitResult =
+  | { success: true; id: number }
+  | { success: false; message: string; errors?: FormErrors }
+
+// Typed so every response matches the documented FormSubmitResult
+const jsonResponse = (body: FormSubmitResult, status: number) => toJsonResponse(body, status)
+
+/**
+ * Accepts submissions for any form in `src/data/forms.ts`
+ */
+export const POST: APIRoute = async context => {
+  const { request, params } = context
+  const definition = getFormDefinition(params.formId)
+  if (!definition) {
+    return jsonResponse({ success: false, message: 'Form not found' }, 404)
+  }
+
+  const asJson = wantsJson(request)
+  const formPath = `/forms/${definition.id}`
+
+  const payload = await readFormPayload(request)
+  if (!payload.ok) {
+    return asJson
+      ? jsonResponse({ success: false, message: 'Invalid request body' }, 400)
+      : context.redirect(getReturnPath(request, formPath, 'invalid'), 303)
+  }
+
+  const meta = getRequestMeta(context)
+  const spamCheck = await checkSubmission({
+    payload: payload.value,
+    meta,
+    formName: definition.id,
+  })
+  if (!spamCheck.ok) {
+    const rateLimited = spamCheck.reason === 'rate-limited'
+    if (!asJson) {
+      return context.redirect(
+        getReturnPath(request, formPath, rateLimited ? 'rate-limited' : 'spam'),
+        303
+      )
+    }
+
+    const response = jsonResponse(
+      {
+        success: false,
+        message: rateLimited
+          ? 'Too many submissions, please try again later'
+          : 'Your submission could not be accepted, please reload the page and try again',
+      },
+      rateLimited ? 429 : 400
+    )
+    if (rateLimited) {
+      const retryAfter = Math.ceil(getSpamProtectionConfig().rateLimitWindowMs / 1000)
+      response.headers.set('Retry-After', String(retryAfter))
+    }
+    return response
+  }
+
+  const { values, errors } = validateFormValues(definition, payload.value)
+  if (Object.keys(errors).length > 0) {
+    return asJson
+      ? jsonResponse(
+          { success: false, message: 'Please correct the highlighted fields', errors },
+          400
+        )
+      : context.redirect(getReturnPath(request, formPath, 'validation'), 303)
+  }
+
+  try {
+    const id = await createFormSubmission(definition.id, values, meta)
+    await dispatchWebhookEvent(
+      'form.submitted',
+      { form_id: definition.id, submission: { id, data: values } },
+      getDefaultOrganizationId()
+    )
+
+    return asJson
+      ? jsonResponse({ success: true, id }, 201)
+      : context.redirect(definition.successUrl ?? CONTACT_INFO.url, 303)
+  } catch (error) {
+    console.error(`Failed to save ${definition.id} submission:`, error)
+    return asJson
+      ? jsonResponse(
+          { success: false, message: 'We could not save your submission, please try again later' },
+          500
+        )
+      : context.redirect(getReturnPath(request, formPath, 'server'), 303)
+  }
+}
@@ -0,0 +1,22 @@
+import type { APIRoute } from 'astro'
+
+import { getDatabaseHealth } from '#libs/turso'
+
+export const prerender = false
+
+/**
+ * Health check for load balancers and uptime monitors. Responds 503 while the database circuit
+ * breaker is open, without sending a query.
+ */
+export const GET: APIRoute = async () => {
+  const database = getDatabaseHealth()
+  const healthy = database.circuit.state !== 'open'
+
+  return new Response(JSON.stringify({ status: healthy ? 'ok' : 'degraded', database }), {
+    status: healthy ? 200 : 503,
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store',
+    },
+  })
+}
@@ -0,0 +1,69 @@
+/**
+ * Client-safe attachment rules shared by the contact forms and `src/libs/attachments.ts`
+ */
+
+/**
+ * Name of the file input on the contact forms
+ */
+export const ATTACHMENT_FIELD = 'attachments'
+
+export const ATTACHMENT_LIMITS = {
+  maxFiles: 3,
+  maxFileSize: 5 * 1024 * 1024,
+  maxTotalSize: 10 * 1024 * 1024,
+} as const
+
+/**
+ * MIME types accepted for attachments, mapped to the extensions offered in the file picker
+ */
+export const ALLOWED_ATTACHMENT_TYPES = {
+  'image/png': '.png',
+  'image/jpeg': '.jpg,.jpeg',
+  'image/gif': '.gif',
+  'image/webp': '.webp',
+  'application/pdf': '.pdf',
+  'text/plain': '.txt',
+} as const satisfies Record<string, string>
+
+export type AttachmentContentType = keyof typeof ALLOWED_ATTACHMENT_TYPES
+
+/** Value for the file input's `accept` attribute */
+export const ATTACHMENT_ACCEPT = [
+  ...Object.keys(ALLOWED_ATTACHMENT_TYPES),
+  ...Object.values(ALLOWED_ATTACHMENT_TYPES),
+].join(',')
+
+export function isAllowedAttachmentType(type: string): type is AttachmentContentType {
+  return Object.prototype.hasOwnProperty.call(ALLOWED_ATTACHMENT_TYPES, type)
+}
+
+const formatMegabytes = (bytes: number) => `${Math.round(bytes / (1024 * 1024))} MB`
+
+/**
+ * Checks the count, size and declared type of selected files
+ * @returns The error message, or null when the files are acceptable
+ */
+export function validateAttachmentList(
+  files: readonly Pick<File, 'name' | 'size' | 'type'>[]
+): string | null {
+  if (files.length > ATTACHMENT_LIMITS.maxFiles) {
+    return `You can attach up to ${ATTACHMENT_LIMITS.maxFiles} files`
+  }
+
+  let total = 0
+  for (const file of files) {
+    if (!isAllowedAttachmentType(file.type)) {
+      return `${file.name} is not a supported file type`
+    }
+    if (file.size > ATTACHMENT_LIMITS.maxFileSize) {
+      return `${file.name} is larger than ${formatMegabytes(ATTACHMENT_LIMITS.maxFileSize)}`
+    }
+    total += file.size
+  }
+
+  if (total > ATTACHMENT_LIMITS.maxTotalSize) {
+    return `Attachments must add up to ${formatMegabytes(ATTACHMENT_LIMITS.maxTotalSize)} or less`
+  }
+
+  return null
+}
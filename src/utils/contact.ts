@@ -1,59 +1,150 @@
+import { FORM_ERROR_MESSAGES } from '../constants/formErrors'
+
+/**
+ * Shared contact form rules used by the Astro scripts, the React forms and `/api/contact`.
+ * Lengths mirror the CHECK constraints on the `messages` table.
+ */
+
+export interface ContactFieldRule {
+  readonly required: boolean
+  readonly maxLength?: number
+  readonly pattern?: RegExp
+  readonly messages: {
+    readonly required?: string
+    readonly pattern?: string
+    readonly maxLength?: string
+  }
+}
+
+export const CONTACT_FORM_SCHEMA = {
+  name: {
+    required: true,
+    maxLength: 255,
+    messages: { required: FORM_ERROR_MESSAGES.name, maxLength: FORM_ERROR_MESSAGES.nameTooLong },
+  },
+  email: {
+    required: true,
+    pattern: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+    messages: {
+      required: FORM_ERROR_MESSAGES.emailRequired,
+      pattern: FORM_ERROR_MESSAGES.emailInvalid,
+    },
+  },
+  phone: {
+    required: false,
+    maxLength: 50,
+    pattern: /^[\d\s-()]{7,}$/,
+    messages: {
+      pattern: FORM_ERROR_MESSAGES.phoneInvalid,
+      maxLength: FORM_ERROR_MESSAGES.phoneTooLong,
+    },
+  },
+  subject: {
+    required: true,
+    maxLength: 500,
+    messages: {
+      required: FORM_ERROR_MESSAGES.subject,
+      maxLength: FORM_ERROR_MESSAGES.subjectTooLong,
+    },
+  },
+  message: {
+    required: true,
+    maxLength: 5000,
+    messages: {
+      required: FORM_ERROR_MESSAGES.message,
+      maxLength: FORM_ERROR_MESSAGES.messageTooLong,
+    },
+  },
+} as const satisfies Record<string, ContactFieldRule>
+
+export type ContactField = keyof typeof CONTACT_FORM_SCHEMA
+
+export type ContactValues = Record<ContactField, string>
+
+export type ContactErrors = Partial<Record<ContactField, string>>
+
+export const CONTACT_FIELDS = Object.keys(CONTACT_FORM_SCHEMA) as ContactField[]
+
+export function isContactField(name: string): name is ContactField {
+  return Object.prototype.hasOwnProperty.call(CONTACT_FORM_SCHEMA, name)
+}
+
+/**
+ * Validates a single field
+ * @returns The error message, or null when the value is valid
+ */
+export function validateContactField(field: ContactField, value: unknown): string | null {
+  const rule: ContactFieldRule = CONTACT_FORM_SCHEMA[field]
+  const text = typeof value === 'string' ? value.trim() : ''
+
+  if (!text) {
+    return rule.required ? (rule.messages.required ?? 'This field is required') : null
+  }
+  if (rule.maxLength !== undefined && text.length > rule.maxLength) {
+    return rule.messages.maxLength ?? `Must be ${rule.maxLength} characters or fewer`
+  }
+  if (rule.pattern && !rule.pattern.test(text)) {
+    return rule.messages.pattern ?? 'This value is not valid'
+  }
+  return null
+}
+
+/**
+ * Validates every contact field, ignoring any extra keys in the input
+ */
+export function validateContactValues(
+  input: Readonly<Partial<Record<ContactField, unknown>>>
+): ContactErrors {
+  const errors: ContactErrors = {}
+
+  for (const field of CONTACT_FIELDS) {
+    const error = validateContactField(field, input[field])
+    if (error) {
+      errors[field] = error
+    }
+  }
+
+  return errors
+}
+
+/**
+ * Wires schema validation into a server-rendered contact form, showing the message in the
+ * element following each field and submitting natively once every field passes
+ */
 export function validateForm(form: HTMLFormElement) {
   if (form) {
     form.addEventListener('submit', e => {
       e.preventDefault()
-      validateForm(form)
-    })
 
-    function validateForm(form: HTMLFormElement) {
-      const fields = form.querySelectorAll('input, textarea') as NodeListOf<
-        HTMLInputElement | HTMLTextAreaElement
-      >
       let isValid = true
 
-      fields.forEach(field => {
-        const value = field.value.trim()
-        let fieldValid = true
-        let errorMessage = ''
-
-        if (field.required && !value) {
-          fieldValid = false
-          errorMessage = 'This field is required'
-        } else if (field.type === 'email' && value && !isValidEmail(value)) {
-          fieldValid = false
-          errorMessage = 'Please enter a valid email address'
-        } else if (field.id === 'phone' && value && !isValidPhone(value)) {
-          fieldValid = false
-          errorMessage = 'Please enter a valid phone number'
-        }
-
-        setFieldValidity(field, fieldValid, errorMessage)
-        if (!fieldValid) isValid = false
-      })
+      for (const name of CONTACT_FIELDS) {
+        const field = form.elements.namedItem(name)
+        if (!(field instanceof HTMLInputElement || field instanceof HTMLTextAreaElement)) continue
+
+        const errorMessage = validateContactField(name, field.value)
+        setFieldValidity(field, errorMessage)
+        if (errorMessage) isValid = false
+      }
 
       if (isValid) {
         form.submit()
       }
-    }
-
-    function isValidEmail(email: string) {
-      return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)
-    }
-
-    function isValidPhone(phone: string) {
-      return /^[\d\s-()]{7,}$/.test(phone)
-    }
+    })
+  }
 
-    function setFieldValidity(field: HTMLElement, isValid: boolean, _errorMessage: string) {
-      const errorElement = field.nextElementSibling as HTMLElement
+  function setFieldValidity(field: HTMLElement, errorMessage: string | null) {
+    const errorElement = field.nextElementSibling as HTMLElement | null
 
-      if (isValid) {
-        field.classList.remove('invalid')
-        errorElement?.classList.add('error-msg')
-      } else {
-        field.classList.add('invalid')
-        errorElement?.classList.remove('error-msg')
-      }
+    if (!errorMessage) {
+      field.classList.remove('invalid')
+      field.removeAttribute('aria-invalid')
+      errorElement?.classList.add('error-msg')
+    } else {
+      field.classList.add('invalid')
+      field.setAttribute('aria-invalid', 'true')
+      errorElement?.classList.remove('error-msg')
+      if (errorElement) errorElement.textContent = errorMessage
     }
   }
 }
@@ -0,0 +1,34 @@
+/**
+ * Client-safe helpers for the spam protection fields checked by `src/libs/anti-spam.ts`
+ */
+
+/**
+ * Name of the hidden field bots tend to fill in (shared with Netlify's `data-netlify-honeypot`)
+ */
+export const HONEYPOT_FIELD = 'bot-field'
+
+/**
+ * Name of the hidden field carrying the signed timestamp from `/api/form-token`
+ */
+export const FORM_TOKEN_FIELD = 'form_token'
+
+export const FORM_TOKEN_ENDPOINT = '/api/form-token'
+
+/**
+ * Fetches a fresh token into the form's hidden token field.
+ * Pages are prerendered, so the token has to be requested when the form is shown.
+ */
+export async function attachFormToken(form: HTMLFormElement): Promise<void> {
+  const field = form.elements.namedItem(FORM_TOKEN_FIELD)
+  if (!(field instanceof HTMLInputElement)) {
+    return
+  }
+
+  try {
+    const response = await window.fetch(FORM_TOKEN_ENDPOINT, { cache: 'no-store' })
+    const body = (await response.json()) as { token?: string }
+    field.value = body.token ?? ''
+  } catch (error) {
+    console.error('Failed to load form token:', error)
+  }
+}
@@ -0,0 +1,188 @@
+import { CONTACT_FORM_SCHEMA } from './contact'
+
+/**
+ * Typed form definitions rendered by the `FormBuilder` components and validated again by
+ * `/api/forms/[formId]`. Client-safe, so keep server-only imports out of this module.
+ */
+
+export interface FieldOption {
+  readonly value: string
+  readonly label: string
+}
+
+export interface FieldMessages {
+  readonly required?: string
+  readonly pattern?: string
+  readonly maxLength?: string
+  readonly option?: string
+}
+
+interface BaseField {
+  /** Submitted field name, also used to build element ids */
+  readonly name: string
+  readonly label: string
+  readonly required?: boolean
+  /** Help text rendered under the label */
+  readonly description?: string
+  readonly messages?: FieldMessages
+}
+
+export interface TextField extends BaseField {
+  readonly type: 'text' | 'email' | 'tel' | 'url'
+  readonly maxLength?: number
+  readonly pattern?: RegExp
+  readonly placeholder?: string
+  readonly autocomplete?: string
+}
+
+export interface TextareaField extends BaseField {
+  readonly type: 'textarea'
+  readonly maxLength?: number
+  readonly rows?: number
+  readonly placeholder?: string
+}
+
+export interface SelectField extends BaseField {
+  readonly type: 'select'
+  readonly options: readonly FieldOption[]
+  /** Label of the empty first option */
+  readonly placeholder?: string
+}
+
+export interface RadioField extends BaseField {
+  readonly type: 'radio'
+  readonly options: readonly FieldOption[]
+}
+
+/**
+ * A group of checkboxes submitting every checked value. Use a single option for consent boxes.
+ */
+export interface CheckboxField extends BaseField {
+  readonly type: 'checkbox'
+  readonly options: readonly FieldOption[]
+}
+
+export type FormField = TextField | TextareaField | SelectField | RadioField | CheckboxField
+
+export type FormFieldType = FormField['type']
+
+export interface FormDefinition {
+  /** URL-safe identifier, used in `/api/forms/[formId]` and stored with each submission */
+  readonly id: string
+  readonly title: string
+  readonly description?: string
+  readonly submitLabel: string
+  readonly fields: readonly FormField[]
+  /** Where plain form posts land after a successful submission */
+  readonly successUrl?: string
+}
+
+export type FormValue = string | string[]
+
+export type FormValues = Record<string, FormValue>
+
+export type FormErrors = Record<string, string>
+
+/** Fields the browser sends as a list of values */
+export const isMultiValueField = (field: FormField): field is CheckboxField =>
+  field.type === 'checkbox'
+
+export const hasOptions = (field: FormField): field is SelectField | RadioField | CheckboxField =>
+  field.type === 'select' || field.type === 'radio' || field.type === 'checkbox'
+
+const PATTERNS: Partial<Record<FormFieldType, RegExp>> = {
+  email: CONTACT_FORM_SCHEMA.email.pattern,
+  tel: CONTACT_FORM_SCHEMA.phone.pattern,
+  url: /^https?:\/\/\S+$/,
+}
+
+/**
+ * Element id for a field, prefixed with the form id so several forms can share a page
+ */
+export const getFieldId = (form: Pick<FormDefinition, 'id'>, field: Pick<FormField, 'name'>) =>
+  `${form.id}-${field.name}`
+
+/**
+ * Normalizes one raw value: lists for checkbox groups, trimmed strings for everything else
+ */
+export function normalizeFieldValue(field: FormField, raw: unknown): FormValue {
+  if (isMultiValueField(field)) {
+    const list = Array.isArray(raw) ? raw : raw === undefined || raw === null ? [] : [raw]
+    return list.filter((entry): entry is string => typeof entry === 'string' && entry !== '')
+  }
+  const value = Array.isArray(raw) ? raw[0] : raw
+  return typeof value === 'string' ? value.trim() : ''
+}
+
+/**
+ * Validates a single normalized value
+ * @returns The error message, or null when the value is valid
+ */
+export function validateFormField(field: FormField, value: FormValue): string | null {
+  const messages = field.messages ?? {}
+  const isEmpty = Array.isArray(value) ? value.length === 0 : value === ''
+
+  if (isEmpty) {
+    return field.required ? (messages.required ?? `${field.label} is required`) : null
+  }
+
+  if (hasOptions(field)) {
+    const allowed = field.options.map(option => option.value)
+    const selected = Array.isArray(value) ? value : [value]
+    return selected.every(entry => allowed.includes(entry))
+      ? null
+      : (messages.option ?? `Please choose a valid option for ${field.label}`)
+  }
+
+  const text = Array.isArray(value) ? value.join(', ') : value
+  if (field.maxLength !== undefined && text.length > field.maxLength) {
+    return messages.maxLength ?? `${field.label} must be ${field.maxLength} characters or fewer`
+  }
+
+  const pattern = field.type === 'textarea' ? undefined : (field.pattern ?? PATTERNS[field.type])
+  if (pattern && !pattern.test(text)) {
+    return messages.pattern ?? `Please enter a valid ${field.label.toLowerCase()}`
+  }
+
+  return null
+}
+
+/**
+ * Normalizes and validates every field of a definition, ignoring keys it does not declare
+ */
+export function validateFormValues(
+  definition: FormDefinition,
+  input: Readonly<Record<string, unknown>>
+): { values: FormValues; errors: FormErrors } {
+  const values: FormValues = {}
+  const errors: FormErrors = {}
+
+  for (const field of definition.fields) {
+    const value = normalizeFieldValue(field, input[field.name])
+    values[field.name] = value
+
+    const error = validateFormField(field, value)
+    if (error) {
+      errors[field.name] = error
+    }
+  }
+
+  return { values, errors }
+}
+
+/**
+ * Reads the current values of a rendered form, collecting checkbox groups into lists
+ */
+export function readFormElementValues(
+  form: HTMLFormElement,
+  definition: FormDefinition
+): Record<string, unknown> {
+  const data = new window.FormData(form)
+  const input: Record<string, unknown> = {}
+
+  for (const field of definition.fields) {
+    input[field.name] = isMultiValueField(field) ? data.getAll(field.name) : data.get(field.name)
+  }
+
+  return input
+}
@@ -1,3 +1,5 @@
+import { readServerEnv } from '../libs/env'
+
 export const BREADCRUMB_ROUTE = [
   {
     name: 'Blog',
@@ -28,5 +30,21 @@ export const PAGINATION_COUNT: number = 2
 export const CONTACT_INFO = {
   name: 'Email',
   url: '/success',
-  isNetlify: true,
+  endpoint: '/api/contact',
+  // Set PUBLIC_CONTACT_NETLIFY=false when deploying with the node or vercel adapters
+  isNetlify: readServerEnv('PUBLIC_CONTACT_NETLIFY') !== 'false',
+  // Acknowledgement emailed to submitters by /api/contact, placeholders are {{name}}, {{email}},
+  // {{subject}} and {{site}}. A blank line in the body starts a new paragraph.
+  autoReply: {
+    enabled: false,
+    subject: 'We received your message: {{subject}}',
+    body: `Hi {{name}},
+
+Thanks for contacting {{site}}. We have received your message about "{{subject}}" and will reply within two business days.
+
+If your question is urgent, reply to this email and include any details you forgot to mention.`,
+  },
 }
+
+// Netlify Forms intercepts posts to the success page, other adapters post to the API route
+export const CONTACT_FORM_ACTION = CONTACT_INFO.isNetlify ? CONTACT_INFO.url : CONTACT_INFO.endpoint
@@ -0,0 +1,54 @@
+-- Migration: Create messages table for the Supabase storage backend
+-- Created: 2025-09-09
+
+-- Same columns and limits as db/migrations, including organization scope from 011 and phone from 012
+CREATE TABLE IF NOT EXISTS public.messages (
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  name TEXT NOT NULL CHECK(length(name) <= 255),
+  email TEXT NOT NULL CHECK(email LIKE '%@%.%'),
+  phone TEXT CHECK(length(phone) <= 50),
+  subject TEXT CHECK(length(subject) <= 500),
+  message TEXT NOT NULL CHECK(length(message) <= 5000),
+  is_read BOOLEAN NOT NULL DEFAULT FALSE,
+  is_archived BOOLEAN NOT NULL DEFAULT FALSE,
+  ip_address TEXT CHECK(length(ip_address) <= 45),
+  user_agent TEXT CHECK(length(user_agent) <= 500),
+  organization_id TEXT,
+  -- Whole seconds, like SQLite CURRENT_TIMESTAMP, so keyset cursors compare exactly
+  created_at TIMESTAMPTZ(0) NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ(0) NOT NULL DEFAULT now(),
+  -- Search vector over the FTS5 columns; email is split on @ and . as the unicode61 tokenizer does
+  fts TSVECTOR GENERATED ALWAYS AS (
+    to_tsvector(
+      'simple',
+      name || ' ' || translate(email, '@.', '  ') || ' ' || coalesce(subject, '') || ' ' || message
+    )
+  ) STORED
+);
+
+CREATE INDEX IF NOT EXISTS idx_messages_email ON public.messages(email);
+CREATE INDEX IF NOT EXISTS idx_messages_created_at ON public.messages(created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_messages_is_archived ON public.messages(is_archived, is_read);
+CREATE INDEX IF NOT EXISTS idx_messages_organization_id ON public.messages(organization_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_messages_fts ON public.messages USING GIN (fts);
+
+-- Keeps updated_at current, like the update_messages_timestamp trigger in SQLite
+CREATE OR REPLACE FUNCTION public.set_messages_updated_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS update_messages_timestamp ON public.messages;
+CREATE TRIGGER update_messages_timestamp
+BEFORE UPDATE ON public.messages
+FOR EACH ROW
+EXECUTE FUNCTION public.set_messages_updated_at();
+
+-- Row level security without policies: only the service role key used on the server has access,
+-- the anon key shipped to browsers cannot read messages
+ALTER TABLE public.messages ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest'
+
+import {
+  MemoryRateLimitStore,
+  checkSubmission,
+  createFormToken,
+  isHoneypotFilled,
+  verifyFormToken,
+} from '#libs/anti-spam'
+import type { SpamProtectionConfig } from '#libs/anti-spam'
+
+const config: SpamProtectionConfig = {
+  minFillMs: 3000,
+  tokenMaxAgeMs: 60_000,
+  rateLimitMax: 2,
+  rateLimitWindowMs: 60_000,
+}
+
+const meta = { ipAddress: '203.0.113.7', userAgent: 'vitest' }
+
+describe('verifyFormToken', () => {
+  const issuedAt = 1_700_000_000_000
+
+  it('should accept a signed token after the minimum fill time', () => {
+    expect(verifyFormToken(createFormToken(issuedAt), issuedAt + 5000, config)).toEqual({
+      ok: true,
+    })
+  })
+
+  it('should reject forms submitted too quickly', () => {
+    expect(verifyFormToken(createFormToken(issuedAt), issuedAt + 500, config)).toEqual({
+      ok: false,
+      reason: 'too-fast',
+    })
+  })
+
+  it('should reject expired tokens', () => {
+    expect(verifyFormToken(createFormToken(issuedAt), issuedAt + 120_000, config)).toEqual({
+      ok: false,
+      reason: 'expired-token',
+    })
+  })
+
+  it('should reject tampered timestamps', () => {
+    const [, signature] = createFormToken(issuedAt).split('.')
+    expect(verifyFormToken(`${issuedAt - 10_000}.${signature}`, issuedAt + 5000, config)).toEqual({
+      ok: false,
+      reason: 'invalid-token',
+    })
+  })
+
+  it('should reject missing tokens', () => {
+    expect(verifyFormToken(undefined, issuedAt, config)).toEqual({
+      ok: false,
+      reason: 'missing-token',
+    })
+  })
+})
+
+describe('isHoneypotFilled', () => {
+  it('should only flag a non-empty honeypot', () => {
+    expect(isHoneypotFilled({ 'bot-field': '' })).toBe(false)
+    expect(isHoneypotFilled({})).toBe(false)
+    expect(isHoneypotFilled({ 'bot-field': 'http://spam.example' })).toBe(true)
+  })
+})
+
+describe('MemoryRateLimitStore', () => {
+  it('should count hits within a window and reset afterwards', async () => {
+    const store = new MemoryRateLimitStore()
+    expect(await store.hit('ip', 1000, 0)).toBe(1)
+    expect(await store.hit('ip', 1000, 500)).toBe(2)
+    expect(await store.hit('ip', 1000, 1000)).toBe(1)
+  })
+})
+
+describe('checkSubmission', () => {
+  it('should rate limit repeated submissions from the same IP', async () => {
+    const store = new MemoryRateLimitStore()
+    const now = 1_700_000_000_000
+    const payload = { form_token: createFormToken(now - 10_000) }
+    const options = { payload, meta, formName: 'contact-us', now, config, store }
+
+    expect(await checkSubmission(options)).toEqual({ ok: true })
+    expect(await checkSubmission(options)).toEqual({ ok: true })
+    expect(await checkSubmission(options)).toEqual({ ok: false, reason: 'rate-limited' })
+  })
+
+  it('should reject a filled honeypot before checking the token', async () => {
+    const result = await checkSubmission({
+      payload: { 'bot-field': 'spam' },
+      meta,
+      formName: 'contact-us',
+      config,
+      store: new MemoryRateLimitStore(),
+    })
+
+    expect(result).toEqual({ ok: false, reason: 'honeypot' })
+  })
+})
@@ -0,0 +1,155 @@
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+
+import { afterEach, beforeEach, describe, it, expect } from 'vitest'
+
+import {
+  getAttachmentFiles,
+  matchesContentType,
+  sanitizeFileName,
+  validateAttachments,
+} from '#libs/attachments'
+import { readContactPayload } from '#libs/contact'
+import { LocalFileStorage } from '#libs/storage'
+import { ATTACHMENT_LIMITS, validateAttachmentList } from '#utils/attachments'
+
+const PNG_HEADER = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]
+
+const pngFile = (name = 'screenshot.png') =>
+  new globalThis.File([new Uint8Array([...PNG_HEADER, 0, 0])], name, { type: 'image/png' })
+
+describe('validateAttachmentList', () => {
+  it('should accept allowlisted files within the limits', () => {
+    expect(validateAttachmentList([{ name: 'a.pdf', size: 1024, type: 'application/pdf' }])).toBe(
+      null
+    )
+    expect(validateAttachmentList([])).toBe(null)
+  })
+
+  it('should reject unknown types, oversized files and too many files', () => {
+    expect(validateAttachmentList([{ name: 'a.exe', size: 10, type: 'application/x-msdos' }])).toBe(
+      'a.exe is not a supported file type'
+    )
+    expect(
+      validateAttachmentList([
+        { name: 'big.png', size: ATTACHMENT_LIMITS.maxFileSize + 1, type: 'image/png' },
+      ])
+    ).toContain('larger than')
+    const files = Array.from({ length: ATTACHMENT_LIMITS.maxFiles + 1 }, (_, index) => ({
+      name: `${index}.txt`,
+      size: 1,
+      type: 'text/plain',
+    }))
+    expect(validateAttachmentList(files)).toContain('up to')
+  })
+
+  it('should reject files that together exceed the total size', () => {
+    const size = ATTACHMENT_LIMITS.maxFileSize
+    const files = ['a', 'b', 'c'].map(name => ({ name: `${name}.png`, size, type: 'image/png' }))
+    expect(validateAttachmentList(files)).toContain('add up to')
+  })
+})
+
+describe('matchesContentType', () => {
+  it('should recognise file signatures', () => {
+    expect(matchesContentType(new Uint8Array(PNG_HEADER), 'image/png')).toBe(true)
+    expect(
+      matchesContentType(new Uint8Array([0x25, 0x50, 0x44, 0x46, 0x2d]), 'application/pdf')
+    ).toBe(true)
+    expect(matchesContentType(new Uint8Array(PNG_HEADER), 'image/jpeg')).toBe(false)
+  })
+
+  it('should reject binary content declared as text', () => {
+    expect(matchesContentType(new globalThis.TextEncoder().encode('hello'), 'text/plain')).toBe(
+      true
+    )
+    expect(matchesContentType(new Uint8Array([0x4d, 0x5a, 0x00]), 'text/plain')).toBe(false)
+  })
+})
+
+describe('sanitizeFileName', () => {
+  it('should strip directories, quotes and control characters', () => {
+    expect(sanitizeFileName('../../etc/passwd')).toBe('passwd')
+    expect(sanitizeFileName('C:\\Users\\me\\"report"\n.pdf')).toBe('report.pdf')
+    expect(sanitizeFileName('   ')).toBe('attachment')
+  })
+})
+
+describe('validateAttachments', () => {
+  it('should read matching files into uploads', async () => {
+    const result = await validateAttachments([pngFile('dir/shot.png')])
+    expect(result.ok).toBe(true)
+    if (result.ok) {
+      expect(result.value[0]).toMatchObject({ fileName: 'shot.png', contentType: 'image/png' })
+    }
+  })
+
+  it('should reject a file whose content does not match its type', async () => {
+    const file = new globalThis.File(['MZ not an image'], 'shot.png', { type: 'image/png' })
+    expect(await validateAttachments([file])).toEqual({
+      ok: false,
+      error: 'shot.png does not match its file type',
+    })
+  })
+})
+
+describe('readContactPayload', () => {
+  it('should collect every file posted under the attachment field', async () => {
+    const body = new globalThis.FormData()
+    body.append('name', 'Ada')
+    body.append('attachments', pngFile('one.png'))
+    body.append('attachments', pngFile('two.png'))
+    body.append('attachments', new globalThis.File([], ''))
+
+    const result = await readContactPayload(
+      new globalThis.Request('http://localhost/api/contact', { method: 'POST', body })
+    )
+    expect(result.ok).toBe(true)
+    if (result.ok) {
+      expect(result.value.name).toBe('Ada')
+      expect(getAttachmentFiles(result.value).map(file => file.name)).toEqual([
+        'one.png',
+        'two.png',
+      ])
+    }
+  })
+})
+
+describe('LocalFileStorage', () => {
+  let root: string
+  let storage: LocalFileStorage
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'attachments-'))
+    storage = new LocalFileStorage(root)
+  })
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true })
+  })
+
+  it('should store, read and delete objects by key', async () => {
+    const body = new globalThis.TextEncoder().encode('hello')
+    await storage.put('messages/1/abc', body, 'text/plain')
+
+    const stored = await storage.get('messages/1/abc')
+    expect(new globalThis.TextDecoder().decode(stored?.body)).toBe('hello')
+
+    await storage.delete('messages/1/abc')
+    expect(await storage.get('messages/1/abc')).toBe(null)
+  })
+
+  it('should refuse to overwrite an existing key', async () => {
+    await storage.put('messages/1/abc', new Uint8Array([1]), 'text/plain')
+    await expect(storage.put('messages/1/abc', new Uint8Array([2]), 'text/plain')).rejects.toThrow()
+  })
+
+  it('should reject keys that escape the storage root', async () => {
+    await expect(storage.get('../secret')).rejects.toThrow('Invalid storage key')
+    await expect(storage.put('messages/../../x', new Uint8Array(), 'text/plain')).rejects.toThrow(
+      'Invalid storage key'
+    )
+    await expect(storage.delete('/etc/passwd')).rejects.toThrow('Invalid storage key')
+  })
+})
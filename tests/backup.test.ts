@@ -0,0 +1,116 @@
+import { createClient } from '@libsql/client'
+import type { Client } from '@libsql/client'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+import {
+  createDump,
+  parseDump,
+  readDumpSchema,
+  restoreDump,
+  serializeDump,
+  toSqlLiteral,
+  verifyRestore,
+} from '#libs/backup'
+import { getAppliedMigrations, runMigrations } from '#libs/migrations'
+import { seedDatabase } from '#libs/seed'
+
+const memoryClient = () => createClient({ url: ':memory:', intMode: 'number' })
+
+describe('toSqlLiteral', () => {
+  it('escapes strings and encodes blobs as hex', () => {
+    expect(toSqlLiteral(null)).toBe('NULL')
+    expect(toSqlLiteral(1.5)).toBe('1.5')
+    expect(toSqlLiteral("it's; -- fine")).toBe("'it''s; -- fine'")
+    expect(toSqlLiteral(new Uint8Array([0, 255]).buffer)).toBe("X'00ff'")
+  })
+})
+
+describe('backup and restore', () => {
+  let source: Client
+  let target: Client
+
+  beforeEach(async () => {
+    source = memoryClient()
+    target = memoryClient()
+    await runMigrations({ client: source })
+    await seedDatabase({ client: source, now: new Date('2025-06-01T12:00:00Z') })
+    await source.execute({
+      sql: 'INSERT INTO messages (name, email, message) VALUES (?, ?, ?)',
+      args: ["O'Brien", 'obrien@example.com', 'Line one;\n-- not a comment\nLine two'],
+    })
+  })
+
+  afterEach(() => {
+    source.close()
+    target.close()
+  })
+
+  it('skips FTS shadow tables but keeps the migrations table', async () => {
+    const names = (await readDumpSchema(source)).map(object => object.name)
+
+    expect(names).toContain('_migrations')
+    expect(names).toContain('messages_fts')
+    expect(names).not.toContain('messages_fts_data')
+  })
+
+  it.each(['sql', 'jsonl'] as const)(
+    'round-trips a %s dump into an empty database',
+    async format => {
+      const dump = await createDump(source)
+      const result = await restoreDump(parseDump(serializeDump(dump, format)), target)
+
+      expect(result.verification).toEqual({
+        ok: true,
+        schema: { missing: [], unexpected: [], changed: [] },
+        rowCounts: [],
+      })
+      expect((await createDump(target)).tables).toEqual(dump.tables)
+      expect(await getAppliedMigrations(target)).toEqual(await getAppliedMigrations(source))
+
+      const search = await target.execute(
+        "SELECT rowid FROM messages_fts WHERE messages_fts MATCH 'brien'"
+      )
+      expect(search.rows).toHaveLength(1)
+    }
+  )
+
+  it('keeps AUTOINCREMENT counters', async () => {
+    await source.execute('DELETE FROM messages WHERE id = (SELECT MAX(id) FROM messages)')
+    await restoreDump(parseDump(serializeDump(await createDump(source))), target)
+
+    const next = async (client: Client) => {
+      const result = await client.execute(
+        "INSERT INTO messages (name, email, message) VALUES ('A', 'a@example.com', 'hi') RETURNING id"
+      )
+      return result.rows[0]?.id
+    }
+    expect(await next(target)).toBe(await next(source))
+  })
+
+  it('refuses to restore into a database with tables', async () => {
+    const plan = parseDump(serializeDump(await createDump(source)))
+
+    await expect(restoreDump(plan, source)).rejects.toThrow('Target database is not empty')
+  })
+
+  it('reports row count and schema differences', async () => {
+    const plan = parseDump(serializeDump(await createDump(source), 'jsonl'))
+    await restoreDump(plan, target)
+    await target.execute('DELETE FROM form_submissions')
+    await target.execute('DROP INDEX idx_form_submissions_form_id')
+
+    const verification = await verifyRestore(plan, target)
+
+    expect(verification.ok).toBe(false)
+    expect(verification.rowCounts).toEqual([
+      { table: 'form_submissions', expected: plan.manifest.tables.form_submissions, actual: 0 },
+    ])
+    expect(verification.schema.missing.map(object => object.name)).toEqual([
+      'idx_form_submissions_form_id',
+    ])
+  })
+
+  it('rejects files without a manifest', () => {
+    expect(() => parseDump('CREATE TABLE a (id INTEGER);')).toThrow('Dump has no manifest')
+  })
+})
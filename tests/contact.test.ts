@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest'
+
+import { FORM_ERROR_MESSAGES } from '#constants/formErrors'
+import { CONTACT_LIMITS, getRequestMeta, validateContactSubmission } from '#libs/contact'
+import { CONTACT_FORM_SCHEMA, validateContactField, validateContactValues } from '#utils/contact'
+
+const validInput = {
+  name: 'Ada Lovelace',
+  email: 'ada@example.com',
+  phone: '',
+  subject: 'Hello',
+  message: 'I would like to know more.',
+}
+
+describe('validateContactSubmission', () => {
+  it('should accept a valid submission and trim values', () => {
+    const result = validateContactSubmission({ ...validInput, name: '  Ada Lovelace  ' })
+    expect(result.ok).toBe(true)
+    if (result.ok) {
+      expect(result.value.name).toBe('Ada Lovelace')
+      expect(result.value.phone).toBeNull()
+    }
+  })
+
+  it('should report every missing required field', () => {
+    const result = validateContactSubmission({})
+    expect(result.ok).toBe(false)
+    if (!result.ok) {
+      expect(Object.keys(result.errors).sort()).toEqual(['email', 'message', 'name', 'subject'])
+    }
+  })
+
+  it('should reject invalid email and phone values', () => {
+    const result = validateContactSubmission({ ...validInput, email: 'nope', phone: 'abc' })
+    expect(result.ok).toBe(false)
+    if (!result.ok) {
+      expect(result.errors.email).toBe('Please enter a valid email address')
+      expect(result.errors.phone).toBeDefined()
+    }
+  })
+
+  it('should enforce the messages table length limits', () => {
+    const result = validateContactSubmission({
+      ...validInput,
+      message: 'a'.repeat(CONTACT_LIMITS.message + 1),
+    })
+    expect(result.ok).toBe(false)
+    if (!result.ok) {
+      expect(result.errors.message).toContain(String(CONTACT_LIMITS.message))
+    }
+  })
+
+  it('should ignore non-string values', () => {
+    const result = validateContactSubmission({ ...validInput, name: 42 })
+    expect(result.ok).toBe(false)
+  })
+})
+
+describe('getRequestMeta', () => {
+  it('should fall back to proxy headers when clientAddress is unavailable', () => {
+    const request = new globalThis.Request('https://example.com/api/contact', {
+      headers: { 'x-forwarded-for': '203.0.113.7, 10.0.0.1', 'user-agent': 'vitest' },
+    })
+    const context = {
+      request,
+      get clientAddress(): string {
+        throw new Error('Not supported by adapter')
+      },
+    }
+
+    expect(getRequestMeta(context)).toEqual({ ipAddress: '203.0.113.7', userAgent: 'vitest' })
+  })
+
+  it('should truncate long user agents', () => {
+    const request = new globalThis.Request('https://example.com/api/contact', {
+      headers: { 'user-agent': 'x'.repeat(CONTACT_LIMITS.userAgent + 50) },
+    })
+
+    const meta = getRequestMeta({ request, clientAddress: '127.0.0.1' })
+    expect(meta.ipAddress).toBe('127.0.0.1')
+    expect(meta.userAgent).toHaveLength(CONTACT_LIMITS.userAgent)
+  })
+})
+
+describe('validateContactValues', () => {
+  it('should share the same messages as the client-side forms', () => {
+    expect(validateContactValues({ email: 'nope' })).toEqual({
+      name: FORM_ERROR_MESSAGES.name,
+      email: FORM_ERROR_MESSAGES.emailInvalid,
+      subject: FORM_ERROR_MESSAGES.subject,
+      message: FORM_ERROR_MESSAGES.message,
+    })
+  })
+
+  it('should treat whitespace-only values as missing', () => {
+    expect(validateContactField('name', '   ')).toBe(FORM_ERROR_MESSAGES.name)
+    expect(validateContactField('phone', '   ')).toBeNull()
+  })
+
+  it('should check length limits before patterns', () => {
+    const subject = 'a'.repeat(CONTACT_FORM_SCHEMA.subject.maxLength + 1)
+    expect(validateContactField('subject', subject)).toBe(FORM_ERROR_MESSAGES.subjectTooLong)
+  })
+})
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest'
+
+import { FORM_DEFINITIONS, getFormDefinition } from '#data/forms'
+import { readFormPayload } from '#libs/form-submissions'
+import { validateFormField, validateFormValues } from '#utils/forms'
+import type { FormDefinition } from '#utils/forms'
+
+const newsletter = getFormDefinition('newsletter') as FormDefinition
+
+describe('form definitions', () => {
+  it('should use unique form ids and field names', () => {
+    const ids = FORM_DEFINITIONS.map(form => form.id)
+    expect(new Set(ids).size).toBe(ids.length)
+
+    for (const form of FORM_DEFINITIONS) {
+      const names = form.fields.map(field => field.name)
+      expect(new Set(names).size).toBe(names.length)
+    }
+  })
+
+  it('should return null for unknown forms', () => {
+    expect(getFormDefinition('missing')).toBeNull()
+    expect(getFormDefinition(undefined)).toBeNull()
+  })
+})
+
+describe('validateFormValues', () => {
+  it('should normalize values and drop undeclared keys', () => {
+    const { values, errors } = validateFormValues(newsletter, {
+      name: '  Ada ',
+      email: 'ada@example.com',
+      topics: 'releases',
+      consent: ['yes'],
+      admin: 'true',
+    })
+
+    expect(errors).toEqual({})
+    expect(values).toEqual({
+      name: 'Ada',
+      email: 'ada@example.com',
+      topics: ['releases'],
+      consent: ['yes'],
+    })
+  })
+
+  it('should use custom messages for required fields', () => {
+    const { errors } = validateFormValues(newsletter, {})
+    expect(errors).toEqual({
+      email: 'We need your email to send the newsletter',
+      consent: 'Please confirm you want to receive emails',
+    })
+  })
+
+  it('should reject values outside the declared options', () => {
+    const { errors } = validateFormValues(newsletter, {
+      email: 'ada@example.com',
+      consent: 'yes',
+      topics: ['releases', 'crypto'],
+    })
+    expect(errors.topics).toBe('Please choose a valid option for Topics')
+  })
+})
+
+describe('validateFormField', () => {
+  it('should apply type patterns and length limits', () => {
+    expect(validateFormField({ type: 'email', name: 'e', label: 'Email' }, 'nope')).toBe(
+      'Please enter a valid email'
+    )
+    expect(validateFormField({ type: 'url', name: 'u', label: 'Website' }, 'https://a.io')).toBe(
+      null
+    )
+    expect(
+      validateFormField({ type: 'textarea', name: 't', label: 'Notes', maxLength: 3 }, 'long')
+    ).toBe('Notes must be 3 characters or fewer')
+  })
+})
+
+describe('readFormPayload', () => {
+  it('should keep repeated form keys as lists', async () => {
+    const body = new globalThis.URLSearchParams('email=a%40b.co&topics=releases&topics=events')
+    const request = new globalThis.Request('http://localhost/api/forms/newsletter', {
+      method: 'POST',
+      headers: { 'content-type': 'application/x-www-form-urlencoded' },
+      body,
+    })
+
+    const payload = await readFormPayload(request)
+    expect(payload).toEqual({
+      ok: true,
+      value: { email: 'a@b.co', topics: ['releases', 'events'] },
+    })
+  })
+})
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest'
+
+import { getReturnPath, jsonResponse, readBodyWithin, wantsJson } from '#libs/http'
+
+const post = (headers: Record<string, string>) =>
+  new globalThis.Request('https://example.com/api/contact', { method: 'POST', headers })
+
+describe('getReturnPath', () => {
+  it('returns to the same-origin page the form was posted from', () => {
+    const request = post({ referer: 'https://example.com/contact-us?error=spam' })
+
+    expect(getReturnPath(request, '/contact', 'validation')).toBe('/contact-us?error=validation')
+  })
+
+  it('falls back for missing, cross-origin and malformed Referer headers', () => {
+    expect(getReturnPath(post({}), '/contact', 'server')).toBe('/contact?error=server')
+    expect(getReturnPath(post({ referer: 'https://evil.example/x' }), '/contact', 'spam')).toBe(
+      '/contact?error=spam'
+    )
+    expect(getReturnPath(post({ referer: 'not a url' }), '/forms/quote', 'invalid')).toBe(
+      '/forms/quote?error=invalid'
+    )
+  })
+})
+
+describe('jsonResponse', () => {
+  it('serializes the body with the status', async () => {
+    const response = jsonResponse({ success: false, message: 'Not found' }, 404)
+
+    expect(response.status).toBe(404)
+    expect(response.headers.get('content-type')).toBe('application/json')
+    expect(await response.json()).toEqual({ success: false, message: 'Not found' })
+  })
+})
+
+describe('wantsJson', () => {
+  it('detects script submissions by Accept or Content-Type', () => {
+    expect(wantsJson(post({ accept: 'application/json' }))).toBe(true)
+    expect(wantsJson(post({ 'content-type': 'application/json' }))).toBe(true)
+    expect(wantsJson(post({ 'content-type': 'application/x-www-form-urlencoded' }))).toBe(false)
+  })
+})
+
+describe('readBodyWithin', () => {
+  const streamOf = (...chunks: string[]) =>
+    new globalThis.ReadableStream({
+      start(controller) {
+        chunks.forEach(chunk => controller.enqueue(new globalThis.TextEncoder().encode(chunk)))
+        controller.close()
+      },
+    })
+  const chunked = (...chunks: string[]) =>
+    new globalThis.Request('https://example.com/api/contact', {
+      method: 'POST',
+      headers: { 'content-type': 'application/x-www-form-urlencoded' },
+      body: streamOf(...chunks),
+      duplex: 'half',
+    } as globalThis.RequestInit)
+
+  it('keeps a body within the limit readable', async () => {
+    const request = await readBodyWithin(chunked('name=Ada', '&email=ada%40example.com'), 64)
+
+    expect(request?.headers.get('content-type')).toBe('application/x-www-form-urlencoded')
+    expect((await request?.formData())?.get('email')).toBe('ada@example.com')
+  })
+
+  it('rejects a chunked body once it passes the limit', async () => {
+    expect(await readBodyWithin(chunked('a'.repeat(40), 'b'.repeat(40)), 64)).toBe(null)
+  })
+
+  it('rejects a declared Content-Length over the limit without reading', async () => {
+    expect(await readBodyWithin(post({ 'content-length': '65' }), 64)).toBe(null)
+  })
+})
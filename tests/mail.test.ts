@@ -0,0 +1,173 @@
+import { mkdtemp, readFile, readdir, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest'
+
+import { MailboxDirectoryTransport, NullMailTransport } from '#libs/mail'
+import type { MailMessage, MailTransport } from '#libs/mail'
+import {
+  notifyNewMessage,
+  renderAutoReply,
+  renderNewMessageNotification,
+  renderTemplate,
+  sendAutoReply,
+} from '#libs/notifications'
+
+const submission = {
+  name: 'Ada <script>',
+  email: 'ada@example.com',
+  phone: null,
+  subject: 'Hello\r\nBcc: victim@example.com',
+  message: 'Line one\n<b>bold</b>',
+}
+
+describe('renderNewMessageNotification', () => {
+  it('should escape user input in the HTML body', () => {
+    const { html, text } = renderNewMessageNotification(12, submission, 'https://example.com')
+
+    expect(html).toContain('Ada &lt;script&gt;')
+    expect(html).toContain('&lt;b&gt;bold&lt;/b&gt;')
+    expect(html).not.toContain('<script>')
+    expect(text).toContain('https://example.com/admin/messages/12')
+  })
+
+  it('should keep the subject on a single line', () => {
+    const { subject } = renderNewMessageNotification(12, submission)
+    expect(subject).not.toMatch(/[\r\n]/)
+  })
+})
+
+describe('renderTemplate', () => {
+  it('should replace known placeholders and blank unknown ones', () => {
+    expect(
+      renderTemplate('Hi {{name}}, re: {{ subject }}{{missing}}', { name: 'Ada', subject: 'Hi' })
+    ).toBe('Hi Ada, re: Hi')
+  })
+})
+
+describe('renderAutoReply', () => {
+  const template = { subject: 'Re: {{subject}}', body: 'Hi {{name}},\n\nThanks!\nThe team' }
+
+  it('should render escaped HTML paragraphs alongside the plain text', () => {
+    const { subject, text, html } = renderAutoReply(submission, template)
+
+    expect(subject).toBe('Re: Hello Bcc: victim@example.com')
+    expect(text).toBe('Hi Ada <script>,\n\nThanks!\nThe team')
+    expect(html).toBe('<p>Hi Ada &lt;script&gt;,</p>\n<p>Thanks!<br />The team</p>')
+  })
+
+  it('should fall back when the submission has no subject', () => {
+    expect(renderAutoReply({ ...submission, subject: null }, template).subject).toBe(
+      'Re: your message'
+    )
+  })
+})
+
+describe('MailboxDirectoryTransport', () => {
+  let directory: string
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'mailbox-'))
+  })
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  it('should write each message as an .eml file', async () => {
+    const transport = new MailboxDirectoryTransport(directory)
+    await transport.send({
+      from: 'site@example.com',
+      to: ['owner@example.com'],
+      subject: 'Test notification',
+      text: 'Plain body',
+      html: '<p>HTML body</p>',
+    })
+
+    const files = await readdir(directory)
+    expect(files).toHaveLength(1)
+    expect(files[0]).toMatch(/\.eml$/)
+
+    const eml = await readFile(join(directory, files[0]), 'utf8')
+    expect(eml).toContain('Subject: Test notification')
+    expect(eml).toContain('To: owner@example.com')
+  })
+})
+
+describe('notifyNewMessage', () => {
+  it('should send the notification to the configured recipients', async () => {
+    const sent: MailMessage[] = []
+    const transport: MailTransport = {
+      name: 'mailbox',
+      send: async message => {
+        sent.push(message)
+      },
+    }
+
+    const result = await notifyNewMessage(3, submission, {
+      transport,
+      recipients: ['owner@example.com'],
+      from: 'site@example.com',
+    })
+
+    expect(result).toEqual({ status: 'sent' })
+    expect(sent[0].to).toEqual(['owner@example.com'])
+    expect(sent[0].replyTo).toBe('ada@example.com')
+  })
+
+  it('should report delivery failures instead of throwing', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const transport: MailTransport = {
+      name: 'smtp',
+      send: async () => {
+        throw new Error('Connection refused')
+      },
+    }
+
+    const result = await notifyNewMessage(3, submission, {
+      transport,
+      recipients: ['owner@example.com'],
+    })
+
+    expect(result.status).toBe('failed')
+    warn.mockRestore()
+  })
+
+  it('should skip when no transport or recipients are configured', async () => {
+    expect(
+      await notifyNewMessage(3, submission, {
+        transport: new NullMailTransport(),
+        recipients: ['owner@example.com'],
+      })
+    ).toEqual({ status: 'skipped' })
+
+    expect(
+      await notifyNewMessage(3, submission, { transport: new NullMailTransport(), recipients: [] })
+    ).toEqual({ status: 'skipped' })
+  })
+})
+
+describe('sendAutoReply', () => {
+  it('should send to the submitter when enabled', async () => {
+    const sent: MailMessage[] = []
+    const transport: MailTransport = {
+      name: 'mailbox',
+      send: async message => {
+        sent.push(message)
+      },
+    }
+
+    expect(await sendAutoReply(3, submission, { transport, enabled: true })).toEqual({
+      status: 'sent',
+    })
+    expect(sent[0].to).toEqual(['ada@example.com'])
+  })
+
+  it('should skip when disabled', async () => {
+    const send = vi.fn()
+    expect(
+      await sendAutoReply(3, submission, { transport: { name: 'mailbox', send }, enabled: false })
+    ).toEqual({ status: 'skipped' })
+    expect(send).not.toHaveBeenCalled()
+  })
+})
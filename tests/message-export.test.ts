@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest'
+
+import { escapeCsvValue, getExportFilename, toCsvRow } from '#libs/message-export'
+import { buildMessageWhere, parseMessageSearch, toMessageSearchParams } from '#libs/messages'
+
+describe('escapeCsvValue', () => {
+  it('should quote values containing delimiters, quotes or line breaks', () => {
+    expect(escapeCsvValue('plain')).toBe('plain')
+    expect(escapeCsvValue('a,b')).toBe('"a,b"')
+    expect(escapeCsvValue('say "hi"')).toBe('"say ""hi"""')
+    expect(escapeCsvValue('line one\nline two')).toBe('"line one\nline two"')
+    expect(escapeCsvValue(' padded ')).toBe('" padded "')
+  })
+
+  it('should neutralise spreadsheet formulas', () => {
+    expect(escapeCsvValue('=HYPERLINK("http://evil")')).toBe('"\'=HYPERLINK(""http://evil"")"')
+    expect(escapeCsvValue('@SUM(A1)')).toBe("'@SUM(A1)")
+  })
+
+  it('should render nulls as empty and keep numbers untouched', () => {
+    expect(toCsvRow([1, null, -2, true])).toBe('1,,-2,true\r\n')
+  })
+})
+
+describe('getExportFilename', () => {
+  const now = new Date('2025-08-24T12:00:00Z')
+
+  it('should include the date range', () => {
+    expect(getExportFilename({ from: '2025-01-01', to: '2025-01-31' }, 'csv', now)).toBe(
+      'messages_2025-01-01_to_2025-01-31.csv'
+    )
+  })
+
+  it('should describe open-ended ranges', () => {
+    expect(getExportFilename({}, 'json', now)).toBe('messages_all_to_2025-08-24.json')
+  })
+})
+
+describe('message search', () => {
+  it('should drop malformed criteria', () => {
+    const params = new globalThis.URLSearchParams(
+      'filter=bogus&from=2025-13-45&to=2025-02-01&email=%20ada%20'
+    )
+    expect(parseMessageSearch(params)).toEqual({ to: '2025-02-01', email: 'ada' })
+  })
+
+  it('should round-trip through query parameters', () => {
+    const search = { filter: 'archived' as const, from: '2025-01-01', email: 'ada' }
+    expect(parseMessageSearch(toMessageSearchParams(search))).toEqual(search)
+  })
+
+  it('should escape LIKE wildcards in the email search', () => {
+    const { where, params } = buildMessageWhere({ email: '100%_a', from: '2025-01-01' })
+
+    expect(where).toBe("is_archived = 0 AND created_at >= ? AND email LIKE ? ESCAPE '\\'")
+    expect(params).toEqual(['2025-01-01 00:00:00', '%100\\%\\_a%'])
+  })
+})
@@ -0,0 +1,156 @@
+import { mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+
+import type { Row } from '@libsql/client'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import {
+  assignMessage,
+  getAssignedCounts,
+  toAssignees,
+  toMemberProfile,
+} from '#libs/message-assignments'
+import {
+  MAX_LABEL_NAME_LENGTH,
+  createLabel,
+  deleteLabel,
+  listLabels,
+  listLabelsForMessages,
+  mapLabelRow,
+  setMessageLabels,
+  validateLabelName,
+} from '#libs/message-labels'
+import { getMessageRepository } from '#libs/message-repository'
+import type { NewMessage } from '#libs/message-repository'
+import { resetTursoClient } from '#libs/turso'
+
+describe('validateLabelName', () => {
+  it('should trim and collapse whitespace', () => {
+    expect(validateLabelName('  needs   follow-up ')).toEqual({
+      ok: true,
+      value: 'needs follow-up',
+    })
+  })
+
+  it('should reject empty, non-string and oversized names', () => {
+    expect(validateLabelName('   ').ok).toBe(false)
+    expect(validateLabelName(undefined).ok).toBe(false)
+    expect(validateLabelName('x'.repeat(MAX_LABEL_NAME_LENGTH + 1)).ok).toBe(false)
+  })
+})
+
+describe('mapLabelRow', () => {
+  it('should map a labels row', () => {
+    const row = {
+      id: 2,
+      name: 'Billing',
+      organization_id: 'org_a',
+      created_at: '2025-09-01 09:00:00',
+    } as unknown as Row
+    expect(mapLabelRow(row)).toEqual({
+      id: 2,
+      name: 'Billing',
+      organization_id: 'org_a',
+      created_at: '2025-09-01 09:00:00',
+    })
+  })
+})
+
+describe('toMemberProfile', () => {
+  it('should read the public user data of an organization membership', () => {
+    const publicUserData = {
+      userId: 'user_a',
+      identifier: 'ada@example.com',
+      firstName: 'Ada',
+      lastName: null,
+    }
+
+    expect(toMemberProfile({ publicUserData })).toEqual({
+      id: 'user_a',
+      firstName: 'Ada',
+      lastName: null,
+      primaryEmailAddress: { emailAddress: 'ada@example.com' },
+    })
+    expect(
+      toMemberProfile({ publicUserData: { ...publicUserData, identifier: '+15550100' } })
+        ?.primaryEmailAddress
+    ).toBeNull()
+    expect(toMemberProfile({ publicUserData: null })).toBeNull()
+  })
+})
+
+describe('toAssignees', () => {
+  it('should name Clerk users and list the signed-in user first', () => {
+    const assignees = toAssignees(
+      [
+        { id: 'user_b', firstName: 'Grace', lastName: 'Hopper' },
+        { id: 'user_c', primaryEmailAddress: { emailAddress: 'zed@example.com' } },
+        { id: 'user_a', firstName: 'Ada', lastName: 'Lovelace' },
+      ],
+      'user_c'
+    )
+
+    expect(assignees).toEqual([
+      { id: 'user_c', name: 'zed' },
+      { id: 'user_a', name: 'Ada Lovelace' },
+      { id: 'user_b', name: 'Grace Hopper' },
+    ])
+  })
+})
+
+describe('organization-scoped labels and assignments', () => {
+  let directory: string
+
+  const message = (name: string): NewMessage => ({
+    name,
+    email: `${name.toLowerCase()}@example.com`,
+    subject: null,
+    message: `Hello from ${name}`,
+    ip_address: null,
+    user_agent: null,
+  })
+
+  beforeEach(() => {
+    resetTursoClient()
+    directory = mkdtempSync(join(tmpdir(), 'labels-'))
+    vi.stubEnv('DB_MODE', '')
+    vi.stubEnv('TURSO_AUTH_TOKEN', '')
+    vi.stubEnv('TURSO_DATABASE_URL', `file:${join(directory, 'test.db')}`)
+  })
+
+  afterEach(() => {
+    resetTursoClient()
+    vi.unstubAllEnvs()
+    rmSync(directory, { recursive: true, force: true })
+  })
+
+  it('keeps label names and counts within each organization', async () => {
+    const fromA = await getMessageRepository('org_a').create(message('Ada'))
+    const billingA = await createLabel('Billing', 'org_a')
+    const billingB = await createLabel('billing', 'org_b')
+
+    expect(billingB.id).not.toBe(billingA.id)
+    expect((await createLabel('BILLING', 'org_a')).id).toBe(billingA.id)
+
+    await setMessageLabels(fromA.id, [billingA.id, billingB.id])
+
+    expect(await listLabelsForMessages([fromA.id])).toEqual({ [fromA.id]: [billingA] })
+    expect(await listLabels('org_a')).toEqual([{ ...billingA, message_count: 1 }])
+    expect(await listLabels('org_b')).toEqual([{ ...billingB, message_count: 0 }])
+    expect(await listLabels(null)).toEqual([])
+    expect(await deleteLabel(billingA.id, 'org_b')).toBe(false)
+    expect(await deleteLabel(billingA.id, 'org_a')).toBe(true)
+  })
+
+  it('counts assigned messages only within the organization', async () => {
+    const fromA = await getMessageRepository('org_a').create(message('Ada'))
+    const fromB = await getMessageRepository('org_b').create(message('Ben'))
+    await assignMessage(fromA.id, 'user_1', 'user_2')
+    await assignMessage(fromB.id, 'user_1', 'user_2')
+
+    expect(await getAssignedCounts('user_1', 'org_a')).toEqual({ open: 1, unread: 1 })
+    expect(await getAssignedCounts('user_1', null)).toEqual({ open: 0, unread: 0 })
+    expect(await getAssignedCounts('user_1', undefined)).toEqual({ open: 2, unread: 2 })
+  })
+})
@@ -0,0 +1,141 @@
+import { mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import type { MailTransport } from '#libs/mail'
+import {
+  addMessageReply,
+  getReplyAuthor,
+  listMessageReplies,
+  validateReplyInput,
+} from '#libs/message-replies'
+import { getMessageRepository } from '#libs/message-repository'
+import { renderStaffReply } from '#libs/notifications'
+import type { Message } from '#libs/schema-setup'
+import { resetTursoClient } from '#libs/turso'
+
+describe('validateReplyInput', () => {
+  it('should accept a reply or a note with a body', () => {
+    expect(validateReplyInput({ kind: 'note', body: '  Called them back  ' })).toEqual({
+      ok: true,
+      value: { kind: 'note', body: 'Called them back' },
+    })
+  })
+
+  it('should reject unknown kinds, empty and oversized bodies', () => {
+    expect(validateReplyInput({ kind: 'forward', body: 'Hi' }).ok).toBe(false)
+    expect(validateReplyInput({ kind: 'reply', body: '   ' }).ok).toBe(false)
+    expect(validateReplyInput({ kind: 'reply', body: 'x'.repeat(10001) }).ok).toBe(false)
+  })
+})
+
+describe('getReplyAuthor', () => {
+  it('should attribute replies to the Clerk user name', () => {
+    expect(getReplyAuthor('user_1', { firstName: 'Grace', lastName: 'Hopper' })).toEqual({
+      id: 'user_1',
+      name: 'Grace Hopper',
+    })
+  })
+
+  it('should fall back to the email address and then to no name', () => {
+    expect(
+      getReplyAuthor('user_1', {
+        firstName: null,
+        primaryEmailAddress: { emailAddress: 'grace@example.com' },
+      }).name
+    ).toBe('grace')
+    expect(getReplyAuthor('user_1', null)).toEqual({ id: 'user_1', name: null })
+  })
+})
+
+describe('renderStaffReply', () => {
+  it('should quote the original message and escape HTML', () => {
+    const { subject, text, html } = renderStaffReply(
+      {
+        subject: 'Pricing',
+        message: 'How much?\n<i>thanks</i>',
+        created_at: '2025-08-25 09:00:00',
+      },
+      'It is free.'
+    )
+
+    expect(subject).toBe('Re: Pricing')
+    expect(text).toContain('> How much?\n> <i>thanks</i>')
+    expect(html).toContain('&lt;i&gt;thanks&lt;/i&gt;')
+    expect(html.startsWith('<p>It is free.</p>')).toBe(true)
+  })
+})
+
+describe('addMessageReply', () => {
+  let directory: string
+  let message: Message
+  const author = { id: 'user_1', name: 'Grace' }
+
+  beforeEach(async () => {
+    resetTursoClient()
+    directory = mkdtempSync(join(tmpdir(), 'message-replies-'))
+    vi.stubEnv('DB_MODE', '')
+    vi.stubEnv('TURSO_AUTH_TOKEN', '')
+    vi.stubEnv('TURSO_DATABASE_URL', `file:${join(directory, 'test.db')}`)
+    message = await getMessageRepository().create({
+      name: 'Ada',
+      email: 'ada@example.com',
+      subject: 'Question',
+      message: 'Hello',
+      ip_address: null,
+      user_agent: null,
+    })
+  })
+
+  afterEach(() => {
+    resetTursoClient()
+    vi.unstubAllEnvs()
+    rmSync(directory, { recursive: true, force: true })
+  })
+
+  it('stores the reply before sending it and then records the delivery', async () => {
+    const stored: number[] = []
+    const transport: MailTransport = {
+      name: 'mailbox',
+      send: async () => {
+        stored.push((await listMessageReplies(message.id)).length)
+      },
+    }
+
+    const reply = await addMessageReply(message, { kind: 'reply', body: 'Thanks!' }, author, {
+      transport,
+    })
+
+    expect(stored).toEqual([1])
+    expect(reply).toMatchObject({ delivery_status: 'sent', delivery_error: null })
+    expect(await listMessageReplies(message.id)).toMatchObject([{ delivery_status: 'sent' }])
+  })
+
+  it('keeps a reply that fails to send as failed', async () => {
+    const transport: MailTransport = {
+      name: 'smtp',
+      send: async () => {
+        throw new Error('Connection timeout')
+      },
+    }
+
+    await addMessageReply(message, { kind: 'reply', body: 'Thanks!' }, author, { transport })
+
+    expect(await listMessageReplies(message.id)).toMatchObject([
+      { delivery_status: 'failed', delivery_error: 'Connection timeout' },
+    ])
+  })
+
+  it('does not send anything when the reply cannot be stored', async () => {
+    const send = vi.fn(async () => undefined)
+
+    await expect(
+      addMessageReply({ ...message, id: message.id + 100 }, { kind: 'reply', body: 'Hi' }, author, {
+        transport: { name: 'mailbox', send },
+      })
+    ).rejects.toThrow()
+    expect(send).not.toHaveBeenCalled()
+  })
+})
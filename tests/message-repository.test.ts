@@ -0,0 +1,135 @@
+import type { Row } from '@libsql/client'
+import { describe, it, expect, vi } from 'vitest'
+
+import {
+  applyBulkAction,
+  decodeMessageCursor,
+  encodeMessageCursor,
+  iterateMessages,
+  mapMessageRow,
+} from '#libs/message-repository'
+import type { MessageCursorPage, MessageRepository } from '#libs/message-repository'
+import type { Message } from '#libs/schema-setup'
+
+describe('mapMessageRow', () => {
+  it('should convert SQLite integer flags to booleans', () => {
+    const row = {
+      id: 7,
+      name: 'Ada',
+      email: 'ada@example.com',
+      phone: '555 0100',
+      subject: null,
+      message: 'Hello',
+      is_read: 1,
+      is_archived: 0,
+      ip_address: null,
+      user_agent: 'vitest',
+      organization_id: 'org_123',
+      created_at: '2025-08-08 12:00:00',
+      updated_at: '2025-08-08 12:00:00',
+    } as unknown as Row
+
+    expect(mapMessageRow(row)).toEqual({
+      id: 7,
+      name: 'Ada',
+      email: 'ada@example.com',
+      phone: '555 0100',
+      subject: null,
+      message: 'Hello',
+      is_read: true,
+      is_archived: false,
+      ip_address: null,
+      user_agent: 'vitest',
+      organization_id: 'org_123',
+      created_at: '2025-08-08 12:00:00',
+      updated_at: '2025-08-08 12:00:00',
+    })
+  })
+})
+
+describe('message cursors', () => {
+  it('should round-trip a position', () => {
+    const cursor = encodeMessageCursor({ id: 42, created_at: '2025-08-08 12:00:00' })
+    expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/)
+    expect(decodeMessageCursor(cursor)).toEqual({ createdAt: '2025-08-08 12:00:00', id: 42 })
+  })
+
+  it('should reject tampered cursors', () => {
+    const encode = (value: string) => Buffer.from(value).toString('base64url')
+    expect(decodeMessageCursor(encode("2025-08-08 12:00:00' OR 1=1|1"))).toBeNull()
+    expect(decodeMessageCursor(encode('2025-08-08 12:00:00|0'))).toBeNull()
+    expect(decodeMessageCursor('not a cursor')).toBeNull()
+  })
+})
+
+const makeMessage = (id: number): Message => ({
+  id,
+  name: `Sender ${id}`,
+  email: `sender${id}@example.com`,
+  phone: null,
+  subject: null,
+  message: 'Hello',
+  is_read: false,
+  is_archived: false,
+  ip_address: null,
+  user_agent: null,
+  organization_id: null,
+  created_at: '2025-08-08 12:00:00',
+  updated_at: '2025-08-08 12:00:00',
+})
+
+const fakeRepository = (overrides: Partial<MessageRepository>): MessageRepository => ({
+  name: 'fake',
+  organizationId: undefined,
+  forOrganization: vi.fn(),
+  create: vi.fn(),
+  findById: vi.fn(),
+  findByEmail: vi.fn(),
+  list: vi.fn(),
+  listPage: vi.fn(),
+  search: vi.fn(),
+  countByFilter: vi.fn(),
+  updateFlags: vi.fn(async ids => ids.length),
+  delete: vi.fn(async ids => ids.length),
+  ...overrides,
+})
+
+describe('applyBulkAction', () => {
+  it('should map inbox actions to flag updates', async () => {
+    const repository = fakeRepository({})
+
+    await applyBulkAction('archive', [1, 2], repository)
+    await applyBulkAction('mark-unread', [3], repository)
+
+    expect(repository.updateFlags).toHaveBeenCalledWith([1, 2], { is_archived: true })
+    expect(repository.updateFlags).toHaveBeenCalledWith([3], { is_read: false })
+  })
+})
+
+describe('iterateMessages', () => {
+  it('should follow cursors until the last page', async () => {
+    const pages: MessageCursorPage[] = [
+      { messages: [makeMessage(5), makeMessage(4)], nextCursor: 'second' },
+      { messages: [makeMessage(3)], nextCursor: null },
+    ]
+    const list = vi.fn(async () => pages.shift() ?? { messages: [], nextCursor: null })
+    const repository = fakeRepository({ list })
+
+    const chunks: number[][] = []
+    for await (const chunk of iterateMessages({ filter: 'archived' }, repository, 2)) {
+      chunks.push(chunk.map(message => message.id))
+    }
+
+    expect(chunks).toEqual([[5, 4], [3]])
+    expect(list).toHaveBeenNthCalledWith(1, {
+      search: { filter: 'archived' },
+      limit: 2,
+      cursor: null,
+    })
+    expect(list).toHaveBeenNthCalledWith(2, {
+      search: { filter: 'archived' },
+      limit: 2,
+      cursor: 'second',
+    })
+  })
+})
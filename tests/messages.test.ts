@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest'
+
+import {
+  UNASSIGNED,
+  buildMessageWhere,
+  isAssigneeId,
+  isMessageBulkAction,
+  isMessageFilter,
+  parseMessageSearch,
+  parseSnippet,
+  toFtsQuery,
+  toMessageSearchParams,
+} from '#libs/messages'
+
+describe('inbox guards', () => {
+  it('should only accept known filters', () => {
+    expect(isMessageFilter('unread')).toBe(true)
+    expect(isMessageFilter('deleted')).toBe(false)
+    expect(isMessageFilter(null)).toBe(false)
+  })
+
+  it('should only accept known bulk actions', () => {
+    expect(isMessageBulkAction('archive')).toBe(true)
+    expect(isMessageBulkAction('drop-table')).toBe(false)
+  })
+})
+
+describe('toFtsQuery', () => {
+  it('should quote each word so all of them must match', () => {
+    expect(toFtsQuery('refund  order')).toBe('"refund" "order"')
+  })
+
+  it('should keep phrases and prefix searches', () => {
+    expect(toFtsQuery('"late delivery" invoic*')).toBe('"late delivery" "invoic"*')
+  })
+
+  it('should neutralise FTS5 syntax typed by the user', () => {
+    expect(toFtsQuery('email:ada OR NEAR(a b) "unclosed')).toBe(
+      '"email:ada" "OR" "NEAR(a" "b)" "unclosed"'
+    )
+    expect(toFtsQuery('  - * ""  ')).toBe(null)
+  })
+
+  it('should add a full-text condition to the inbox criteria', () => {
+    const { where, params } = buildMessageWhere({ filter: 'archived', q: 'refund' })
+
+    expect(where).toBe(
+      'is_archived = 1 AND id IN (SELECT rowid FROM messages_fts WHERE messages_fts MATCH ?)'
+    )
+    expect(params).toEqual(['"refund"'])
+  })
+})
+
+describe('label and assignee criteria', () => {
+  it('should read valid label ids and assignees from query parameters', () => {
+    const search = parseMessageSearch(
+      new globalThis.URLSearchParams('label=3&assignee=user_2abcDEF&filter=unread')
+    )
+
+    expect(search).toEqual({ filter: 'unread', label: '3', assignee: 'user_2abcDEF' })
+    expect(toMessageSearchParams(search).toString()).toBe(
+      'filter=unread&label=3&assignee=user_2abcDEF'
+    )
+  })
+
+  it('should drop malformed label ids and assignees', () => {
+    expect(parseMessageSearch(new globalThis.URLSearchParams('label=0&assignee=a%20b'))).toEqual({})
+    expect(parseMessageSearch(new globalThis.URLSearchParams('label=1;drop&assignee='))).toEqual({})
+    expect(isAssigneeId(UNASSIGNED)).toBe(false)
+    expect(isAssigneeId('user_123')).toBe(true)
+  })
+
+  it('should filter by label and assignee', () => {
+    const { where, params } = buildMessageWhere({ label: '3', assignee: 'user_1' })
+
+    expect(where).toBe(
+      'is_archived = 0' +
+        ' AND messages.id IN (SELECT message_id FROM message_labels WHERE label_id = CAST(? AS INTEGER))' +
+        ' AND messages.id IN (SELECT message_id FROM message_assignments WHERE assignee_id = ?)'
+    )
+    expect(params).toEqual(['3', 'user_1'])
+  })
+
+  it('should find unassigned messages without a parameter', () => {
+    const { where, params } = buildMessageWhere({ assignee: UNASSIGNED })
+
+    expect(where).toBe(
+      'is_archived = 0 AND messages.id NOT IN (SELECT message_id FROM message_assignments)'
+    )
+    expect(params).toEqual([])
+  })
+})
+
+describe('parseSnippet', () => {
+  it('should split a snippet into plain and matched parts', () => {
+    expect(parseSnippet('…about the \u0002refund\u0003 for <b>\u0002order\u0003</b>')).toEqual([
+      { text: '…about the ', match: false },
+      { text: 'refund', match: true },
+      { text: ' for <b>', match: false },
+      { text: 'order', match: true },
+      { text: '</b>', match: false },
+    ])
+  })
+})
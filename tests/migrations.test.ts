@@ -0,0 +1,249 @@
+import { copyFileSync, mkdtempSync, readdirSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { fileURLToPath } from 'node:url'
+
+import { createClient } from '@libsql/client'
+import type { Client } from '@libsql/client'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+import {
+  MIGRATIONS_DIR,
+  computeMigrationChecksum,
+  diffSchema,
+  diffSchemaObjects,
+  getAppliedMigrations,
+  getMigrationStatus,
+  isSchemaDiffEmpty,
+  loadMigrations,
+  normalizeSchemaSql,
+  rollbackLastMigration,
+  runMigrations,
+  splitSqlStatements,
+} from '#libs/migrations'
+import type { AppliedMigration, Migration } from '#libs/migrations'
+
+const migration = (name: string, up = `CREATE TABLE ${name} (id INTEGER);`): Migration => ({
+  name,
+  up,
+  down: null,
+  checksum: computeMigrationChecksum(up),
+})
+
+const applied = (name: string, checksum: string | null): AppliedMigration => ({
+  name,
+  checksum,
+  applied_at: '2025-01-01 00:00:00',
+})
+
+describe('computeMigrationChecksum', () => {
+  it('ignores line-ending differences', () => {
+    expect(computeMigrationChecksum('SELECT 1;\r\nSELECT 2;')).toBe(
+      computeMigrationChecksum('SELECT 1;\nSELECT 2;')
+    )
+    expect(computeMigrationChecksum('SELECT 1;')).not.toBe(computeMigrationChecksum('SELECT 2;'))
+  })
+})
+
+describe('splitSqlStatements', () => {
+  it('splits on semicolons outside strings, comments and trigger bodies', () => {
+    const sql = `-- Migration: example
+CREATE TABLE a (id INTEGER, note TEXT DEFAULT 'a;b'); /* block; comment */
+CREATE TRIGGER a_touch AFTER UPDATE ON a
+BEGIN
+  UPDATE a SET note = 'x' WHERE id = NEW.id;
+  UPDATE a SET note = 'y' WHERE id = OLD.id;
+END;
+INSERT INTO a (id) VALUES (1)`
+
+    expect(splitSqlStatements(sql)).toEqual([
+      "CREATE TABLE a (id INTEGER, note TEXT DEFAULT 'a;b')",
+      `CREATE TRIGGER a_touch AFTER UPDATE ON a
+BEGIN
+  UPDATE a SET note = 'x' WHERE id = NEW.id;
+  UPDATE a SET note = 'y' WHERE id = OLD.id;
+END`,
+      'INSERT INTO a (id) VALUES (1)',
+    ])
+  })
+
+  it('keeps CASE expressions inside a trigger body', () => {
+    const trigger = `CREATE TRIGGER a_status AFTER INSERT ON a
+BEGIN
+  UPDATE a SET note = CASE WHEN NEW.id > 1 THEN 'many' ELSE 'one' END WHERE id = NEW.id;
+  UPDATE a SET note = 'end;' WHERE id = 0;
+END`
+
+    expect(splitSqlStatements(`${trigger};\nSELECT CASE WHEN 1 THEN 2 END;`)).toEqual([
+      trigger,
+      'SELECT CASE WHEN 1 THEN 2 END',
+    ])
+  })
+
+  it('returns nothing for a file with only comments', () => {
+    expect(splitSqlStatements('-- Rollback: nothing\n\n')).toEqual([])
+  })
+})
+
+describe('getMigrationStatus', () => {
+  it('classifies applied, pending, modified and missing migrations', () => {
+    const files = [migration('001_a'), migration('002_b'), migration('003_c'), migration('004_d')]
+    const records = [
+      applied('001_a', files[0]!.checksum),
+      applied('002_b', 'edited'),
+      applied('003_c', null),
+      applied('000_removed', 'x'),
+    ]
+
+    expect(getMigrationStatus(files, records).map(({ name, state }) => [name, state])).toEqual([
+      ['001_a', 'applied'],
+      ['002_b', 'modified'],
+      ['003_c', 'applied'],
+      ['004_d', 'pending'],
+      ['000_removed', 'missing'],
+    ])
+  })
+})
+
+describe('normalizeSchemaSql', () => {
+  it('ignores comments, whitespace, case and IF NOT EXISTS', () => {
+    expect(
+      normalizeSchemaSql(`CREATE TABLE IF NOT EXISTS t (\n  -- id\n  id INTEGER ,\n  name TEXT\n)`)
+    ).toBe(normalizeSchemaSql('create table t(id integer,name text)'))
+  })
+})
+
+describe('diffSchemaObjects', () => {
+  it('reports missing, unexpected and changed objects', () => {
+    const expected = [
+      { type: 'table', name: 'a', sql: 'CREATE TABLE a (id INTEGER)' },
+      { type: 'index', name: 'idx_a', sql: 'CREATE INDEX idx_a ON a(id)' },
+    ]
+    const actual = [
+      { type: 'table', name: 'a', sql: 'CREATE TABLE a (id TEXT)' },
+      { type: 'table', name: 'b', sql: 'CREATE TABLE b (id INTEGER)' },
+    ]
+
+    const diff = diffSchemaObjects(expected, actual)
+
+    expect(diff.missing.map(({ name }) => name)).toEqual(['idx_a'])
+    expect(diff.unexpected.map(({ name }) => name)).toEqual(['b'])
+    expect(diff.changed.map(({ expected }) => expected.name)).toEqual(['a'])
+    expect(isSchemaDiffEmpty(diffSchemaObjects(expected, expected))).toBe(true)
+  })
+})
+
+describe('migration runner', () => {
+  let client: Client
+  let directory: string
+
+  beforeEach(() => {
+    client = createClient({ url: ':memory:', intMode: 'number' })
+    directory = mkdtempSync(join(tmpdir(), 'migrations-'))
+  })
+
+  afterEach(() => {
+    client.close()
+    rmSync(directory, { recursive: true, force: true })
+  })
+
+  it('resolves the repository migrations from the module rather than the working directory', () => {
+    expect(MIGRATIONS_DIR).toBe(
+      fileURLToPath(new globalThis.URL('../db/migrations', import.meta.url))
+    )
+    expect(loadMigrations(join(directory, 'missing'))).toEqual([])
+  })
+
+  it('applies the repository migrations without schema drift', async () => {
+    const result = await runMigrations({ client })
+
+    expect(result.applied).toEqual(loadMigrations().map(({ name }) => name))
+    expect(isSchemaDiffEmpty(await diffSchema({ client }))).toBe(true)
+    expect((await runMigrations({ client })).applied).toEqual([])
+  })
+
+  it('lists pending migrations in a dry run without applying them', async () => {
+    writeFileSync(join(directory, '001_a.up.sql'), 'CREATE TABLE a (id INTEGER);')
+
+    const result = await runMigrations({ client, directory, dryRun: true })
+
+    expect(result).toEqual({ dryRun: true, applied: ['001_a'] })
+    expect(await getAppliedMigrations(client)).toEqual([])
+  })
+
+  it('rolls back a migration that fails part way through', async () => {
+    writeFileSync(
+      join(directory, '001_broken.up.sql'),
+      'CREATE TABLE a (id INTEGER);\nINSERT INTO missing_table VALUES (1);'
+    )
+
+    await expect(runMigrations({ client, directory })).rejects.toThrow()
+
+    const tables = await client.execute("SELECT name FROM sqlite_master WHERE name = 'a'")
+    expect(tables.rows).toHaveLength(0)
+    expect(await getAppliedMigrations(client)).toEqual([])
+  })
+
+  it('refuses to run when an applied migration was edited', async () => {
+    writeFileSync(join(directory, '001_a.up.sql'), 'CREATE TABLE a (id INTEGER);')
+    await runMigrations({ client, directory })
+    writeFileSync(join(directory, '001_a.up.sql'), 'CREATE TABLE a (id TEXT);')
+    writeFileSync(join(directory, '002_b.up.sql'), 'CREATE TABLE b (id INTEGER);')
+
+    await expect(runMigrations({ client, directory })).rejects.toThrow(
+      'Migrations changed after they were applied: 001_a'
+    )
+    expect((await getAppliedMigrations(client)).map(({ name }) => name)).toEqual(['001_a'])
+  })
+
+  it('splits labels in use by several organizations when scoping labels', async () => {
+    for (const file of readdirSync(MIGRATIONS_DIR).filter(file => file < '014')) {
+      copyFileSync(join(MIGRATIONS_DIR, file), join(directory, file))
+    }
+    await runMigrations({ client, directory })
+    await client.executeMultiple(`
+      INSERT INTO messages (id, name, email, message, organization_id) VALUES
+        (1, 'Ada', 'ada@example.com', 'Hi', 'org_a'),
+        (2, 'Ben', 'ben@example.com', 'Hi', 'org_b');
+      INSERT INTO labels (id, name) VALUES (1, 'Billing'), (2, 'Unused');
+      INSERT INTO message_labels (message_id, label_id) VALUES (1, 1), (2, 1);
+    `)
+    for (const file of readdirSync(MIGRATIONS_DIR).filter(file => file.startsWith('014_'))) {
+      copyFileSync(join(MIGRATIONS_DIR, file), join(directory, file))
+    }
+
+    await runMigrations({ client, directory })
+
+    const labels = await client.execute(
+      `SELECT labels.name, labels.organization_id, message_labels.message_id
+       FROM labels LEFT JOIN message_labels ON message_labels.label_id = labels.id
+       ORDER BY labels.name, message_labels.message_id`
+    )
+    expect(labels.rows.map(row => ({ ...row }))).toEqual([
+      { name: 'Billing', organization_id: 'org_a', message_id: 1 },
+      { name: 'Billing', organization_id: 'org_b', message_id: 2 },
+      { name: 'Unused', organization_id: null, message_id: null },
+    ])
+
+    expect(await rollbackLastMigration({ client, directory })).toBe(
+      '014_add_label_organization_scope'
+    )
+    const restored = await client.execute(
+      'SELECT label_id, message_id FROM message_labels ORDER BY message_id'
+    )
+    expect(restored.rows.map(row => ({ ...row }))).toEqual([
+      { label_id: 1, message_id: 1 },
+      { label_id: 1, message_id: 2 },
+    ])
+  })
+
+  it('rolls back the last migration with its down file', async () => {
+    writeFileSync(join(directory, '001_a.up.sql'), 'CREATE TABLE a (id INTEGER);')
+    writeFileSync(join(directory, '001_a.down.sql'), 'DROP TABLE a;')
+    await runMigrations({ client, directory })
+
+    expect(await rollbackLastMigration({ client, directory })).toBe('001_a')
+    expect(await getAppliedMigrations(client)).toEqual([])
+    expect(await rollbackLastMigration({ client, directory })).toBeNull()
+  })
+})
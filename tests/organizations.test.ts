@@ -0,0 +1,115 @@
+import { mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { getMessageRepository } from '#libs/message-repository'
+import type { NewMessage } from '#libs/message-repository'
+import {
+  buildOrganizationWhere,
+  canAccessAdmin,
+  getDefaultOrganizationId,
+  resolveOrganizationId,
+} from '#libs/organizations'
+import { resetTursoClient } from '#libs/turso'
+
+describe('organization helpers', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('resolves the active organization from Clerk auth', () => {
+    expect(resolveOrganizationId({ orgId: 'org_a' })).toBe('org_a')
+    expect(resolveOrganizationId({ orgId: null })).toBeNull()
+    expect(resolveOrganizationId({})).toBeNull()
+  })
+
+  it('only lets organization members and listed staff into the admin area', () => {
+    vi.stubEnv('ADMIN_USER_IDS', ' user_staff , user_owner ')
+
+    expect(canAccessAdmin({ userId: 'user_a', orgId: 'org_a' })).toBe(true)
+    expect(canAccessAdmin({ userId: 'user_owner', orgId: null })).toBe(true)
+    expect(canAccessAdmin({ userId: 'user_signup', orgId: null })).toBe(false)
+    expect(canAccessAdmin({ userId: null, orgId: 'org_a' })).toBe(false)
+
+    vi.stubEnv('ADMIN_USER_IDS', '')
+    expect(canAccessAdmin({ userId: 'user_owner' })).toBe(false)
+  })
+
+  it('reads the default organization for public submissions', () => {
+    vi.stubEnv('DEFAULT_ORGANIZATION_ID', '')
+    expect(getDefaultOrganizationId()).toBeNull()
+
+    vi.stubEnv('DEFAULT_ORGANIZATION_ID', 'org_site')
+    expect(getDefaultOrganizationId()).toBe('org_site')
+  })
+
+  it('builds conditions that match null organizations and unscoped access', () => {
+    expect(buildOrganizationWhere('org_a')).toEqual({
+      where: 'organization_id IS ?',
+      params: ['org_a'],
+    })
+    expect(buildOrganizationWhere(null)).toEqual({ where: 'organization_id IS ?', params: [null] })
+    expect(buildOrganizationWhere(undefined)).toEqual({ where: '1 = 1', params: [] })
+  })
+})
+
+describe('organization-scoped message repository', () => {
+  let directory: string
+
+  const message = (name: string): NewMessage => ({
+    name,
+    email: `${name.toLowerCase()}@example.com`,
+    subject: null,
+    message: `Hello from ${name}`,
+    ip_address: null,
+    user_agent: null,
+  })
+
+  beforeEach(() => {
+    resetTursoClient()
+    directory = mkdtempSync(join(tmpdir(), 'organizations-'))
+    vi.stubEnv('DB_MODE', '')
+    vi.stubEnv('TURSO_AUTH_TOKEN', '')
+    vi.stubEnv('TURSO_DATABASE_URL', `file:${join(directory, 'test.db')}`)
+  })
+
+  afterEach(() => {
+    resetTursoClient()
+    vi.unstubAllEnvs()
+    rmSync(directory, { recursive: true, force: true })
+  })
+
+  it('stores and reads messages only within the organization', async () => {
+    const teamA = getMessageRepository('org_a')
+    const teamB = getMessageRepository('org_b')
+    const personal = getMessageRepository(null)
+
+    const fromA = await teamA.create({
+      ...message('Ada'),
+      phone: '555 0100',
+      organization_id: 'org_b',
+    })
+    await teamB.create(message('Ben'))
+    await personal.create(message('Chen'))
+
+    expect(fromA).toMatchObject({ organization_id: 'org_a', phone: '555 0100' })
+    expect(await teamB.findById(fromA.id)).toBeNull()
+    expect((await teamA.listPage()).messages.map(row => row.name)).toEqual(['Ada'])
+    expect((await personal.search({ q: 'hello' })).messages.map(row => row.name)).toEqual(['Chen'])
+    expect((await teamB.countByFilter()).inbox).toBe(1)
+    expect((await getMessageRepository().listPage()).total).toBe(3)
+  })
+
+  it('does not update or delete messages of other organizations', async () => {
+    const created = await getMessageRepository('org_a').create(message('Ada'))
+    const teamB = getMessageRepository('org_b')
+
+    expect(await teamB.updateFlags([created.id], { is_read: true })).toBe(0)
+    expect(await teamB.delete([created.id])).toBe(0)
+    expect(await getMessageRepository('org_a').findById(created.id)).toMatchObject({
+      is_read: false,
+    })
+  })
+})
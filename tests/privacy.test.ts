@@ -0,0 +1,372 @@
+import { mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+
+import { createClient } from '@supabase/supabase-js'
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest'
+
+import { saveMessageAttachments } from '#libs/attachments'
+import type { Database } from '#libs/database.types'
+import {
+  applyRetentionPolicy,
+  deleteMessages,
+  erasePersonalData,
+  exportPersonalData,
+  getRetentionPolicy,
+  normalizeEmail,
+  toSqlTimestamp,
+} from '#libs/privacy'
+import { getMessageRepository, setMessageRepository } from '#libs/message-repository'
+import { SupabaseMessageRepository } from '#libs/supabase-message-repository'
+import { executeQuery, resetTursoClient } from '#libs/turso'
+import { createWebhookSubscription, dispatchWebhookEvent } from '#libs/webhooks'
+
+describe('getRetentionPolicy', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('should default to clearing network details after 90 days and deleting after a year', () => {
+    vi.stubEnv('RETENTION_ANONYMIZE_DAYS', '')
+    vi.stubEnv('RETENTION_DELETE_ARCHIVED_DAYS', '')
+    vi.stubEnv('RETENTION_WEBHOOK_DELIVERY_DAYS', '')
+    expect(getRetentionPolicy()).toEqual({
+      anonymizeAfterDays: 90,
+      deleteArchivedAfterDays: 365,
+      deleteWebhookDeliveriesAfterDays: 30,
+    })
+  })
+
+  it('should read overrides and turn a step off with 0', () => {
+    vi.stubEnv('RETENTION_ANONYMIZE_DAYS', '30')
+    vi.stubEnv('RETENTION_DELETE_ARCHIVED_DAYS', '0')
+    vi.stubEnv('RETENTION_WEBHOOK_DELIVERY_DAYS', '7')
+    expect(getRetentionPolicy()).toEqual({
+      anonymizeAfterDays: 30,
+      deleteArchivedAfterDays: null,
+      deleteWebhookDeliveriesAfterDays: 7,
+    })
+  })
+
+  it('should ignore invalid values', () => {
+    vi.stubEnv('RETENTION_ANONYMIZE_DAYS', 'soon')
+    vi.stubEnv('RETENTION_DELETE_ARCHIVED_DAYS', '-5')
+    vi.stubEnv('RETENTION_WEBHOOK_DELIVERY_DAYS', 'never')
+    expect(getRetentionPolicy()).toEqual({
+      anonymizeAfterDays: 90,
+      deleteArchivedAfterDays: 365,
+      deleteWebhookDeliveriesAfterDays: 30,
+    })
+  })
+})
+
+describe('toSqlTimestamp', () => {
+  it('should match the CURRENT_TIMESTAMP format used by created_at', () => {
+    expect(toSqlTimestamp(new Date('2025-08-01T09:30:15.250Z'))).toBe('2025-08-01 09:30:15')
+  })
+})
+
+describe('normalizeEmail', () => {
+  it('should trim and lowercase valid addresses', () => {
+    expect(normalizeEmail('  Ada@Example.COM ')).toBe('ada@example.com')
+  })
+
+  it('should reject anything that is not an email address', () => {
+    expect(normalizeEmail('not-an-email')).toBe(null)
+    expect(normalizeEmail(undefined)).toBe(null)
+    expect(normalizeEmail(['ada@example.com'])).toBe(null)
+  })
+})
+
+describe('organization scope', () => {
+  let directory: string
+  const storage = { put: vi.fn(), get: vi.fn(), delete: vi.fn() }
+
+  beforeEach(async () => {
+    directory = mkdtempSync(join(tmpdir(), 'privacy-'))
+    vi.stubEnv('TURSO_DATABASE_URL', `file:${join(directory, 'test.db')}`)
+    resetTursoClient()
+
+    for (const organizationId of ['org_a', 'org_b']) {
+      await getMessageRepository(organizationId).create({
+        name: 'Ada',
+        email: 'ada@example.com',
+        subject: null,
+        message: `Hello ${organizationId}`,
+        ip_address: null,
+        user_agent: null,
+      })
+      await executeQuery(
+        `INSERT INTO form_submissions (form_id, data, organization_id) VALUES ('support', ?, ?)`,
+        [JSON.stringify({ email: 'ada@example.com' }), organizationId]
+      )
+    }
+  })
+
+  afterEach(() => {
+    resetTursoClient()
+    vi.unstubAllEnvs()
+    rmSync(directory, { recursive: true, force: true })
+  })
+
+  it("should not export another organization's records", async () => {
+    const data = await exportPersonalData('ada@example.com', { organizationId: 'org_a' })
+
+    expect(data.messages.map(message => message.message)).toEqual(['Hello org_a'])
+    expect(data.form_submissions).toHaveLength(1)
+    expect((await exportPersonalData('ada@example.com')).messages).toHaveLength(2)
+  })
+
+  it("should not erase another organization's records", async () => {
+    const result = await erasePersonalData('ada@example.com', { organizationId: 'org_a', storage })
+
+    expect(result).toMatchObject({ deletedMessages: 1, deletedFormSubmissions: 1 })
+    const remaining = await exportPersonalData('ada@example.com')
+    expect(remaining.messages.map(message => message.organization_id)).toEqual(['org_b'])
+    expect(remaining.form_submissions).toHaveLength(1)
+  })
+  it('should delete old archived messages of every organization', async () => {
+    await executeQuery(
+      `UPDATE messages SET is_archived = 1, created_at = datetime('now', '-60 days')
+       WHERE organization_id = 'org_a'`
+    )
+    await executeQuery(`UPDATE messages SET is_archived = 1 WHERE organization_id = 'org_b'`)
+    const policy = {
+      anonymizeAfterDays: null,
+      deleteArchivedAfterDays: 30,
+      deleteWebhookDeliveriesAfterDays: null,
+    }
+
+    expect(await applyRetentionPolicy(policy, { dryRun: true, storage })).toMatchObject({
+      deletedMessages: 1,
+      deletedAttachments: 0,
+    })
+    expect((await applyRetentionPolicy(policy, { storage })).deletedMessages).toBe(1)
+    const remaining = await exportPersonalData('ada@example.com')
+    expect(remaining.messages.map(message => message.organization_id)).toEqual(['org_b'])
+  })
+
+  it('should remove the attachment files of bulk deleted messages', async () => {
+    const files = new Map<string, Uint8Array>()
+    const fileStorage = {
+      put: async (key: string, body: Uint8Array) => void files.set(key, body),
+      get: async () => null,
+      delete: async (key: string) => void files.delete(key),
+    }
+    const ids = (await executeQuery('SELECT id FROM messages ORDER BY id')).rows.map(row =>
+      Number(row.id)
+    )
+    for (const id of ids) {
+      const body = new globalThis.TextEncoder().encode('hello')
+      await saveMessageAttachments(
+        id,
+        [{ fileName: 'a.txt', contentType: 'text/plain', body }],
+        fileStorage
+      )
+    }
+
+    expect(await deleteMessages(ids, fileStorage, 'org_a')).toEqual({
+      deletedMessages: 1,
+      deletedAttachments: 1,
+    })
+    expect(files.size).toBe(1)
+
+    await deleteMessages(ids, fileStorage, 'org_b')
+    expect(files.size).toBe(0)
+    expect(
+      (await executeQuery('SELECT COUNT(*) AS count FROM message_attachments')).rows[0]?.count
+    ).toBe(0)
+  })
+})
+
+describe('Supabase message storage', () => {
+  let directory: string
+  let requests: { method: string; url: globalThis.URL }[]
+  let responses: unknown[][]
+  const storage = { put: vi.fn(), get: vi.fn(), delete: vi.fn() }
+
+  const params = (index: number) => Object.fromEntries(requests[index]?.url.searchParams ?? [])
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'privacy-supabase-'))
+    vi.stubEnv('TURSO_DATABASE_URL', `file:${join(directory, 'test.db')}`)
+    resetTursoClient()
+    requests = []
+    responses = []
+
+    const client = createClient<Database>('https://project.supabase.co', 'service-role-key', {
+      auth: { persistSession: false, autoRefreshToken: false },
+      global: {
+        fetch: async (input, init) => {
+          requests.push({ method: init?.method ?? 'GET', url: new globalThis.URL(String(input)) })
+          return new globalThis.Response(JSON.stringify(responses.shift() ?? []), {
+            status: 200,
+            headers: { 'Content-Type': 'application/json' },
+          })
+        },
+      },
+    })
+    setMessageRepository(new SupabaseMessageRepository({ client }))
+  })
+
+  afterEach(() => {
+    setMessageRepository(null)
+    resetTursoClient()
+    vi.unstubAllEnvs()
+    rmSync(directory, { recursive: true, force: true })
+  })
+
+  it('should find the messages to erase through the repository', async () => {
+    responses = [[{ id: 7 }], [{ id: 7 }]]
+
+    const result = await erasePersonalData('Ada@Example.com', { organizationId: 'org_a', storage })
+
+    expect(result).toMatchObject({ deletedMessages: 1, deletedAttachments: 0 })
+    expect(requests.map(request => request.method)).toEqual(['GET', 'DELETE'])
+    expect(params(0)).toMatchObject({
+      select: 'id',
+      email: 'ilike.ada@example.com',
+      organization_id: 'eq.org_a',
+      order: 'id.asc',
+      limit: '200',
+    })
+    expect(params(1)).toMatchObject({ id: 'in.(7)', organization_id: 'eq.org_a' })
+  })
+
+  it('should count archived messages for a dry run without deleting them', async () => {
+    responses = [[{ id: 3 }, { id: 4 }]]
+    const policy = {
+      anonymizeAfterDays: null,
+      deleteArchivedAfterDays: 30,
+      deleteWebhookDeliveriesAfterDays: null,
+    }
+
+    const result = await applyRetentionPolicy(policy, {
+      dryRun: true,
+      storage,
+      now: new Date('2025-09-01T00:00:00Z'),
+    })
+
+    expect(result.deletedMessages).toBe(2)
+    expect(requests.map(request => request.method)).toEqual(['GET'])
+    expect(params(0)).toMatchObject({
+      is_archived: 'is.true',
+      created_at: 'lt.2025-08-02T00:00:00Z',
+    })
+  })
+})
+
+describe('webhook deliveries', () => {
+  let directory: string
+  const fetch = vi.fn(async () => new globalThis.Response(null, { status: 204 }))
+  const lookup = async () => ['93.184.216.34']
+  const storage = { put: vi.fn(), get: vi.fn(), delete: vi.fn() }
+
+  beforeEach(async () => {
+    directory = mkdtempSync(join(tmpdir(), 'privacy-'))
+    vi.stubEnv('TURSO_DATABASE_URL', `file:${join(directory, 'test.db')}`)
+    resetTursoClient()
+
+    for (const organizationId of ['org_a', 'org_b']) {
+      await createWebhookSubscription(
+        {
+          url: 'https://example.com/hooks',
+          events: ['message.created', 'form.submitted'],
+          description: null,
+        },
+        organizationId
+      )
+    }
+    await dispatchWebhookEvent(
+      'message.created',
+      { message: { id: 1, email: 'Ada@Example.com', message: 'Hello' } },
+      'org_a',
+      { fetch, lookup }
+    )
+    await dispatchWebhookEvent(
+      'form.submitted',
+      { form_id: 'support', submission: { id: 1, data: { email: 'ada@example.com' } } },
+      'org_a',
+      { fetch, lookup }
+    )
+    await dispatchWebhookEvent(
+      'message.created',
+      { message: { id: 2, email: 'grace@example.com', message: 'Hi' } },
+      'org_b',
+      { fetch, lookup }
+    )
+  })
+
+  afterEach(() => {
+    resetTursoClient()
+    vi.unstubAllEnvs()
+    rmSync(directory, { recursive: true, force: true })
+  })
+
+  it('should export and erase the deliveries that copied an address', async () => {
+    const data = await exportPersonalData('ada@example.com')
+    expect(data.webhook_deliveries.map(delivery => delivery.event)).toEqual([
+      'message.created',
+      'form.submitted',
+    ])
+    expect(data.webhook_deliveries[0]?.payload).toMatchObject({
+      data: { message: { email: 'Ada@Example.com' } },
+    })
+    expect(
+      (await exportPersonalData('ada@example.com', { organizationId: 'org_b' })).webhook_deliveries
+    ).toEqual([])
+
+    const result = await erasePersonalData('ada@example.com', { storage })
+    expect(result.deletedWebhookDeliveries).toBe(2)
+    expect((await exportPersonalData('ada@example.com')).webhook_deliveries).toEqual([])
+    expect((await exportPersonalData('grace@example.com')).webhook_deliveries).toHaveLength(1)
+  })
+
+  it('should delete finished deliveries past the retention period', async () => {
+    await executeQuery(
+      `UPDATE webhook_deliveries SET updated_at = datetime('now', '-10 days') WHERE id = 1`
+    )
+    const policy = {
+      anonymizeAfterDays: null,
+      deleteArchivedAfterDays: null,
+      deleteWebhookDeliveriesAfterDays: 7,
+    }
+
+    expect(
+      (await applyRetentionPolicy(policy, { dryRun: true, storage })).deletedWebhookDeliveries
+    ).toBe(1)
+    expect((await applyRetentionPolicy(policy, { storage })).deletedWebhookDeliveries).toBe(1)
+    expect((await exportPersonalData('ada@example.com')).webhook_deliveries).toHaveLength(1)
+  })
+})
+
+describe('privacy script', () => {
+  let directory: string
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    vi.unstubAllEnvs()
+    resetTursoClient()
+    rmSync(directory, { recursive: true, force: true })
+  })
+
+  it('should import and run a dry-run retention pass', async () => {
+    directory = mkdtempSync(join(tmpdir(), 'privacy-script-'))
+    vi.stubEnv('TURSO_DATABASE_URL', `file:${join(directory, 'test.db')}`)
+    resetTursoClient()
+    const argv = process.argv
+    process.argv = [argv[0] ?? 'node', 'scripts/privacy.ts', 'retention', '--dry-run']
+    const exit = vi.spyOn(process, 'exit').mockImplementation((() => undefined) as never)
+    const output = vi.spyOn(console, 'log').mockImplementation(() => undefined)
+
+    try {
+      const { main } = await import('../scripts/privacy')
+      await main()
+    } finally {
+      process.argv = argv
+    }
+
+    expect(exit).toHaveBeenCalledWith(0)
+    expect(output.mock.calls.flat().join('\n')).toContain('Dry run mode')
+  })
+})
@@ -0,0 +1,137 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import {
+  DEFAULT_SLOW_QUERY_MS,
+  getSlowQueryThresholdMs,
+  onQuery,
+  recordQuery,
+  redactParams,
+  resetQueryInstrumentation,
+  summarizeSql,
+} from '#libs/query-instrumentation'
+import type { QueryEvent } from '#libs/query-instrumentation'
+import { executeQuery, executeTransaction, resetTursoClient } from '#libs/turso'
+
+const slowEvent = (durationMs: number): QueryEvent => ({
+  kind: 'query',
+  statements: [{ sql: 'SELECT *\n  FROM messages WHERE email = ?', params: ['[string(13)]'] }],
+  durationMs,
+  rows: 2,
+  rowsAffected: 0,
+  error: null,
+})
+
+describe('redactParams', () => {
+  it('keeps numbers, booleans and null and hides everything else', () => {
+    expect(
+      redactParams([42, true, null, 'someone@example.com', new Uint8Array(3), 7n, new Date(0)])
+    ).toEqual([42, true, null, '[string(19)]', '[blob(3)]', '7', '[date]'])
+    expect(redactParams({ id: 1, email: 'a@b.co' })).toEqual({ id: 1, email: '[string(6)]' })
+    expect(redactParams()).toEqual([])
+  })
+})
+
+describe('summarizeSql', () => {
+  it('collapses whitespace and truncates long statements', () => {
+    expect(summarizeSql('SELECT *\n   FROM messages')).toBe('SELECT * FROM messages')
+    expect(summarizeSql('SELECT 1234567890', 10)).toBe('SELECT 12…')
+  })
+})
+
+describe('slow-query log', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    vi.restoreAllMocks()
+  })
+
+  it('reads the threshold from DB_SLOW_QUERY_MS', () => {
+    vi.stubEnv('DB_SLOW_QUERY_MS', '')
+    expect(getSlowQueryThresholdMs()).toBe(DEFAULT_SLOW_QUERY_MS)
+    vi.stubEnv('DB_SLOW_QUERY_MS', '50')
+    expect(getSlowQueryThresholdMs()).toBe(50)
+    vi.stubEnv('DB_SLOW_QUERY_MS', 'soon')
+    expect(getSlowQueryThresholdMs()).toBe(DEFAULT_SLOW_QUERY_MS)
+  })
+
+  it('logs queries slower than the threshold with redacted parameters', () => {
+    vi.stubEnv('DB_SLOW_QUERY_MS', '100')
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+    recordQuery(slowEvent(99))
+    expect(warn).not.toHaveBeenCalled()
+
+    recordQuery(slowEvent(150.4))
+    expect(warn).toHaveBeenCalledWith('Slow database query:', {
+      kind: 'query',
+      durationMs: 150,
+      rows: 2,
+      statements: [{ sql: 'SELECT * FROM messages WHERE email = ?', params: ['[string(13)]'] }],
+    })
+  })
+
+  it('is disabled with a threshold of 0', () => {
+    vi.stubEnv('DB_SLOW_QUERY_MS', '0')
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+    recordQuery(slowEvent(60_000))
+
+    expect(warn).not.toHaveBeenCalled()
+  })
+})
+
+describe('query listeners', () => {
+  beforeEach(() => {
+    resetTursoClient()
+    vi.stubEnv('TURSO_DATABASE_URL', ':memory:')
+    vi.stubEnv('SENTRY_DSN', '')
+  })
+
+  afterEach(() => {
+    resetQueryInstrumentation()
+    resetTursoClient()
+    vi.unstubAllEnvs()
+    vi.restoreAllMocks()
+  })
+
+  it('records duration, rows and redacted parameters of each query', async () => {
+    const events: QueryEvent[] = []
+    const unsubscribe = onQuery(event => events.push(event))
+
+    await executeQuery('SELECT ? AS email, ? AS id', ['someone@example.com', 3])
+    unsubscribe()
+    await executeQuery('SELECT 1')
+
+    expect(events).toHaveLength(1)
+    expect(events[0]).toMatchObject({
+      kind: 'query',
+      statements: [{ sql: 'SELECT ? AS email, ? AS id', params: ['[string(19)]', 3] }],
+      rows: 1,
+      error: null,
+    })
+    expect(events[0]!.durationMs).toBeGreaterThanOrEqual(0)
+  })
+
+  it('records transactions and failed queries', async () => {
+    const events: QueryEvent[] = []
+    onQuery(event => events.push(event))
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    await executeTransaction([{ query: 'SELECT 1' }, { query: 'SELECT 2 UNION SELECT 3' }])
+    await expect(executeQuery('SELECT * FROM missing_table')).rejects.toThrow()
+
+    expect(events.map(({ kind, rows }) => [kind, rows])).toEqual([
+      ['transaction', 3],
+      ['query', 0],
+    ])
+    expect(events[1]!.error?.message).toContain('missing_table')
+  })
+
+  it('never fails a query because a listener throws', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    onQuery(() => {
+      throw new Error('listener bug')
+    })
+
+    await expect(executeQuery('SELECT 1 AS one')).resolves.toMatchObject({ rows: [{ one: 1 }] })
+  })
+})
@@ -0,0 +1,141 @@
+import { LibsqlError } from '@libsql/client'
+import { describe, expect, it, vi } from 'vitest'
+
+import {
+  CircuitBreaker,
+  getRetryDelay,
+  isRetryableDatabaseError,
+  settleWithin,
+} from '#libs/resilience'
+
+describe('isRetryableDatabaseError', () => {
+  it('retries contention and connection errors by libSQL code', () => {
+    expect(isRetryableDatabaseError(new LibsqlError('database is locked', 'SQLITE_BUSY'))).toBe(
+      true
+    )
+    expect(isRetryableDatabaseError(new LibsqlError('snapshot', 'SQLITE_BUSY_SNAPSHOT'))).toBe(true)
+    expect(isRetryableDatabaseError(new LibsqlError('server error', 'SERVER_ERROR'))).toBe(true)
+    expect(isRetryableDatabaseError(new LibsqlError('closed', 'HRANA_WEBSOCKET_ERROR'))).toBe(true)
+  })
+
+  it('does not retry SQL and constraint errors', () => {
+    expect(isRetryableDatabaseError(new LibsqlError('no such table', 'SQLITE_ERROR'))).toBe(false)
+    expect(
+      isRetryableDatabaseError(new LibsqlError('UNIQUE constraint failed', 'SQLITE_CONSTRAINT'))
+    ).toBe(false)
+    expect(isRetryableDatabaseError(new Error('connection string is invalid'))).toBe(false)
+  })
+
+  it('retries network errors found on the cause', () => {
+    const cause = Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' })
+
+    expect(isRetryableDatabaseError(new TypeError('fetch failed', { cause }))).toBe(true)
+  })
+})
+
+describe('getRetryDelay', () => {
+  const options = { baseDelayMs: 100, maxDelayMs: 1000, jitter: 0.5 }
+
+  it('doubles the delay for each attempt up to the maximum', () => {
+    const noJitter = { ...options, jitter: 0 }
+
+    expect([1, 2, 3, 4, 5].map(attempt => getRetryDelay(attempt, noJitter))).toEqual([
+      100, 200, 400, 800, 1000,
+    ])
+  })
+
+  it('randomises up to the jitter fraction of the delay', () => {
+    expect(getRetryDelay(2, options, () => 0)).toBe(100)
+    expect(getRetryDelay(2, options, () => 1)).toBe(200)
+  })
+})
+
+describe('CircuitBreaker', () => {
+  const createBreaker = () => {
+    const clock = { now: 0 }
+    const breaker = new CircuitBreaker(
+      { failureThreshold: 2, resetTimeoutMs: 1000 },
+      () => clock.now
+    )
+    return { clock, breaker }
+  }
+
+  it('opens after consecutive failures and fails fast', () => {
+    const { breaker } = createBreaker()
+
+    breaker.recordFailure()
+    expect(breaker.state).toBe('closed')
+    breaker.recordFailure()
+
+    expect(breaker.state).toBe('open')
+    expect(breaker.allowRequest()).toBe(false)
+    expect(breaker.snapshot()).toMatchObject({
+      state: 'open',
+      consecutiveFailures: 2,
+      openedAt: new Date(0).toISOString(),
+      retryAt: new Date(1000).toISOString(),
+    })
+  })
+
+  it('lets one trial request through after the reset timeout', () => {
+    const { clock, breaker } = createBreaker()
+    breaker.recordFailure()
+    breaker.recordFailure()
+    clock.now = 1000
+
+    expect(breaker.state).toBe('half-open')
+    expect(breaker.allowRequest()).toBe(true)
+    expect(breaker.allowRequest()).toBe(false)
+
+    breaker.recordSuccess()
+    expect(breaker.state).toBe('closed')
+    expect(breaker.allowRequest()).toBe(true)
+  })
+
+  it('reopens when the trial request fails', () => {
+    const { clock, breaker } = createBreaker()
+    breaker.recordFailure()
+    breaker.recordFailure()
+    clock.now = 1500
+    breaker.allowRequest()
+
+    breaker.recordFailure()
+
+    expect(breaker.state).toBe('open')
+    expect(breaker.snapshot().retryAt).toBe(new Date(2500).toISOString())
+  })
+
+  it('resets the failure count after a success', () => {
+    const { breaker } = createBreaker()
+    breaker.recordFailure()
+    breaker.recordSuccess()
+    breaker.recordFailure()
+
+    expect(breaker.state).toBe('closed')
+  })
+})
+
+describe('settleWithin', () => {
+  it('waits for every task, including rejected ones', async () => {
+    const settled = await settleWithin(
+      [Promise.resolve(1), Promise.reject(new Error('SMTP down'))],
+      1000
+    )
+
+    expect(settled).toBe(true)
+  })
+
+  it('stops waiting at the deadline', async () => {
+    vi.useFakeTimers()
+    try {
+      const slow = new Promise(resolve => globalThis.setTimeout(resolve, 10_000))
+      const result = settleWithin([slow], 2000)
+
+      await vi.advanceTimersByTimeAsync(2000)
+
+      expect(await result).toBe(false)
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+})
@@ -0,0 +1,140 @@
+import { createClient } from '@libsql/client'
+import type { Client } from '@libsql/client'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { FORM_DEFINITIONS } from '#data/forms'
+import { runMigrations } from '#libs/migrations'
+import { createRandom, generateFixtures, resolveSeedTables, seedDatabase } from '#libs/seed'
+import { validateFormValues } from '#utils/forms'
+
+const now = new Date('2025-06-01T12:00:00Z')
+
+const count = async (client: Client, table: string) => {
+  const result = await client.execute(`SELECT COUNT(*) AS count FROM ${table}`)
+  return Number(result.rows[0]?.count)
+}
+
+describe('createRandom', () => {
+  it('repeats the same sequence for the same seed', () => {
+    const a = createRandom('demo')
+    const b = createRandom('demo')
+    const sequence = Array.from({ length: 5 }, () => a.next())
+
+    expect(Array.from({ length: 5 }, () => b.next())).toEqual(sequence)
+    expect(createRandom('other').next()).not.toBe(sequence[0])
+    sequence.forEach(value => expect(value).toBeGreaterThanOrEqual(0))
+    sequence.forEach(value => expect(value).toBeLessThan(1))
+  })
+})
+
+describe('resolveSeedTables', () => {
+  it('adds messages when replies are selected', () => {
+    expect(resolveSeedTables(['replies'])).toEqual({ ok: true, value: ['messages', 'replies'] })
+  })
+
+  it('rejects unknown tables', () => {
+    const result = resolveSeedTables(['messages', 'users'])
+
+    expect(result.ok).toBe(false)
+    expect(!result.ok && result.error.message).toContain('Unknown tables: users')
+  })
+})
+
+describe('generateFixtures', () => {
+  it('is deterministic for a seed and date', () => {
+    expect(generateFixtures({ seed: 7, now })).toEqual(generateFixtures({ seed: 7, now }))
+    expect(generateFixtures({ seed: 8, now })).not.toEqual(generateFixtures({ seed: 7, now }))
+  })
+
+  it('creates chronological messages with safe contact details', () => {
+    const { messages } = generateFixtures({ now, counts: { messages: 30 } })
+    const dates = messages.map(message => message.created_at)
+
+    expect(messages).toHaveLength(30)
+    expect(dates).toEqual([...dates].sort())
+    messages.forEach(message => {
+      expect(message.email).toMatch(/@example\.(com|org|net)$/)
+      expect(message.ip_address).toMatch(/^(192\.0\.2|198\.51\.100|203\.0\.113)\.\d+$/)
+      expect(message.is_archived && !message.is_read).toBe(false)
+    })
+  })
+
+  it('creates form submissions that pass form validation', () => {
+    const { formSubmissions } = generateFixtures({ now })
+
+    formSubmissions.forEach(submission => {
+      const definition = FORM_DEFINITIONS.find(form => form.id === submission.form_id)
+      expect(definition).toBeDefined()
+      expect(validateFormValues(definition!, submission.data).errors).toEqual({})
+    })
+  })
+})
+
+describe('seedDatabase', () => {
+  let client: Client
+
+  beforeEach(async () => {
+    client = createClient({ url: ':memory:', intMode: 'number' })
+    await runMigrations({ client })
+  })
+
+  afterEach(() => {
+    client.close()
+  })
+
+  it('inserts every table from the fixtures', async () => {
+    const fixtures = generateFixtures({ seed: 'tests', now })
+    const result = await seedDatabase({ client, seed: 'tests', now })
+
+    expect(result.inserted).toEqual({
+      messages: fixtures.messages.length,
+      replies: fixtures.replies.length,
+      labels: fixtures.labels.length,
+      form_submissions: fixtures.formSubmissions.length,
+    })
+    expect(await count(client, 'messages')).toBe(fixtures.messages.length)
+    expect(await count(client, 'message_replies')).toBe(fixtures.replies.length)
+    expect(await count(client, 'labels')).toBe(fixtures.labels.length)
+    expect(await count(client, 'message_labels')).toBe(
+      fixtures.labels.reduce((total, label) => total + label.messageIndexes.length, 0)
+    )
+    expect(await count(client, 'form_submissions')).toBe(fixtures.formSubmissions.length)
+  })
+
+  it('seeds only the selected tables', async () => {
+    const result = await seedDatabase({ client, now, tables: ['form_submissions'] })
+
+    expect(result.tables).toEqual(['form_submissions'])
+    expect(await count(client, 'messages')).toBe(0)
+    expect(await count(client, 'form_submissions')).toBe(result.inserted.form_submissions)
+  })
+
+  it('appends by default and replaces existing rows with reset', async () => {
+    const options = { client, now, counts: { messages: 10 }, tables: ['messages'] as const }
+    await seedDatabase(options)
+    await seedDatabase(options)
+    expect(await count(client, 'messages')).toBe(20)
+
+    await seedDatabase({ ...options, reset: true })
+    expect(await count(client, 'messages')).toBe(10)
+  })
+
+  it('removes the stored files of attachments deleted by reset', async () => {
+    const files = new Map([['messages/1/file', new Uint8Array([1])]])
+    const storage = {
+      put: vi.fn(),
+      get: vi.fn(),
+      delete: async (key: string) => void files.delete(key),
+    }
+    const options = { client, now, storage, tables: ['messages'] as const }
+    await seedDatabase(options)
+    await client.execute(
+      `INSERT INTO message_attachments (message_id, file_name, content_type, size_bytes, storage_key)
+       VALUES (1, 'file.txt', 'text/plain', 1, 'messages/1/file')`
+    )
+
+    await seedDatabase({ ...options, reset: true })
+    expect(files.size).toBe(0)
+    expect(await count(client, 'message_attachments')).toBe(0)
+  })
+})
@@ -0,0 +1,247 @@
+import { createClient } from '@supabase/supabase-js'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { saveMessageAttachments } from '#libs/attachments'
+import type { Database } from '#libs/database.types'
+import { assignMessage } from '#libs/message-assignments'
+import { setMessageLabels } from '#libs/message-labels'
+import { addMessageReply } from '#libs/message-replies'
+import {
+  encodeMessageCursor,
+  getMessageRepository,
+  getStorageBackend,
+  setMessageRepository,
+  supportsMessageRecords,
+} from '#libs/message-repository'
+import {
+  SupabaseMessageRepository,
+  buildSnippet,
+  toSqliteTimestamp,
+  toTsQuery,
+} from '#libs/supabase-message-repository'
+
+interface RecordedRequest {
+  method: string
+  url: globalThis.URL
+  body: unknown
+}
+
+const row = (id: number) => ({
+  id,
+  name: 'Ada',
+  email: 'ada@example.com',
+  phone: null,
+  subject: null,
+  message: 'Hello there',
+  is_read: false,
+  is_archived: false,
+  ip_address: null,
+  user_agent: null,
+  organization_id: null,
+  created_at: '2025-06-01T12:00:00+00:00',
+  updated_at: '2025-06-01T12:00:00+00:00',
+})
+
+describe('Supabase search helpers', () => {
+  it('translates search box queries to tsquery expressions', () => {
+    expect(toTsQuery('invoice "late fee" pay*')).toEqual({
+      query: "'invoice' & ('late' <-> 'fee') & 'pay':*",
+      words: ['invoice', 'late', 'fee', 'pay*'],
+    })
+    expect(toTsQuery('ada@example.com')?.query).toBe("('ada' <-> 'example' <-> 'com')")
+    expect(toTsQuery('" * "')).toBeNull()
+  })
+
+  it('highlights matched words in a window of the body', () => {
+    const text = 'one two three four five six seven eight nine ten Invoice, eleven twelve'
+    const snippet = buildSnippet(text, ['invoice'])
+
+    expect(snippet?.find(part => part.match)).toEqual({ text: 'Invoice,', match: true })
+    expect(snippet?.[0]?.text.startsWith('one')).toBe(true)
+    expect(buildSnippet(text, ['pay*'])).toBeNull()
+    expect(buildSnippet('Paying now', ['pay*'])?.[0]).toEqual({ text: 'Paying', match: true })
+  })
+
+  it('formats timestamps like SQLite CURRENT_TIMESTAMP', () => {
+    expect(toSqliteTimestamp('2025-06-01T14:30:05+02:00')).toBe('2025-06-01 12:30:05')
+    expect(toSqliteTimestamp('not a date')).toBe('not a date')
+  })
+})
+
+describe('SupabaseMessageRepository', () => {
+  let requests: RecordedRequest[]
+  let respond: (request: RecordedRequest) => { body: unknown; total?: number }
+
+  const client = () =>
+    createClient<Database>('https://project.supabase.co', 'service-role-key', {
+      auth: { persistSession: false, autoRefreshToken: false },
+      global: {
+        fetch: async (input, init) => {
+          const request = {
+            method: init?.method ?? 'GET',
+            url: new globalThis.URL(String(input)),
+            body: typeof init?.body === 'string' ? JSON.parse(init.body) : undefined,
+          }
+          requests.push(request)
+          const { body, total } = respond(request)
+          return new globalThis.Response(request.method === 'HEAD' ? null : JSON.stringify(body), {
+            status: 200,
+            headers: {
+              'Content-Type': 'application/json',
+              ...(total === undefined ? {} : { 'Content-Range': `*/${total}` }),
+            },
+          })
+        },
+      },
+    })
+
+  const params = (request: RecordedRequest | undefined) =>
+    Object.fromEntries(request?.url.searchParams ?? [])
+
+  beforeEach(() => {
+    requests = []
+    respond = () => ({ body: [] })
+  })
+
+  it('lists a page of the organization inbox, newest first', async () => {
+    respond = request =>
+      request.method === 'HEAD' ? { body: null, total: 3 } : { body: [row(3), row(2)] }
+    const repository = new SupabaseMessageRepository({ client: client(), organizationId: 'org_a' })
+
+    const result = await repository.listPage({ page: 2, pageSize: 2, email: 'a_b' })
+
+    expect(result).toMatchObject({ total: 3, page: 2, pageSize: 2, totalPages: 2 })
+    expect(result.messages[0]).toMatchObject({ id: 3, created_at: '2025-06-01 12:00:00' })
+    expect(requests.map(request => request.method)).toEqual(['HEAD', 'GET'])
+    expect(params(requests[1])).toMatchObject({
+      organization_id: 'eq.org_a',
+      is_archived: 'is.false',
+      email: 'ilike.%a\\_b%',
+      order: 'created_at.desc,id.desc',
+      offset: '2',
+      limit: '2',
+    })
+    expect(params(requests[1]).select).not.toContain('fts')
+  })
+
+  it('continues after a cursor and searches the fts column', async () => {
+    respond = () => ({ body: [row(5), row(4)] })
+    const repository = new SupabaseMessageRepository({ client: client(), organizationId: null })
+    const cursor = encodeMessageCursor({ id: 6, created_at: '2025-06-01 12:00:00' })
+
+    const page = await repository.list({ search: { q: 'hello' }, limit: 1, cursor })
+
+    expect(page.messages.map(message => message.id)).toEqual([5])
+    expect(page.nextCursor).toBe(encodeMessageCursor({ id: 5, created_at: '2025-06-01 12:00:00' }))
+    expect(params(requests[0])).toMatchObject({
+      organization_id: 'is.null',
+      fts: "fts(simple).'hello'",
+      or: '(created_at.lt."2025-06-01T12:00:00Z",and(created_at.eq."2025-06-01T12:00:00Z",id.lt.6))',
+      limit: '2',
+    })
+  })
+
+  it('stores its own organization when creating messages', async () => {
+    respond = request => ({ body: { ...row(1), ...(request.body as object) } })
+    const repository = new SupabaseMessageRepository({ client: client(), organizationId: 'org_a' })
+
+    const message = await repository.create({
+      name: 'Ada',
+      email: 'ada@example.com',
+      subject: null,
+      message: 'Hello there',
+      ip_address: null,
+      user_agent: null,
+      organization_id: 'org_b',
+    })
+
+    expect(message.organization_id).toBe('org_a')
+    expect(requests[0]).toMatchObject({ method: 'POST', body: { organization_id: 'org_a' } })
+  })
+
+  it('counts updated and deleted rows within the scope', async () => {
+    respond = () => ({ body: [{ id: 1 }, { id: 2 }] })
+    const repository = new SupabaseMessageRepository({ client: client(), organizationId: 'org_a' })
+
+    expect(await repository.updateFlags([1, 2, 2, -1], { is_read: true })).toBe(2)
+    expect(await repository.delete([1, 2])).toBe(2)
+    expect(await repository.updateFlags([1], {})).toBe(0)
+
+    expect(requests.map(request => request.method)).toEqual(['PATCH', 'DELETE'])
+    expect(requests[0]?.body).toEqual({ is_read: true })
+    expect(params(requests[0])).toMatchObject({ id: 'in.(1,2)', organization_id: 'eq.org_a' })
+  })
+
+  it('rejects label and assignee filters', async () => {
+    const repository = new SupabaseMessageRepository({ client: client() })
+
+    await expect(repository.listPage({ label: '1' })).rejects.toThrow('Turso')
+    expect(requests).toHaveLength(0)
+  })
+
+  it('surfaces PostgREST errors', async () => {
+    const failing = createClient<Database>('https://project.supabase.co', 'key', {
+      global: {
+        fetch: async () =>
+          new globalThis.Response(
+            JSON.stringify({ message: 'permission denied for table messages' }),
+            {
+              status: 401,
+              headers: { 'Content-Type': 'application/json' },
+            }
+          ),
+      },
+    })
+
+    await expect(new SupabaseMessageRepository({ client: failing }).findById(1)).rejects.toThrow(
+      'Supabase query failed: permission denied for table messages'
+    )
+  })
+})
+
+describe('storage backend selection', () => {
+  afterEach(() => {
+    setMessageRepository(null)
+    vi.unstubAllEnvs()
+  })
+
+  it('defaults to Turso and switches to Supabase from STORAGE_BACKEND', () => {
+    vi.stubEnv('STORAGE_BACKEND', '')
+    setMessageRepository(null)
+    expect(getMessageRepository().name).toBe('turso')
+
+    vi.stubEnv('STORAGE_BACKEND', 'supabase')
+    setMessageRepository(null)
+    expect(getMessageRepository('org_a')).toMatchObject({
+      name: 'supabase',
+      organizationId: 'org_a',
+    })
+  })
+
+  it('refuses records linked to messages stored outside Turso', async () => {
+    vi.stubEnv('STORAGE_BACKEND', '')
+    expect(supportsMessageRecords()).toBe(true)
+
+    vi.stubEnv('STORAGE_BACKEND', 'supabase')
+    expect(supportsMessageRecords()).toBe(false)
+    await expect(
+      addMessageReply(
+        { ...row(1), created_at: '2025-06-01 12:00:00' },
+        { kind: 'note', body: 'Hi' },
+        {
+          id: 'user_1',
+          name: 'Ada',
+        }
+      )
+    ).rejects.toThrow('Replies and notes need the Turso message storage backend')
+    await expect(saveMessageAttachments(1, [])).rejects.toThrow('Attachments need')
+    await expect(assignMessage(1, 'user_1', 'user_2')).rejects.toThrow('Assignments need')
+    await expect(setMessageLabels(1, [1])).rejects.toThrow('Labels need')
+  })
+
+  it('rejects unknown backends', () => {
+    vi.stubEnv('STORAGE_BACKEND', 'mongodb')
+
+    expect(() => getStorageBackend()).toThrow('Unsupported STORAGE_BACKEND: mongodb')
+  })
+})
@@ -0,0 +1,116 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import {
+  DEFAULT_LOCAL_DATABASE_URL,
+  executeQuery,
+  executeTransaction,
+  getDatabaseHealth,
+  getDatabaseMode,
+  isLocalDatabaseUrl,
+  isTursoConfigured,
+  resetTursoClient,
+  validateTursoConfig,
+} from '#libs/turso'
+
+describe('local libSQL mode', () => {
+  beforeEach(() => {
+    resetTursoClient()
+    vi.stubEnv('DB_MODE', '')
+    vi.stubEnv('TURSO_AUTH_TOKEN', '')
+  })
+
+  afterEach(() => {
+    resetTursoClient()
+    vi.unstubAllEnvs()
+  })
+
+  it('recognises file and in-memory URLs', () => {
+    expect(isLocalDatabaseUrl(':memory:')).toBe(true)
+    expect(isLocalDatabaseUrl('file:.data/local.db')).toBe(true)
+    expect(isLocalDatabaseUrl('file:///tmp/app.db')).toBe(true)
+    expect(isLocalDatabaseUrl('libsql://app.turso.io')).toBe(false)
+    expect(isLocalDatabaseUrl('')).toBe(false)
+  })
+
+  it('treats a local URL without an auth token as configured', () => {
+    vi.stubEnv('TURSO_DATABASE_URL', 'file:.data/test.db')
+
+    expect(getDatabaseMode()).toBe('local')
+    expect(isTursoConfigured()).toBe(true)
+    expect(() => validateTursoConfig()).not.toThrow()
+  })
+
+  it('switches to a local database with DB_MODE=local', () => {
+    vi.stubEnv('TURSO_DATABASE_URL', 'libsql://app.turso.io')
+    vi.stubEnv('DB_MODE', 'local')
+
+    expect(getDatabaseMode()).toBe('local')
+    expect(isTursoConfigured()).toBe(true)
+    expect(DEFAULT_LOCAL_DATABASE_URL).toMatch(/^file:/)
+  })
+
+  it('still requires an auth token for remote URLs', () => {
+    vi.stubEnv('TURSO_DATABASE_URL', 'libsql://app.turso.io')
+
+    expect(getDatabaseMode()).toBe('remote')
+    expect(isTursoConfigured()).toBe(false)
+    expect(() => validateTursoConfig()).toThrow('TURSO_AUTH_TOKEN')
+  })
+
+  it('installs the schema on first use of an in-memory database', async () => {
+    vi.stubEnv('TURSO_DATABASE_URL', ':memory:')
+
+    const result = await executeQuery('SELECT COUNT(*) AS total FROM messages')
+
+    expect(result.rows[0]?.total).toBe(0)
+  })
+
+  it('retries retryable errors and counts exhausted retries as circuit failures', async () => {
+    vi.stubEnv('TURSO_DATABASE_URL', ':memory:')
+    const options = { attempts: 3, baseDelayMs: 0, isRetryable: () => true }
+
+    await expect(executeQuery('SELECT * FROM missing_table', [], options)).rejects.toThrow(
+      'Database operation failed after 3 attempts'
+    )
+    expect(getDatabaseHealth()).toMatchObject({
+      configured: true,
+      mode: 'local',
+      circuit: { state: 'closed', consecutiveFailures: 1 },
+    })
+
+    await executeQuery('SELECT 1')
+    expect(getDatabaseHealth().circuit.consecutiveFailures).toBe(0)
+  })
+
+  it('makes a single attempt at writes unless attempts are given', async () => {
+    vi.stubEnv('TURSO_DATABASE_URL', ':memory:')
+    const options = { baseDelayMs: 0, isRetryable: () => true }
+    const insert = 'INSERT INTO missing_table (id) VALUES (1)'
+
+    await expect(executeQuery(insert, [], options)).rejects.toThrow(
+      'Database operation failed after 1 attempts'
+    )
+    await expect(executeQuery(insert, [], { ...options, attempts: 2 })).rejects.toThrow(
+      'Database operation failed after 2 attempts'
+    )
+    await expect(executeQuery('SELECT * FROM missing_table', [], options)).rejects.toThrow(
+      'Database operation failed after 3 attempts'
+    )
+  })
+
+  it('makes a single attempt at write batches unless attempts are given', async () => {
+    vi.stubEnv('TURSO_DATABASE_URL', ':memory:')
+    const options = { baseDelayMs: 0, isRetryable: () => true }
+    const writes = [{ query: 'SELECT 1' }, { query: 'INSERT INTO missing_table (id) VALUES (1)' }]
+
+    await expect(executeTransaction(writes, options)).rejects.toThrow(
+      'Transaction failed after 1 attempts'
+    )
+    await expect(executeTransaction(writes, { ...options, attempts: 2 })).rejects.toThrow(
+      'Transaction failed after 2 attempts'
+    )
+    await expect(
+      executeTransaction([{ query: 'SELECT * FROM missing_table' }], options)
+    ).rejects.toThrow('Transaction failed after 3 attempts')
+  })
+})
@@ -0,0 +1,86 @@
+import { mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { executeQuery, resetTursoClient, withTransaction } from '#libs/turso'
+
+const countMessages = async () => {
+  const result = await executeQuery('SELECT COUNT(*) AS count FROM messages')
+  return Number(result.rows[0]?.count)
+}
+
+const insertMessage = 'INSERT INTO messages (name, email, message) VALUES (?, ?, ?)'
+
+describe('withTransaction', () => {
+  let directory: string
+
+  beforeEach(() => {
+    resetTursoClient()
+    directory = mkdtempSync(join(tmpdir(), 'turso-tx-'))
+    vi.stubEnv('DB_MODE', '')
+    vi.stubEnv('TURSO_AUTH_TOKEN', '')
+    vi.stubEnv('TURSO_DATABASE_URL', `file:${join(directory, 'test.db')}`)
+  })
+
+  afterEach(() => {
+    resetTursoClient()
+    vi.unstubAllEnvs()
+    rmSync(directory, { recursive: true, force: true })
+  })
+
+  it('commits writes that depend on reads in the same transaction', async () => {
+    const id = await withTransaction(async tx => {
+      const existing = await tx.execute({
+        sql: 'SELECT id FROM messages WHERE email = ?',
+        args: ['ada@example.com'],
+      })
+      if (existing.rows.length > 0) {
+        return Number(existing.rows[0]?.id)
+      }
+      const inserted = await tx.execute({
+        sql: `${insertMessage} RETURNING id`,
+        args: ['Ada', 'ada@example.com', 'Hello'],
+      })
+      return Number(inserted.rows[0]?.id)
+    })
+
+    expect(id).toBeGreaterThan(0)
+    expect(await countMessages()).toBe(1)
+  })
+
+  it('rolls back and rethrows when the callback throws', async () => {
+    const failure = new Error('Out of stock')
+
+    await expect(
+      withTransaction(async tx => {
+        await tx.execute({ sql: insertMessage, args: ['Ada', 'ada@example.com', 'Hello'] })
+        throw failure
+      })
+    ).rejects.toBe(failure)
+
+    expect(await countMessages()).toBe(0)
+  })
+
+  it.each(['read', 'deferred'] as const)('runs %s transactions', async mode => {
+    await executeQuery(insertMessage, ['Ada', 'ada@example.com', 'Hello'])
+
+    const count = await withTransaction(
+      async tx => {
+        const result = await tx.execute('SELECT COUNT(*) AS count FROM messages')
+        return Number(result.rows[0]?.count)
+      },
+      { mode }
+    )
+
+    expect(count).toBe(1)
+  })
+
+  it('refuses in-memory databases', async () => {
+    vi.stubEnv('TURSO_DATABASE_URL', ':memory:')
+    resetTursoClient()
+
+    await expect(withTransaction(async () => undefined)).rejects.toThrow(':memory:')
+  })
+})
@@ -0,0 +1,359 @@
+import { mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest'
+
+import { executeQuery, resetTursoClient } from '#libs/turso'
+import {
+  WEBHOOK_MAX_ATTEMPTS,
+  checkWebhookEndpoint,
+  createWebhookSecret,
+  createWebhookSubscription,
+  deleteWebhookSubscription,
+  dispatchWebhookEvent,
+  getRetryDelayMinutes,
+  isPublicAddress,
+  listWebhookDeliveries,
+  listWebhookSubscriptions,
+  pruneWebhookDeliveries,
+  retryWebhookDelivery,
+  sendTestWebhook,
+  sendWebhookRequest,
+  setWebhookSubscriptionActive,
+  signWebhookPayload,
+  validateWebhookInput,
+  verifyWebhookSignature,
+} from '#libs/webhooks'
+
+const SECRET = 'whsec_test'
+const NOW = 1_700_000_000_000
+
+describe('signWebhookPayload', () => {
+  it('should sign the timestamp and body together', () => {
+    const signature = signWebhookPayload(SECRET, 1_700_000_000, '{"a":1}')
+    expect(signature).toMatch(/^sha256=[0-9a-f]{64}$/)
+    expect(signWebhookPayload(SECRET, 1_700_000_001, '{"a":1}')).not.toBe(signature)
+    expect(signWebhookPayload('other', 1_700_000_000, '{"a":1}')).not.toBe(signature)
+  })
+})
+
+describe('verifyWebhookSignature', () => {
+  const body = '{"event":"message.created"}'
+  const timestamp = NOW / 1000
+  const signature = signWebhookPayload(SECRET, timestamp, body)
+
+  it('should accept a fresh, untampered delivery', () => {
+    expect(verifyWebhookSignature(SECRET, { timestamp, body, signature }, { now: NOW })).toBe(true)
+    expect(
+      verifyWebhookSignature(
+        SECRET,
+        { timestamp: String(timestamp), body, signature },
+        { now: NOW }
+      )
+    ).toBe(true)
+  })
+
+  it('should reject a changed body, wrong secret or missing signature', () => {
+    expect(
+      verifyWebhookSignature(SECRET, { timestamp, body: `${body} `, signature }, { now: NOW })
+    ).toBe(false)
+    expect(verifyWebhookSignature('other', { timestamp, body, signature }, { now: NOW })).toBe(
+      false
+    )
+    expect(verifyWebhookSignature(SECRET, { timestamp, body, signature: null }, { now: NOW })).toBe(
+      false
+    )
+  })
+
+  it('should reject timestamps outside the tolerance', () => {
+    const later = NOW + 301_000
+    expect(verifyWebhookSignature(SECRET, { timestamp, body, signature }, { now: later })).toBe(
+      false
+    )
+    expect(
+      verifyWebhookSignature(
+        SECRET,
+        { timestamp, body, signature },
+        { now: later, toleranceSeconds: 600 }
+      )
+    ).toBe(true)
+    expect(verifyWebhookSignature(SECRET, { timestamp: null, body, signature }, { now: NOW })).toBe(
+      false
+    )
+  })
+})
+
+describe('getRetryDelayMinutes', () => {
+  it('should back off after each failure and give up after the last attempt', () => {
+    expect(getRetryDelayMinutes(1)).toBe(1)
+    expect(getRetryDelayMinutes(2)).toBe(5)
+    expect(getRetryDelayMinutes(WEBHOOK_MAX_ATTEMPTS - 1)).toBe(720)
+    expect(getRetryDelayMinutes(WEBHOOK_MAX_ATTEMPTS)).toBeNull()
+  })
+})
+
+describe('createWebhookSecret', () => {
+  it('should create distinct prefixed secrets', () => {
+    const secret = createWebhookSecret()
+    expect(secret).toMatch(/^whsec_[0-9a-f]{48}$/)
+    expect(createWebhookSecret()).not.toBe(secret)
+  })
+})
+
+describe('validateWebhookInput', () => {
+  it('should accept a URL with known events', () => {
+    const result = validateWebhookInput({
+      url: ' https://example.com/hooks ',
+      events: ['message.created', 'form.submitted', 'message.created'],
+      description: '  CRM  ',
+    })
+    expect(result).toEqual({
+      ok: true,
+      value: {
+        url: 'https://example.com/hooks',
+        events: ['message.created', 'form.submitted'],
+        description: 'CRM',
+      },
+    })
+  })
+
+  it('should accept a single event from a form field', () => {
+    const result = validateWebhookInput({ url: 'https://8.8.8.8/', events: 'form.submitted' })
+    expect(result.ok && result.value).toEqual({
+      url: 'https://8.8.8.8/',
+      events: ['form.submitted'],
+      description: null,
+    })
+  })
+
+  it('should reject plain http and internal hosts', () => {
+    for (const url of [
+      'http://example.com/hooks',
+      'https://localhost:4322/',
+      'https://printer.local/',
+      'https://127.0.0.1/',
+      'https://2130706433/',
+      'https://10.0.0.5/',
+      'https://169.254.169.254/latest/meta-data/',
+      'https://[::1]/',
+      'https://[::ffff:127.0.0.1]/',
+      'https://[fd00:ec2::254]/',
+    ]) {
+      expect(validateWebhookInput({ url, events: ['message.created'] }).ok, url).toBe(false)
+    }
+  })
+
+  it('should reject other protocols, unknown events and long descriptions', () => {
+    expect(validateWebhookInput({ url: 'ftp://example.com', events: ['message.created'] }).ok).toBe(
+      false
+    )
+    expect(validateWebhookInput({ url: 'not a url', events: ['message.created'] }).ok).toBe(false)
+    expect(validateWebhookInput({ url: 'https://example.com', events: [] }).ok).toBe(false)
+    expect(validateWebhookInput({ url: 'https://example.com', events: ['user.deleted'] }).ok).toBe(
+      false
+    )
+    expect(
+      validateWebhookInput({
+        url: 'https://example.com',
+        events: ['message.created'],
+        description: 'x'.repeat(256),
+      }).ok
+    ).toBe(false)
+  })
+})
+
+describe('isPublicAddress', () => {
+  it('should tell public addresses from loopback, private and link-local ones', () => {
+    expect(isPublicAddress('93.184.216.34')).toBe(true)
+    expect(isPublicAddress('2606:2800:220:1:248:1893:25c8:1946')).toBe(true)
+    expect(isPublicAddress('192.168.1.10')).toBe(false)
+    expect(isPublicAddress('100.100.100.200')).toBe(false)
+    expect(isPublicAddress('fe80::1')).toBe(false)
+    expect(isPublicAddress('::ffff:a9fe:a9fe')).toBe(false)
+    expect(isPublicAddress('example.com')).toBe(false)
+  })
+})
+
+describe('checkWebhookEndpoint', () => {
+  it('should reject host names that resolve to any internal address', async () => {
+    const lookup = vi.fn(async (hostname: string) =>
+      hostname === 'hooks.example.com' ? ['93.184.216.34'] : ['93.184.216.34', '10.0.0.1']
+    )
+
+    expect(await checkWebhookEndpoint('https://hooks.example.com/', lookup)).toBeNull()
+    expect(await checkWebhookEndpoint('https://rebind.example.com/', lookup)).toBe(
+      'The endpoint must be a public host'
+    )
+    expect(await checkWebhookEndpoint('https://app.localhost/', lookup)).toBe(
+      'The endpoint must be a public host'
+    )
+    expect(lookup).toHaveBeenCalledTimes(2)
+  })
+
+  it('should reject hosts that do not resolve', async () => {
+    const lookup = async () => {
+      throw new Error('ENOTFOUND')
+    }
+
+    expect(await checkWebhookEndpoint('https://missing.example.com/', lookup)).toBe(
+      'The endpoint host missing.example.com could not be resolved'
+    )
+  })
+})
+
+describe('sendWebhookRequest', () => {
+  const body = '{"event":"message.created"}'
+
+  it('should POST a signed body the receiver can verify', async () => {
+    const fetch = vi.fn(async () => new globalThis.Response(null, { status: 204 }))
+
+    const result = await sendWebhookRequest(
+      'https://example.com/hooks',
+      SECRET,
+      { id: 'evt_1', event: 'message.created' },
+      body,
+      { fetch, now: NOW }
+    )
+
+    expect(result).toEqual({ ok: true, status: 204, error: null })
+    const [url, init] = fetch.mock.calls[0] as unknown as [string, globalThis.RequestInit]
+    const headers = init.headers as Record<string, string>
+    expect(url).toBe('https://example.com/hooks')
+    expect(init).toMatchObject({ method: 'POST', redirect: 'manual', body })
+    expect(headers['X-Webhook-Id']).toBe('evt_1')
+    expect(headers['X-Webhook-Event']).toBe('message.created')
+    expect(
+      verifyWebhookSignature(
+        SECRET,
+        {
+          timestamp: headers['X-Webhook-Timestamp'] ?? null,
+          body,
+          signature: headers['X-Webhook-Signature'] ?? null,
+        },
+        { now: NOW }
+      )
+    ).toBe(true)
+  })
+
+  it('should treat redirects and errors as failed deliveries', async () => {
+    const redirect = vi.fn(async () => new globalThis.Response(null, { status: 302 }))
+    expect(
+      await sendWebhookRequest('https://example.com', SECRET, { id: 'e', event: 'x' }, body, {
+        fetch: redirect,
+      })
+    ).toEqual({ ok: false, status: 302, error: 'Endpoint responded with 302' })
+
+    const offline = vi.fn(async () => {
+      throw new Error('connect ECONNREFUSED')
+    })
+    expect(
+      await sendWebhookRequest('https://example.com', SECRET, { id: 'e', event: 'x' }, body, {
+        fetch: offline,
+      })
+    ).toEqual({ ok: false, status: null, error: 'connect ECONNREFUSED' })
+  })
+})
+
+describe('webhook delivery log', () => {
+  let directory: string
+  const accept = vi.fn(async () => new globalThis.Response(null, { status: 204 }))
+  const reject = vi.fn(async () => new globalThis.Response(null, { status: 500 }))
+  const lookup = async () => ['93.184.216.34']
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'webhooks-'))
+    vi.stubEnv('TURSO_DATABASE_URL', `file:${join(directory, 'test.db')}`)
+    resetTursoClient()
+  })
+
+  afterEach(() => {
+    resetTursoClient()
+    vi.unstubAllEnvs()
+    rmSync(directory, { recursive: true, force: true })
+  })
+
+  const INPUT = {
+    url: 'https://example.com/hooks',
+    events: ['message.created' as const],
+    description: null,
+  }
+
+  const failDelivery = async (id: number) =>
+    executeQuery(`UPDATE webhook_deliveries SET status = 'failed' WHERE id = ?`, [id])
+
+  it('should only retry failed deliveries of active webhooks', async () => {
+    const subscription = await createWebhookSubscription(INPUT, 'org_a')
+    await sendTestWebhook(subscription.id, 'org_a', { fetch: reject, lookup })
+    const [delivery] = await listWebhookDeliveries('org_a')
+    expect(delivery?.status).toBe('pending')
+
+    expect(
+      await retryWebhookDelivery(delivery?.id ?? 0, 'org_a', { fetch: accept, lookup })
+    ).toBeNull()
+
+    await failDelivery(delivery?.id ?? 0)
+    await setWebhookSubscriptionActive(subscription.id, false, 'org_a')
+    expect(
+      await retryWebhookDelivery(delivery?.id ?? 0, 'org_a', { fetch: accept, lookup })
+    ).toBeNull()
+    expect(accept).not.toHaveBeenCalled()
+
+    await setWebhookSubscriptionActive(subscription.id, true, 'org_a')
+    expect(await retryWebhookDelivery(delivery?.id ?? 0, 'org_a', { fetch: accept, lookup })).toBe(
+      'succeeded'
+    )
+  })
+
+  it('should not call an endpoint that now resolves to an internal address', async () => {
+    const subscription = await createWebhookSubscription(INPUT, 'org_a')
+    const fetch = vi.fn(async () => new globalThis.Response(null, { status: 204 }))
+
+    await sendTestWebhook(subscription.id, 'org_a', {
+      fetch,
+      lookup: async () => ['169.254.169.254'],
+    })
+
+    expect(fetch).not.toHaveBeenCalled()
+    expect(await listWebhookDeliveries('org_a')).toMatchObject([
+      { status: 'pending', response_status: null, error: 'The endpoint must be a public host' },
+    ])
+  })
+
+  it('should prune finished deliveries past the retention period', async () => {
+    const subscription = await createWebhookSubscription(INPUT, 'org_a')
+    await sendTestWebhook(subscription.id, 'org_a', { fetch: accept, lookup })
+    await sendTestWebhook(subscription.id, 'org_a', { fetch: reject, lookup })
+    await sendTestWebhook(subscription.id, 'org_a', { fetch: accept, lookup })
+    await executeQuery(
+      `UPDATE webhook_deliveries SET updated_at = datetime('now', '-40 days') WHERE id IN (1, 2)`
+    )
+
+    expect(await pruneWebhookDeliveries(30)).toBe(1)
+    expect((await listWebhookDeliveries('org_a')).map(delivery => delivery.id)).toEqual([3, 2])
+  })
+
+  it("should keep each organization's webhooks and events apart", async () => {
+    const own = await createWebhookSubscription(INPUT, 'org_a')
+    const other = await createWebhookSubscription(INPUT, 'org_b')
+
+    expect(
+      await dispatchWebhookEvent('message.created', { id: 1 }, 'org_a', { fetch: accept, lookup })
+    ).toBe(1)
+    expect(
+      await dispatchWebhookEvent('message.created', { id: 2 }, null, { fetch: accept, lookup })
+    ).toBe(0)
+
+    expect((await listWebhookSubscriptions('org_a')).map(subscription => subscription.id)).toEqual([
+      own.id,
+    ])
+    expect(await listWebhookDeliveries('org_b')).toEqual([])
+    expect(await listWebhookDeliveries('org_a')).toMatchObject([
+      { subscription_id: own.id, organization_id: 'org_a' },
+    ])
+    expect(await sendTestWebhook(other.id, 'org_a', { fetch: accept, lookup })).toBeNull()
+    expect(await setWebhookSubscriptionActive(other.id, false, 'org_a')).toBe(false)
+    expect(await deleteWebhookSubscription(other.id, 'org_a')).toBe(false)
+    expect(await listWebhookSubscriptions(undefined)).toHaveLength(2)
+  })
+})